@@ -1,4 +1,4 @@
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useAuth } from "@clerk/clerk-expo";
 import Ionicons from "@expo/vector-icons/Ionicons";
 import {
@@ -7,6 +7,9 @@ import {
   setAudioModeAsync,
   useAudioRecorder,
 } from "expo-audio";
+import { fetch as streamingFetch } from "expo/fetch";
+import { Image } from "expo-image";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import { useAccount } from "jazz-tools/expo";
 import {
   Platform,
@@ -20,10 +23,38 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { StreamdownRN } from "streamdown-rn";
-import { localDateKeyFromTimestamp } from "../../src/date";
+import {
+  type AgentEvent,
+  type AgentStreamEvent,
+  type AiTurnStreamEvent,
+  type ApprovalOutput,
+  type LogEntryChanges,
+  type PendingApprovalSuggestion,
+  readSseData,
+  type RecentLogHint,
+  type ResolvedApprovalSuggestion,
+  type ResolvedLogDeletionSuggestion,
+  type ResolvedLogEditSuggestion,
+  type SessionLogEntry,
+} from "../../backend/src/shared/ai-stream";
+import type { SearchResultFood } from "../../backend/src/shared/search-contract";
+import { buildCustomFoodHints } from "../../src/custom-foods";
+import {
+  getTodayLocalDateKey,
+  localDateKeyFromTimestamp,
+  normalizeLocalDateKey,
+  shiftLocalDateKey,
+} from "../../src/date";
+import { dailyGoalsFor, sumEntryNutrition } from "../../src/goals";
 import { CaloricAccount } from "../../src/jazz/schema";
-import { mealLabelFor, normalizeMeal } from "../../src/meals";
-import { formatPortionLabel } from "../../src/portion";
+import { MEAL_TIMES, mealLabelFor, normalizeMeal } from "../../src/meals";
+import { formatPortionLabel, sanitizePortion } from "../../src/portion";
+import {
+  type ServingSize,
+  entryNutritionMultiplier,
+  sanitizeServingAmount,
+  servingMultiplier,
+} from "../../src/serving";
 
 const BACKEND_BASE_URL =
   (process.env.EXPO_PUBLIC_BACKEND_URL?.trim() ?? "").replace(/\/+$/, "") ||
@@ -47,42 +78,14 @@ const palette = {
   success: iosColor("systemGreen", "#16A34A"),
 };
 
-type Meal = "breakfast" | "lunch" | "dinner" | "snacks";
-
-type ApprovalOutput = {
+type BatchApprovalDecision = {
+  suggestionId: string;
   approved: boolean;
-  reason?: string;
+  adjustments?: LogEntryChanges;
 };
 
 type ChatStatus = "ready" | "streaming" | "awaiting-approval";
 
-type SearchResultFood = {
-  resultId: string;
-  name: string;
-  brand?: string;
-  serving?: string;
-  nutrition?: {
-    calories?: number;
-    protein?: number;
-    carbs?: number;
-    fat?: number;
-    fiber?: number;
-    sugars?: number;
-    sodiumMg?: number;
-    potassiumMg?: number;
-  };
-};
-
-type ResolvedApprovalSuggestion = {
-  suggestionId: string;
-  resultId: string;
-  meal: Meal;
-  portion: number;
-  reason: string;
-  food: SearchResultFood;
-  output?: ApprovalOutput;
-};
-
 type TextUIMessage = {
   id: string;
   kind: "text";
@@ -100,25 +103,16 @@ type ApprovalUIMessage = {
   id: string;
   kind: "approval";
   toolCallId: string;
-  suggestions: ResolvedApprovalSuggestion[];
+  suggestions: PendingApprovalSuggestion[];
 };
 
-type UIMessage = TextUIMessage | SearchUIMessage | ApprovalUIMessage;
+type PhotoUIMessage = {
+  id: string;
+  kind: "photo";
+  uri: string;
+};
 
-type AgentEvent =
-  | {
-      kind: "assistant";
-      text: string;
-    }
-  | {
-      kind: "search";
-      foods: SearchResultFood[];
-    }
-  | {
-      kind: "approval";
-      toolCallId: string;
-      suggestions: ResolvedApprovalSuggestion[];
-    };
+type UIMessage = TextUIMessage | PhotoUIMessage | SearchUIMessage | ApprovalUIMessage;
 
 type AgentAction =
   | {
@@ -130,29 +124,34 @@ type AgentAction =
       toolCallId: string;
       suggestionId: string;
       approved: boolean;
+      adjustments?: LogEntryChanges;
+    }
+  | {
+      type: "approval-batch";
+      toolCallId: string;
+      /** Applies to every open suggestion not listed in `decisions`. */
+      approved: boolean;
+      decisions?: BatchApprovalDecision[];
     };
 
-type AudioUpload = {
+/** A local file sent as a multipart field (voice snippet or meal photo). */
+type FileUpload = {
   uri: string;
   mimeType: string;
   fileName: string;
 };
 
-type RecentLogHintPayload = {
-  foodName: string;
-  meal?: string;
-  brand?: string;
-  serving?: string;
-  createdAt?: number;
-  dateKey?: string;
-};
-
 type MaybeLoadedLogEntry = {
   $isLoaded?: boolean;
+  $jazz?: { id?: string };
   foodName?: string;
   meal?: string;
   brand?: string;
   serving?: string;
+  portion?: number;
+  servingSize?: ServingSize;
+  servingAmount?: number;
+  nutrition?: { calories?: number; protein?: number; carbs?: number; fat?: number } | null;
   createdAt?: number;
   dateKey?: string;
 };
@@ -187,6 +186,67 @@ function formatCalories(value: number | undefined): string {
   return Math.round(value).toLocaleString();
 }
 
+const approvedLabels: Record<PendingApprovalSuggestion["kind"], string> = {
+  add: "Approved and logged.",
+  edit: "Approved and updated.",
+  delete: "Approved and removed.",
+};
+
+function describeLogEntry(entry: SessionLogEntry): string {
+  const meal = normalizeMeal(entry.meal);
+  return [
+    entry.dateKey,
+    meal ? mealLabelFor(meal) : undefined,
+    entry.portion !== undefined ? formatPortionLabel(entry.portion) : undefined,
+    entry.calories !== undefined ? `${formatCalories(entry.calories)} kcal` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+function describeLogEntryChanges(suggestion: ResolvedLogEditSuggestion): string {
+  const { portion, meal, dateKey } = suggestion.changes;
+  return [
+    portion !== undefined ? `Portion to ${formatPortionLabel(portion)}` : undefined,
+    meal ? `Move to ${mealLabelFor(meal)}` : undefined,
+    dateKey ? `Move to ${dateKey}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+function formatSuggestionDay(dateKey: string, todayDateKey: string): string {
+  if (dateKey === todayDateKey) {
+    return "Today";
+  }
+
+  return dateKey === shiftLocalDateKey(todayDateKey, -1) ? "Yesterday" : dateKey;
+}
+
+/** The card's values with the user's changes; `adjustments` keeps only the fields that differ. */
+function adjustFoodSuggestion(
+  suggestion: ResolvedApprovalSuggestion,
+  draft: LogEntryChanges | undefined,
+  todayDateKey: string,
+): { suggestion: ResolvedApprovalSuggestion; adjustments: LogEntryChanges | undefined } {
+  const adjustments: LogEntryChanges = {};
+  if (draft?.meal && draft.meal !== suggestion.meal) {
+    adjustments.meal = draft.meal;
+  }
+  if (draft?.portion !== undefined && draft.portion !== suggestion.portion) {
+    adjustments.portion = draft.portion;
+  }
+  if (draft?.dateKey && draft.dateKey !== (suggestion.dateKey ?? todayDateKey)) {
+    adjustments.dateKey = draft.dateKey;
+  }
+
+  const hasAdjustments = Object.keys(adjustments).length > 0;
+  return {
+    suggestion: hasAdjustments ? { ...suggestion, ...adjustments } : suggestion,
+    adjustments: hasAdjustments ? adjustments : undefined,
+  };
+}
+
 function getErrorMessage(error: unknown): string {
   if (error instanceof Error && error.message.trim()) {
     return error.message;
@@ -225,6 +285,8 @@ function buildErrorDetails(options: {
   method: string;
   url: string;
   status?: number;
+  /** `X-Request-Id` from the backend, for finding the matching server log line. */
+  requestId?: string | null;
   payload?: unknown;
   underlyingError?: unknown;
 }): string {
@@ -234,6 +296,10 @@ function buildErrorDetails(options: {
     lines.push(`status: ${options.status}`);
   }
 
+  if (options.requestId) {
+    lines.push(`request id: ${options.requestId}`);
+  }
+
   if (options.payload !== undefined) {
     if (typeof options.payload === "string") {
       lines.push(`payload: ${options.payload}`);
@@ -253,7 +319,7 @@ function buildErrorDetails(options: {
   return lines.join("\n");
 }
 
-function inferAudioMeta(uri: string): Pick<AudioUpload, "mimeType" | "fileName"> {
+function inferAudioMeta(uri: string): Pick<FileUpload, "mimeType" | "fileName"> {
   const extension = uri.match(/\.([a-z0-9]+)(?:\?|$)/i)?.[1]?.toLowerCase();
 
   const mimeType =
@@ -275,13 +341,27 @@ function inferAudioMeta(uri: string): Pick<AudioUpload, "mimeType" | "fileName">
   };
 }
 
-function buildRecentLogHints(logs: unknown, now = Date.now()): RecentLogHintPayload[] {
+/** Prefers the camera's reported format; otherwise reads the extension of the file URI. */
+function inferPhotoMeta(uri: string, format?: string): Pick<FileUpload, "mimeType" | "fileName"> {
+  const extension = (format ?? uri.match(/\.([a-z0-9]+)(?:\?|$)/i)?.[1])?.toLowerCase();
+
+  const mimeType =
+    extension === "png" ? "image/png" : extension === "webp" ? "image/webp" : "image/jpeg";
+  const fileExtension = mimeType === "image/jpeg" ? "jpg" : extension;
+
+  return {
+    mimeType,
+    fileName: `meal-${Date.now()}.${fileExtension}`,
+  };
+}
+
+function buildRecentLogHints(logs: unknown, now = Date.now()): RecentLogHint[] {
   if (!logs || typeof (logs as { forEach?: unknown }).forEach !== "function") {
     return [];
   }
 
   const cutoff = now - recentLogWindowMs;
-  const output: RecentLogHintPayload[] = [];
+  const output: RecentLogHint[] = [];
   const rows = logs as { forEach: (callback: (entry: MaybeLoadedLogEntry) => void) => void };
 
   rows.forEach((entry) => {
@@ -303,11 +383,26 @@ function buildRecentLogHints(logs: unknown, now = Date.now()): RecentLogHintPayl
       return;
     }
 
+    const portion = Number.isFinite(entry.portion) ? Number(entry.portion) : undefined;
+    const multiplier = entryNutritionMultiplier({
+      portion: portion ?? 1,
+      servingSize: entry.servingSize,
+      servingAmount: entry.servingAmount,
+    });
+    const scaled = (value: number | undefined) =>
+      value !== undefined && Number.isFinite(value) ? value * multiplier : undefined;
+
     output.push({
+      entryId: entry.$jazz?.id,
       foodName,
       meal: typeof entry.meal === "string" ? entry.meal.trim() : undefined,
       brand: typeof entry.brand === "string" ? entry.brand.trim() : undefined,
       serving: typeof entry.serving === "string" ? entry.serving.trim() : undefined,
+      portion,
+      calories: scaled(entry.nutrition?.calories),
+      protein: scaled(entry.nutrition?.protein),
+      carbs: scaled(entry.nutrition?.carbs),
+      fat: scaled(entry.nutrition?.fat),
       createdAt,
       dateKey: typeof entry.dateKey === "string" ? entry.dateKey.trim() : undefined,
     });
@@ -319,9 +414,13 @@ function buildRecentLogHints(logs: unknown, now = Date.now()): RecentLogHintPayl
 
 export default function AILogScreen() {
   const insets = useSafeAreaInsets();
-  const { userId } = useAuth();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ photoUri?: string | string[]; photoFormat?: string | string[] }>();
+  const photoUri = Array.isArray(params.photoUri) ? params.photoUri[0] : params.photoUri;
+  const photoFormat = Array.isArray(params.photoFormat) ? params.photoFormat[0] : params.photoFormat;
+  const { userId, getToken } = useAuth();
   const me = useAccount(CaloricAccount, {
-    resolve: { root: { logs: true } },
+    resolve: { root: { logs: { $each: { nutrition: true } }, foods: { $each: { nutrition: true } } } },
   });
 
   const [input, setInput] = useState("");
@@ -329,14 +428,17 @@ export default function AILogScreen() {
   const [status, setStatus] = useState<ChatStatus>("ready");
   const [error, setError] = useState<string | null>(null);
   const [errorDetails, setErrorDetails] = useState<string | null>(null);
+  const [foodAdjustmentDrafts, setFoodAdjustmentDrafts] = useState<Record<string, LogEntryChanges>>({});
   const scrollViewRef = useRef<ScrollView | null>(null);
   const audioRecorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
   const [isRecording, setIsRecording] = useState(false);
 
   const isStreaming = status === "streaming";
   const sessionIdRef = useRef<string | null>(null);
-  const pendingApprovalsRef = useRef(new Map<string, ResolvedApprovalSuggestion[]>());
+  const pendingApprovalsRef = useRef(new Map<string, PendingApprovalSuggestion[]>());
   const loopRunningRef = useRef(false);
+  const streamingMessageIdRef = useRef<string | null>(null);
+  const handledPhotoUriRef = useRef<string | null>(null);
 
   const appendApprovedFoodToLog = (suggestion: ResolvedApprovalSuggestion) => {
     if (!me.$isLoaded) {
@@ -358,10 +460,92 @@ export default function AILogScreen() {
       portion: suggestion.portion,
       nutrition: cloneNutrition(suggestion.food.nutrition),
       createdAt,
-      dateKey: localDateKeyFromTimestamp(createdAt),
+      dateKey: suggestion.dateKey ?? localDateKeyFromTimestamp(createdAt),
     });
   };
 
+  /** Today's goals and totals, so the agent can answer questions about the remaining budget. */
+  const buildDailySummary = () => {
+    if (!me.$isLoaded) {
+      return undefined;
+    }
+
+    const today = getTodayLocalDateKey();
+    const todayLogs = (me.root.logs ?? []).filter(
+      (entry): entry is NonNullable<typeof entry> =>
+        Boolean(entry?.$isLoaded) && normalizeLocalDateKey(entry?.dateKey, entry?.createdAt) === today,
+    );
+
+    return {
+      dateKey: today,
+      goals: dailyGoalsFor(me.root),
+      totals: sumEntryNutrition(todayLogs),
+    };
+  };
+
+  const findLogEntry = (entryId: string) => {
+    if (!me.$isLoaded || !me.root.logs) {
+      return null;
+    }
+
+    const logs = me.root.logs;
+    const index = logs.findIndex((entry) => entry?.$isLoaded && entry.$jazz.id === entryId);
+    const entry = index === -1 ? null : logs[index];
+    return entry?.$isLoaded ? { logs, index, entry } : null;
+  };
+
+  const applyApprovedLogEdit = (suggestion: ResolvedLogEditSuggestion) => {
+    const found = findLogEntry(suggestion.entry.entryId);
+    if (!found) {
+      return;
+    }
+
+    const { entry } = found;
+    const { portion, meal, dateKey } = suggestion.changes;
+    if (portion !== undefined) {
+      const currentMultiplier = entryNutritionMultiplier(entry);
+      const servingAmount =
+        entry.servingSize && entry.servingAmount !== undefined && currentMultiplier > 0
+          ? sanitizeServingAmount((entry.servingAmount * portion) / currentMultiplier)
+          : undefined;
+
+      // Entries logged in a unit ("173 g") keep it and scale the amount instead.
+      if (entry.servingSize && servingAmount !== undefined) {
+        entry.$jazz.set("servingAmount", servingAmount);
+        entry.$jazz.set("portion", servingMultiplier(entry.servingSize, servingAmount));
+      } else {
+        entry.$jazz.delete("servingSize");
+        entry.$jazz.delete("servingAmount");
+        entry.$jazz.set("portion", portion);
+      }
+    }
+
+    if (meal) {
+      entry.$jazz.set("meal", normalizeMeal(meal) ?? "lunch");
+    }
+
+    if (dateKey) {
+      entry.$jazz.set("dateKey", dateKey);
+    }
+  };
+
+  const applyApprovedLogDeletion = (suggestion: ResolvedLogDeletionSuggestion) => {
+    const found = findLogEntry(suggestion.entry.entryId);
+    if (found) {
+      found.logs.$jazz.splice(found.index, 1);
+    }
+  };
+
+  const applyApprovedSuggestion = (suggestion: PendingApprovalSuggestion) => {
+    if (suggestion.kind === "edit") {
+      applyApprovedLogEdit(suggestion);
+    } else if (suggestion.kind === "delete") {
+      applyApprovedLogDeletion(suggestion);
+    } else {
+      appendApprovedFoodToLog(suggestion);
+    }
+  };
+
   const clearError = () => {
     setError(null);
     setErrorDetails(null);
@@ -372,22 +556,35 @@ export default function AILogScreen() {
     setErrorDetails(getErrorDetails(nextError));
   };
 
-  const ensureSessionId = async (currentUserId: string): Promise<string> => {
+  const getAuthHeaders = async (): Promise<Record<string, string>> => {
+    const token = await getToken();
+    if (!token) {
+      throw new UIError("Your session has expired. Sign in again and retry.");
+    }
+
+    return { Authorization: `Bearer ${token}` };
+  };
+
+  const ensureSessionId = async (): Promise<string> => {
     if (sessionIdRef.current) {
       return sessionIdRef.current;
     }
 
     const sessionUrl = `${BACKEND_BASE_URL}/ai/session`;
+    const authHeaders = await getAuthHeaders();
     let response: Response;
     try {
       response = await fetch(sessionUrl, {
         method: "POST",
         headers: {
+          ...authHeaders,
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          userId: currentUserId,
-          recentLogs: buildRecentLogHints(me.root.logs),
+          today: getTodayLocalDateKey(),
+          dailySummary: buildDailySummary(),
+          recentLogs: buildRecentLogHints(me.$isLoaded ? me.root.logs : undefined),
+          customFoods: buildCustomFoodHints(me.$isLoaded ? me.root.foods : undefined),
         }),
       });
     } catch (networkError) {
@@ -419,6 +616,7 @@ export default function AILogScreen() {
           method: "POST",
           url: sessionUrl,
           status: response.status,
+          requestId: response.headers.get("x-request-id"),
           payload,
         }),
       );
@@ -436,6 +634,7 @@ export default function AILogScreen() {
           method: "POST",
           url: sessionUrl,
           status: response.status,
+          requestId: response.headers.get("x-request-id"),
           payload,
         }),
       );
@@ -446,23 +645,26 @@ export default function AILogScreen() {
   };
 
   const requestTurn = async (
-    currentUserId: string,
     action: AgentAction,
     options?: {
-      audio?: AudioUpload;
+      audio?: FileUpload;
+      photo?: FileUpload;
+      onEvent?: (event: AgentStreamEvent) => void;
     },
     retry = true,
   ): Promise<{ status: ChatStatus; events: AgentEvent[]; resolvedUserMessage?: string }> => {
-    const sessionId = await ensureSessionId(currentUserId);
+    const sessionId = await ensureSessionId();
 
-    const usingAudio = Boolean(options?.audio && action.type === "user-message");
+    const usingUpload = Boolean((options?.audio || options?.photo) && action.type === "user-message");
+    // expo/fetch can read streamed responses but cannot upload React Native `{ uri }`
+    // files, so voice and photo turns go through the buffered endpoint.
+    const onEvent = usingUpload ? undefined : options?.onEvent;
     const userMessage = action.type === "user-message" ? action.message?.trim() : undefined;
 
-    const body = usingAudio
+    const body = usingUpload
       ? (() => {
           const formData = new FormData();
           formData.append("sessionId", sessionId);
-          formData.append("userId", currentUserId);
           formData.append("actionType", action.type);
           if (userMessage) {
             formData.append("message", userMessage);
@@ -477,26 +679,47 @@ export default function AILogScreen() {
             } as unknown as Blob);
           }
 
+          const photo = options?.photo;
+          if (photo) {
+            formData.append("photo", {
+              uri: photo.uri,
+              type: photo.mimeType,
+              name: photo.fileName,
+            } as unknown as Blob);
+          }
+
           return formData;
         })()
       : JSON.stringify({
           sessionId,
-          userId: currentUserId,
           action,
         });
 
-    const turnUrl = `${BACKEND_BASE_URL}/ai/turn`;
+    const turnUrl = `${BACKEND_BASE_URL}${onEvent ? "/ai/turn/stream" : "/ai/turn"}`;
+    const authHeaders = await getAuthHeaders();
     let response: Response;
     try {
-      response = await fetch(turnUrl, {
-        method: "POST",
-        headers: usingAudio
-          ? undefined
-          : {
-              "Content-Type": "application/json",
-            },
-        body,
-      });
+      response =
+        onEvent && typeof body === "string"
+          ? await streamingFetch(turnUrl, {
+              method: "POST",
+              headers: {
+                ...authHeaders,
+                Accept: "text/event-stream",
+                "Content-Type": "application/json",
+              },
+              body,
+            })
+          : await fetch(turnUrl, {
+              method: "POST",
+              headers: usingUpload
+                ? authHeaders
+                : {
+                    ...authHeaders,
+                    "Content-Type": "application/json",
+                  },
+              body,
+            });
     } catch (networkError) {
       throw new UIError(
         "Could not reach backend AI endpoint.",
@@ -508,6 +731,10 @@ export default function AILogScreen() {
       );
     }
 
+    if (onEvent && response.ok) {
+      return readTurnStream(response, turnUrl, onEvent);
+    }
+
     const payload = (await response.json().catch(() => null)) as
       | {
           status?: unknown;
@@ -521,7 +748,7 @@ export default function AILogScreen() {
     if (!response.ok) {
       if (response.status === 403 && retry) {
         sessionIdRef.current = null;
-        return requestTurn(currentUserId, action, options, false);
+        return requestTurn(action, options, false);
       }
 
       const backendMessage =
@@ -536,6 +763,7 @@ export default function AILogScreen() {
           method: "POST",
           url: turnUrl,
           status: response.status,
+          requestId: response.headers.get("x-request-id"),
           payload,
         }),
       );
@@ -556,6 +784,124 @@ export default function AILogScreen() {
     };
   };
 
+  const readTurnStream = async (
+    response: Response,
+    turnUrl: string,
+    onEvent: (event: AgentStreamEvent) => void,
+  ): Promise<{ status: ChatStatus; events: AgentEvent[]; resolvedUserMessage?: string }> => {
+    if (!response.body) {
+      throw new UIError(
+        "Backend did not stream the AI response.",
+        buildErrorDetails({
+          method: "POST",
+          url: turnUrl,
+          status: response.status,
+          requestId: response.headers.get("x-request-id"),
+        }),
+      );
+    }
+
+    for await (const data of readSseData(response.body)) {
+      let event: AiTurnStreamEvent;
+      try {
+        event = JSON.parse(data) as AiTurnStreamEvent;
+      } catch {
+        continue;
+      }
+
+      if (event.kind === "error") {
+        const backendMessage =
+          typeof event.message === "string"
+            ? event.message
+            : typeof event.error === "string"
+              ? event.error
+              : "AI request failed.";
+        throw new UIError(
+          backendMessage,
+          buildErrorDetails({
+            method: "POST",
+            url: turnUrl,
+            status: event.status,
+            requestId: response.headers.get("x-request-id"),
+            payload: event,
+          }),
+        );
+      }
+
+      if (event.kind === "done") {
+        return {
+          status: event.status,
+          events: [],
+          resolvedUserMessage: event.resolvedUserMessage,
+        };
+      }
+
+      onEvent(event);
+    }
+
+    throw new UIError(
+      "AI response ended unexpectedly.",
+      buildErrorDetails({
+        method: "POST",
+        url: turnUrl,
+        status: response.status,
+        requestId: response.headers.get("x-request-id"),
+      }),
+    );
+  };
+
+  const finishStreamingMessage = () => {
+    const streamingId = streamingMessageIdRef.current;
+    if (!streamingId) {
+      return;
+    }
+
+    streamingMessageIdRef.current = null;
+    setMessages((current) =>
+      current.filter(
+        (message) => message.id !== streamingId || (message.kind === "text" && message.text.trim()),
+      ),
+    );
+  };
+
+  const applyStreamEvent = (event: AgentStreamEvent) => {
+    if (event.kind === "assistant-delta") {
+      const streamingId = streamingMessageIdRef.current;
+      if (!streamingId) {
+        const id = createMessageId();
+        streamingMessageIdRef.current = id;
+        setMessages((current) => [...current, { id, kind: "text", role: "assistant", text: event.text }]);
+        return;
+      }
+
+      setMessages((current) =>
+        current.map((message) =>
+          message.id === streamingId && message.kind === "text"
+            ? { ...message, text: message.text + event.text }
+            : message,
+        ),
+      );
+      return;
+    }
+
+    if (event.kind === "assistant" && streamingMessageIdRef.current) {
+      // The final event carries the full text; it replaces whatever the deltas built.
+      const streamingId = streamingMessageIdRef.current;
+      streamingMessageIdRef.current = null;
+      setMessages((current) =>
+        current.map((message) =>
+          message.id === streamingId && message.kind === "text" ? { ...message, text: event.text } : message,
+        ),
+      );
+      return;
+    }
+
+    if (event.kind === "assistant" || event.kind === "search" || event.kind === "approval") {
+      finishStreamingMessage();
+      applyAgentEvents([event]);
+    }
+  };
+
   const applyAgentEvents = (events: AgentEvent[]) => {
     if (events.length === 0) {
       return;
@@ -613,18 +959,19 @@ export default function AILogScreen() {
   const runAssistantAction = async (
     action: AgentAction,
     options?: {
-      audio?: AudioUpload;
+      audio?: FileUpload;
+      photo?: FileUpload;
       appendResolvedUserMessage?: boolean;
     },
-  ) => {
+  ): Promise<boolean> => {
     if (loopRunningRef.current) {
-      return;
+      return false;
     }
 
     if (!userId) {
       setError("Missing authenticated user id. Sign in again and retry.");
       setErrorDetails(null);
-      return;
+      return false;
     }
 
     loopRunningRef.current = true;
@@ -632,7 +979,7 @@ export default function AILogScreen() {
 
     try {
       setStatus("streaming");
-      const result = await requestTurn(userId, action, options);
+      const result = await requestTurn(action, { ...options, onEvent: applyStreamEvent });
       const resolvedUserMessage = result.resolvedUserMessage?.trim();
 
       if (options?.appendResolvedUserMessage && resolvedUserMessage) {
@@ -649,10 +996,13 @@ export default function AILogScreen() {
 
       applyAgentEvents(result.events);
       nextStatus = result.status;
+      return true;
     } catch (loopError) {
       showError(loopError);
       nextStatus = pendingApprovalsRef.current.size > 0 ? "awaiting-approval" : "ready";
+      return false;
     } finally {
+      finishStreamingMessage();
       loopRunningRef.current = false;
       setStatus(nextStatus);
     }
@@ -752,69 +1102,183 @@ export default function AILogScreen() {
     }
   };
 
-  const respondToApproval = async (toolCallId: string, suggestionId: string, approved: boolean) => {
-    if (status === "streaming") {
+  const sendMealPhoto = async (uri: string, format?: string) => {
+    if (!userId || status !== "ready" || loopRunningRef.current) {
       return;
     }
 
-    const pendingSuggestions = pendingApprovalsRef.current.get(toolCallId);
-    if (!pendingSuggestions) {
-      return;
-    }
+    clearError();
+    setMessages((current) => [...current, { id: createMessageId(), kind: "photo", uri }]);
 
-    const targetIndex = pendingSuggestions.findIndex(
-      (suggestion) => suggestion.suggestionId === suggestionId,
+    await runAssistantAction(
+      {
+        type: "user-message",
+      },
+      {
+        photo: {
+          uri,
+          ...inferPhotoMeta(uri, format),
+        },
+      },
     );
-    if (targetIndex === -1) {
-      return;
-    }
+  };
 
-    if (pendingSuggestions[targetIndex]?.output) {
+  const sendMealPhotoRef = useRef(sendMealPhoto);
+  sendMealPhotoRef.current = sendMealPhoto;
+
+  // The camera screen hands the captured photo back as a route param; send each one once.
+  useEffect(() => {
+    if (!photoUri || handledPhotoUriRef.current === photoUri) {
       return;
     }
 
-    if (approved) {
-      appendApprovedFoodToLog(pendingSuggestions[targetIndex]);
+    handledPhotoUriRef.current = photoUri;
+    void sendMealPhotoRef.current(photoUri, photoFormat);
+  }, [photoFormat, photoUri]);
+
+  /** Records one decision on its card, using the card's adjustments for approved foods. */
+  const decideSuggestion = (suggestion: PendingApprovalSuggestion, approved: boolean) => {
+    let target = suggestion;
+    let adjustments: LogEntryChanges | undefined;
+    if (approved && target.kind === "add") {
+      const adjusted = adjustFoodSuggestion(target, foodAdjustmentDrafts[target.suggestionId], getTodayLocalDateKey());
+      target = adjusted.suggestion;
+      adjustments = adjusted.adjustments;
     }
 
-    const itemOutput: ApprovalOutput = {
+    const output: ApprovalOutput = {
       approved,
       reason: approved ? undefined : "User rejected this suggestion.",
+      ...(adjustments ? { adjustments } : {}),
     };
 
-    const nextSuggestions = pendingSuggestions.map((suggestion, index) =>
-      index === targetIndex
-        ? {
-            ...suggestion,
-            output: itemOutput,
-          }
-        : suggestion,
-    );
+    return { suggestion: { ...target, output }, adjustments };
+  };
 
+  const showApprovalSuggestions = (toolCallId: string, suggestions: PendingApprovalSuggestion[]) => {
     setMessages((current) =>
       current.map((message) =>
         message.kind === "approval" && message.toolCallId === toolCallId
           ? {
               ...message,
-              suggestions: nextSuggestions,
+              suggestions,
             }
           : message,
       ),
     );
+  };
+
+  /**
+   * The backend only saves decisions with a finished turn, so the log changes wait for it;
+   * a failed turn puts the cards back so the user can decide again.
+   */
+  const submitDecisions = async (
+    action: AgentAction,
+    toolCallId: string,
+    pendingSuggestions: PendingApprovalSuggestion[],
+    nextSuggestions: PendingApprovalSuggestion[],
+  ) => {
+    showApprovalSuggestions(toolCallId, nextSuggestions);
+
+    clearError();
+    if (!(await runAssistantAction(action))) {
+      showApprovalSuggestions(toolCallId, pendingSuggestions);
+      return;
+    }
+
+    nextSuggestions.forEach((suggestion, index) => {
+      if (suggestion.output?.approved && !pendingSuggestions[index].output) {
+        applyApprovedSuggestion(suggestion);
+      }
+    });
 
     if (nextSuggestions.every((suggestion) => Boolean(suggestion.output))) {
       pendingApprovalsRef.current.delete(toolCallId);
     } else {
       pendingApprovalsRef.current.set(toolCallId, nextSuggestions);
     }
+  };
 
-    clearError();
-    await runAssistantAction({
-      type: "approval",
+  const respondToApproval = async (toolCallId: string, suggestionId: string, approved: boolean) => {
+    if (status === "streaming" || loopRunningRef.current) {
+      return;
+    }
+
+    const pendingSuggestions = pendingApprovalsRef.current.get(toolCallId);
+    if (!pendingSuggestions) {
+      return;
+    }
+
+    const targetIndex = pendingSuggestions.findIndex(
+      (suggestion) => suggestion.suggestionId === suggestionId,
+    );
+    if (targetIndex === -1) {
+      return;
+    }
+
+    if (pendingSuggestions[targetIndex].output) {
+      return;
+    }
+
+    const decided = decideSuggestion(pendingSuggestions[targetIndex], approved);
+    await submitDecisions(
+      {
+        type: "approval",
+        toolCallId,
+        suggestionId,
+        approved,
+        ...(decided.adjustments ? { adjustments: decided.adjustments } : {}),
+      },
       toolCallId,
-      suggestionId,
-      approved,
-    });
+      pendingSuggestions,
+      pendingSuggestions.map((suggestion, index) => (index === targetIndex ? decided.suggestion : suggestion)),
+    );
+  };
+
+  /** Decides every open suggestion of one request in a single `approval-batch` turn. */
+  const respondToAllApprovals = async (toolCallId: string, approved: boolean) => {
+    if (status === "streaming" || loopRunningRef.current) {
+      return;
+    }
+
+    const pendingSuggestions = pendingApprovalsRef.current.get(toolCallId);
+    if (!pendingSuggestions) {
+      return;
+    }
+
+    const nextSuggestions: PendingApprovalSuggestion[] = [];
+    const adjustedDecisions: BatchApprovalDecision[] = [];
+    for (const suggestion of pendingSuggestions) {
+      if (suggestion.output) {
+        nextSuggestions.push(suggestion);
+        continue;
+      }
+
+      const decided = decideSuggestion(suggestion, approved);
+      nextSuggestions.push(decided.suggestion);
+      if (decided.adjustments) {
+        adjustedDecisions.push({ suggestionId: suggestion.suggestionId, approved, adjustments: decided.adjustments });
+      }
+    }
+
+    await submitDecisions(
+      {
+        type: "approval-batch",
+        toolCallId,
+        approved,
+        ...(adjustedDecisions.length > 0 ? { decisions: adjustedDecisions } : {}),
+      },
+      toolCallId,
+      pendingSuggestions,
+      nextSuggestions,
+    );
+  };
+
+  const updateFoodAdjustmentDraft = (suggestionId: string, changes: LogEntryChanges) => {
+    setFoodAdjustmentDrafts((current) => ({
+      ...current,
+      [suggestionId]: { ...current[suggestionId], ...changes },
+    }));
   };
 
   if (!me.$isLoaded) {
@@ -827,6 +1291,113 @@ export default function AILogScreen() {
 
   const hasInputText = input.trim().length > 0;
   const canUseComposerActions = Boolean(userId) && status === "ready";
+  const todayDateKey = getTodayLocalDateKey();
+
+  const renderFoodSuggestion = (suggestion: ResolvedApprovalSuggestion) => {
+    // Decided cards already carry the adjusted values.
+    const food = suggestion.output
+      ? suggestion
+      : adjustFoodSuggestion(suggestion, foodAdjustmentDrafts[suggestion.suggestionId], todayDateKey).suggestion;
+    const dateKey = food.dateKey ?? todayDateKey;
+
+    return (
+      <>
+        <Text style={styles.toolText}>
+          {food.food.name}
+          {food.food.brand ? ` • ${food.food.brand}` : ""}
+        </Text>
+        {food.food.serving ? <Text style={styles.toolMeta}>{food.food.serving}</Text> : null}
+        <Text style={styles.toolMeta}>
+          {food.resultId} • {formatPortionLabel(food.portion)} to {mealLabelFor(food.meal)} •{" "}
+          {formatSuggestionDay(dateKey, todayDateKey)}
+        </Text>
+        <Text style={styles.toolMeta}>
+          {`${formatCalories((food.food.nutrition?.calories ?? 0) * food.portion)} kcal`}
+        </Text>
+        {suggestion.output ? null : (
+          <View style={styles.adjustmentControls}>
+            <View style={styles.adjustmentRow}>
+              {MEAL_TIMES.map((meal) => (
+                <Pressable
+                  key={meal.key}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: food.meal === meal.key }}
+                  disabled={isStreaming}
+                  onPress={() => {
+                    updateFoodAdjustmentDraft(suggestion.suggestionId, { meal: meal.key });
+                  }}
+                  style={[styles.adjustmentChip, food.meal === meal.key && styles.adjustmentChipSelected]}
+                >
+                  <Text
+                    style={[
+                      styles.adjustmentChipText,
+                      food.meal === meal.key && styles.adjustmentChipTextSelected,
+                    ]}
+                  >
+                    {meal.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <View style={styles.adjustmentRow}>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Decrease portion"
+                disabled={isStreaming || food.portion <= 0.25}
+                onPress={() => {
+                  updateFoodAdjustmentDraft(suggestion.suggestionId, {
+                    portion: sanitizePortion(food.portion - 0.25),
+                  });
+                }}
+                style={styles.adjustmentChip}
+              >
+                <Text style={styles.adjustmentChipText}>-1/4</Text>
+              </Pressable>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Increase portion"
+                disabled={isStreaming}
+                onPress={() => {
+                  updateFoodAdjustmentDraft(suggestion.suggestionId, {
+                    portion: sanitizePortion(food.portion + 0.25),
+                  });
+                }}
+                style={styles.adjustmentChip}
+              >
+                <Text style={styles.adjustmentChipText}>+1/4</Text>
+              </Pressable>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Previous day"
+                disabled={isStreaming}
+                onPress={() => {
+                  updateFoodAdjustmentDraft(suggestion.suggestionId, {
+                    dateKey: shiftLocalDateKey(dateKey, -1),
+                  });
+                }}
+                style={styles.adjustmentChip}
+              >
+                <Ionicons name="chevron-back" size={14} color={palette.tint} />
+              </Pressable>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Next day"
+                disabled={isStreaming || dateKey >= todayDateKey}
+                onPress={() => {
+                  updateFoodAdjustmentDraft(suggestion.suggestionId, {
+                    dateKey: shiftLocalDateKey(dateKey, 1),
+                  });
+                }}
+                style={styles.adjustmentChip}
+              >
+                <Ionicons name="chevron-forward" size={14} color={palette.tint} />
+              </Pressable>
+            </View>
+          </View>
+        )}
+      </>
+    );
+  };
 
   return (
     <View style={styles.screen}>
@@ -847,7 +1418,7 @@ export default function AILogScreen() {
       >
         <Text style={styles.largeTitle}>AI Log</Text>
         <Text style={styles.subtitle}>
-          Ask for foods, review suggestions, then approve each one to add to your log.
+          Ask for foods, snap your plate or request changes to your log, then approve each suggestion.
         </Text>
 
         {!userId ? (
@@ -905,6 +1476,19 @@ export default function AILogScreen() {
             );
           }
 
+          if (message.kind === "photo") {
+            return (
+              <View key={message.id} style={[styles.messageBubble, styles.userBubble, styles.photoBubble]}>
+                <Image
+                  accessibilityLabel="Meal photo"
+                  contentFit="cover"
+                  source={{ uri: message.uri }}
+                  style={styles.photo}
+                />
+              </View>
+            );
+          }
+
           if (message.kind === "search") {
             if (message.foods.length === 0) {
               return null;
@@ -918,6 +1502,7 @@ export default function AILogScreen() {
                     <Text key={food.resultId} style={styles.toolText}>
                       {food.resultId} • {food.name}
                       {food.brand ? ` • ${food.brand}` : ""}
+                      {food.source === "custom" ? " • My Foods" : ""}
                       {food.nutrition?.calories !== undefined
                         ? ` • ${formatCalories(food.nutrition.calories)} kcal`
                         : ""}
@@ -933,22 +1518,22 @@ export default function AILogScreen() {
               <View style={styles.toolCard}>
                 <Text style={styles.toolHeading}>Review suggestions</Text>
                 {message.suggestions.map((suggestion) => {
-                  const mealLabel = mealLabelFor(suggestion.meal);
-                  const calories = (suggestion.food.nutrition?.calories ?? 0) * suggestion.portion;
-
                   return (
                     <View key={suggestion.suggestionId} style={styles.suggestionCard}>
-                      <Text style={styles.toolText}>
-                        {suggestion.food.name}
-                        {suggestion.food.brand ? ` • ${suggestion.food.brand}` : ""}
-                      </Text>
-                      {suggestion.food.serving ? (
-                        <Text style={styles.toolMeta}>{suggestion.food.serving}</Text>
-                      ) : null}
-                      <Text style={styles.toolMeta}>
-                        {suggestion.resultId} • {formatPortionLabel(suggestion.portion)} to {mealLabel}
-                      </Text>
-                      <Text style={styles.toolMeta}>{`${formatCalories(calories)} kcal`}</Text>
+                      {suggestion.kind === "edit" || suggestion.kind === "delete" ? (
+                        <>
+                          <Text style={styles.toolText}>
+                            {suggestion.kind === "edit" ? "Edit" : "Remove"}: {suggestion.entry.foodName}
+                            {suggestion.entry.brand ? ` • ${suggestion.entry.brand}` : ""}
+                          </Text>
+                          <Text style={styles.toolMeta}>{describeLogEntry(suggestion.entry)}</Text>
+                          {suggestion.kind === "edit" ? (
+                            <Text style={styles.toolMeta}>{describeLogEntryChanges(suggestion)}</Text>
+                          ) : null}
+                        </>
+                      ) : (
+                        renderFoodSuggestion(suggestion)
+                      )}
                       <Text style={styles.toolReason}>{suggestion.reason}</Text>
 
                       {suggestion.output ? (
@@ -959,7 +1544,7 @@ export default function AILogScreen() {
                           ]}
                         >
                           {suggestion.output.approved
-                            ? "Approved and logged."
+                            ? approvedLabels[suggestion.kind]
                             : suggestion.output.reason ?? "Rejected. Ask for another option."}
                         </Text>
                       ) : (
@@ -989,6 +1574,30 @@ export default function AILogScreen() {
                     </View>
                   );
                 })}
+                {message.suggestions.filter((suggestion) => !suggestion.output).length > 1 ? (
+                  <View style={[styles.approvalRow, styles.batchApprovalRow]}>
+                    <Pressable
+                      accessibilityRole="button"
+                      disabled={isStreaming}
+                      onPress={() => {
+                        void respondToAllApprovals(message.toolCallId, true);
+                      }}
+                      style={[styles.approveButton, isStreaming && styles.buttonDisabled]}
+                    >
+                      <Text style={styles.approveButtonText}>Approve all</Text>
+                    </Pressable>
+                    <Pressable
+                      accessibilityRole="button"
+                      disabled={isStreaming}
+                      onPress={() => {
+                        void respondToAllApprovals(message.toolCallId, false);
+                      }}
+                      style={[styles.denyButton, isStreaming && styles.buttonDisabled]}
+                    >
+                      <Text style={styles.denyButtonText}>Reject all</Text>
+                    </Pressable>
+                  </View>
+                ) : null}
               </View>
             </View>
           );
@@ -1054,6 +1663,20 @@ export default function AILogScreen() {
               />
             </Pressable>
           ) : null}
+          {!hasInputText ? (
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="Log a meal from a photo"
+              disabled={!canUseComposerActions || isRecording}
+              onPress={() => {
+                clearError();
+                router.push("/capture-meal-photo");
+              }}
+              style={[styles.voiceButton, (!canUseComposerActions || isRecording) && styles.buttonDisabled]}
+            >
+              <Ionicons name="camera" size={18} color={palette.buttonText} />
+            </Pressable>
+          ) : null}
         </View>
       </View>
     </View>
@@ -1151,6 +1774,14 @@ const styles = StyleSheet.create({
   userMessageText: {
     color: palette.buttonText,
   },
+  photoBubble: {
+    padding: 4,
+  },
+  photo: {
+    width: 200,
+    height: 150,
+    borderRadius: 10,
+  },
   assistantMarkdown: {
     flex: 0,
     width: "100%",
@@ -1198,11 +1829,47 @@ const styles = StyleSheet.create({
     lineHeight: 18,
     color: palette.secondaryLabel,
   },
+  adjustmentControls: {
+    marginTop: 8,
+    gap: 6,
+  },
+  adjustmentRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  adjustmentChip: {
+    minHeight: 28,
+    minWidth: 36,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: palette.separator,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  adjustmentChipSelected: {
+    backgroundColor: palette.tint,
+    borderColor: palette.tint,
+  },
+  adjustmentChipText: {
+    fontSize: 12,
+    lineHeight: 16,
+    color: palette.tint,
+  },
+  adjustmentChipTextSelected: {
+    color: palette.buttonText,
+  },
   approvalRow: {
     marginTop: 10,
     flexDirection: "row",
     gap: 8,
   },
+  batchApprovalRow: {
+    paddingTop: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: palette.separator,
+  },
   approveButton: {
     flex: 1,
     minHeight: 40,
@@ -21,8 +21,9 @@ import {
   parseLocalDateKey,
   shiftLocalDateKey,
 } from "../../src/date";
+import { dailyGoalsFor, sumEntryNutrition } from "../../src/goals";
 import { MEAL_TIMES, type MealKey, normalizeMeal } from "../../src/meals";
-import { formatPortionLabel, sanitizePortion } from "../../src/portion";
+import { entryNutritionMultiplier, formatEntryAmount } from "../../src/serving";
 import { CaloricAccount } from "../../src/jazz/schema";
 
 const iosColor = (name: string, fallback: string) =>
@@ -40,11 +41,6 @@ const palette = {
   destructiveText: "#FFFFFF",
 };
 
-const DEFAULT_CALORIE_GOAL = 2500;
-const DEFAULT_PROTEIN_PCT = 30;
-const DEFAULT_CARBS_PCT = 50;
-const DEFAULT_FAT_PCT = 20;
-
 const HEADER_HEIGHT_ESTIMATE = 74;
 const ENTRY_HEIGHT_ESTIMATE = 54;
 const EMPTY_HEIGHT_ESTIMATE = 60;
@@ -266,13 +262,14 @@ export default function HomeScreen() {
       const meal = normalizeMeal(entry.meal);
       if (!meal) return;
 
-      const portion = sanitizePortion(entry.portion);
+      const multiplier = entryNutritionMultiplier(entry);
+      const serving = entry.servingSize ? undefined : entry.serving;
 
       grouped[meal].push({
         id: entry.$jazz.id,
         name: entry.foodName,
-        meta: [formatPortionLabel(portion), entry.brand, entry.serving].filter(Boolean).join(" • "),
-        calories: (entry.nutrition?.calories ?? 0) * portion,
+        meta: [formatEntryAmount(entry), entry.brand, serving].filter(Boolean).join(" • "),
+        calories: (entry.nutrition?.calories ?? 0) * multiplier,
       });
     });
 
@@ -414,33 +411,15 @@ export default function HomeScreen() {
 
   const rootLogs = me.root.logs;
 
-  const caloriesConsumed = logs.reduce(
-    (sum, entry) => sum + (entry.nutrition?.calories ?? 0) * sanitizePortion(entry.portion),
-    0,
-  );
-  const protein = logs.reduce(
-    (sum, entry) => sum + (entry.nutrition?.protein ?? 0) * sanitizePortion(entry.portion),
-    0,
-  );
-  const carbs = logs.reduce(
-    (sum, entry) => sum + (entry.nutrition?.carbs ?? 0) * sanitizePortion(entry.portion),
-    0,
-  );
-  const fat = logs.reduce(
-    (sum, entry) => sum + (entry.nutrition?.fat ?? 0) * sanitizePortion(entry.portion),
-    0,
-  );
-
-  const goal = me.root.calorieGoal || DEFAULT_CALORIE_GOAL;
-  const proteinPct = me.root.macroProteinPct ?? DEFAULT_PROTEIN_PCT;
-  const carbsPct = me.root.macroCarbsPct ?? DEFAULT_CARBS_PCT;
-  const fatPct = me.root.macroFatPct ?? DEFAULT_FAT_PCT;
+  const { calories: caloriesConsumed, protein, carbs, fat } = sumEntryNutrition(logs);
+  const {
+    calories: goal,
+    protein: proteinGoal,
+    carbs: carbsGoal,
+    fat: fatGoal,
+  } = dailyGoalsFor(me.root);
   const calorieProgress = clampPercent((caloriesConsumed / goal) * 100);
 
-  const proteinGoal = Math.round((goal * (proteinPct / 100)) / 4);
-  const carbsGoal = Math.round((goal * (carbsPct / 100)) / 4);
-  const fatGoal = Math.round((goal * (fatPct / 100)) / 9);
-
   const proteinProgress = clampPercent((protein / Math.max(proteinGoal, 1)) * 100);
   const carbsProgress = clampPercent((carbs / Math.max(carbsGoal, 1)) * 100);
   const fatProgress = clampPercent((fat / Math.max(fatGoal, 1)) * 100);
@@ -1,5 +1,7 @@
 import { useClerk, useUser } from "@clerk/clerk-expo";
+import Ionicons from "@expo/vector-icons/Ionicons";
 import { GlassView, isGlassEffectAPIAvailable, isLiquidGlassAvailable } from "expo-glass-effect";
+import { useRouter } from "expo-router";
 import { useEffect, useRef, useState } from "react";
 import { useAccount } from "jazz-tools/expo";
 import {
@@ -113,6 +115,7 @@ function FormRow({
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
+  const router = useRouter();
   const clerk = useClerk();
   const { user } = useUser();
   const me = useAccount(CaloricAccount, { resolve: { profile: true, root: true } });
@@ -366,6 +369,19 @@ export default function SettingsScreen() {
         </View>
         {signOutError ? <Text style={styles.sectionErrorText}>{signOutError}</Text> : null}
 
+        <Text style={styles.sectionTitle}>Library</Text>
+        <View style={styles.card}>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Open my foods"
+            onPress={() => router.push("/my-foods")}
+            style={styles.formRow}
+          >
+            <Text style={styles.formRowLabel}>My Foods</Text>
+            <Ionicons color={palette.tertiaryLabel} name="chevron-forward" size={18} />
+          </Pressable>
+        </View>
+
         <Text style={styles.sectionTitle}>Goals</Text>
         <View style={styles.card}>
           <FormRow
@@ -49,6 +49,16 @@ function AppNavigator() {
           presentation: "pageSheet",
         }}
       />
+      <Stack.Screen
+        name="my-foods"
+        options={{
+          presentation: "pageSheet",
+        }}
+      />
+      <Stack.Screen name="food-editor" options={{ presentation: "modal" }} />
+      <Stack.Screen name="recipe-editor" options={{ presentation: "modal" }} />
+      <Stack.Screen name="scan-barcode" options={{ presentation: "fullScreenModal" }} />
+      <Stack.Screen name="capture-meal-photo" options={{ presentation: "fullScreenModal" }} />
     </Stack>
   );
 }
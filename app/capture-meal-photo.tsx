@@ -0,0 +1,218 @@
+import Ionicons from "@expo/vector-icons/Ionicons";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { useRouter } from "expo-router";
+import { useRef, useState } from "react";
+import { Platform, PlatformColor, Pressable, StyleSheet, Text, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+const iosColor = (name: string, fallback: string) =>
+  Platform.OS === "ios" ? PlatformColor(name) : fallback;
+
+const palette = {
+  background: iosColor("systemGroupedBackground", "#F3F4F6"),
+  label: iosColor("label", "#111827"),
+  secondaryLabel: iosColor("secondaryLabel", "#6B7280"),
+  tint: "#2563EB",
+  buttonText: "#FFFFFF",
+  overlay: "rgba(0,0,0,0.45)",
+  shutter: "#FFFFFF",
+};
+
+export default function CaptureMealPhotoScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [permission, requestPermission] = useCameraPermissions();
+  const cameraRef = useRef<CameraView | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+      return;
+    }
+
+    router.replace("/ai");
+  };
+
+  const capture = async () => {
+    if (isCapturing || !cameraRef.current) {
+      return;
+    }
+
+    setIsCapturing(true);
+    try {
+      // JPEG at half quality keeps uploads well under the backend's 8 MB photo limit.
+      const picture = await cameraRef.current.takePictureAsync({ quality: 0.5 });
+      if (!picture?.uri) {
+        setIsCapturing(false);
+        return;
+      }
+
+      router.dismissTo({
+        pathname: "/ai",
+        params: { photoUri: picture.uri, photoFormat: picture.format },
+      });
+    } catch {
+      setIsCapturing(false);
+    }
+  };
+
+  if (!permission) {
+    return <View style={styles.screen} />;
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={[styles.screen, styles.permissionContainer]}>
+        <Text style={styles.permissionTitle}>Camera access needed</Text>
+        <Text style={styles.permissionBody}>
+          Allow camera access to log a meal from a photo of your plate.
+        </Text>
+        <Pressable
+          accessibilityRole="button"
+          onPress={() => {
+            void requestPermission();
+          }}
+          style={styles.permissionButton}
+        >
+          <Text style={styles.permissionButtonText}>Allow Camera</Text>
+        </Pressable>
+        <Pressable accessibilityRole="button" onPress={close} style={styles.cancelButton}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.cameraScreen}>
+      <CameraView ref={cameraRef} style={StyleSheet.absoluteFillObject} facing="back" />
+      <View style={[styles.overlay, { paddingTop: insets.top + 12, paddingBottom: insets.bottom + 24 }]}>
+        <View style={styles.headerRow}>
+          <Text style={styles.overlayTitle}>Meal Photo</Text>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Close camera"
+            onPress={close}
+            style={styles.closeButton}
+          >
+            <Ionicons color={palette.buttonText} name="close" size={20} />
+          </Pressable>
+        </View>
+        <View style={styles.footer}>
+          <Text style={styles.overlayHint}>Fit the whole plate in the frame.</Text>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Take photo"
+            disabled={isCapturing}
+            onPress={() => {
+              void capture();
+            }}
+            style={[styles.shutterButton, isCapturing && styles.shutterButtonDisabled]}
+          />
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  cameraScreen: {
+    flex: 1,
+    backgroundColor: "#000000",
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  overlayTitle: {
+    fontSize: 20,
+    lineHeight: 26,
+    fontWeight: "700",
+    color: palette.buttonText,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.overlay,
+  },
+  footer: {
+    alignItems: "center",
+    gap: 16,
+  },
+  overlayHint: {
+    overflow: "hidden",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: palette.overlay,
+    fontSize: 15,
+    lineHeight: 20,
+    color: palette.buttonText,
+    textAlign: "center",
+  },
+  shutterButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    borderWidth: 4,
+    borderColor: palette.overlay,
+    backgroundColor: palette.shutter,
+  },
+  shutterButtonDisabled: {
+    opacity: 0.5,
+  },
+  permissionContainer: {
+    justifyContent: "center",
+    paddingHorizontal: 24,
+    gap: 10,
+  },
+  permissionTitle: {
+    fontSize: 24,
+    lineHeight: 30,
+    fontWeight: "700",
+    color: palette.label,
+  },
+  permissionBody: {
+    fontSize: 15,
+    lineHeight: 20,
+    color: palette.secondaryLabel,
+  },
+  permissionButton: {
+    marginTop: 8,
+    minHeight: 50,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.tint,
+  },
+  permissionButtonText: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.buttonText,
+  },
+  cancelButton: {
+    minHeight: 44,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  cancelButtonText: {
+    fontSize: 17,
+    lineHeight: 22,
+    color: palette.tint,
+  },
+});
@@ -1,16 +1,34 @@
 import Ionicons from "@expo/vector-icons/Ionicons";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useAccount } from "jazz-tools/expo";
-import { Platform, PlatformColor, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { useState } from "react";
+import {
+  Platform,
+  PlatformColor,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { CaloricAccount } from "../src/jazz/schema";
 import { mealLabelFor, normalizeMeal } from "../src/meals";
+import { PORTION_DELTAS, sanitizePortion } from "../src/portion";
 import {
-  PORTION_DELTAS,
-  formatPortionDecimal,
-  formatPortionLabel,
-  sanitizePortion,
-} from "../src/portion";
+  type ServingSize,
+  type ServingUnitOption,
+  buildServingUnitOptions,
+  convertToServingAmount,
+  entryNutritionMultiplier,
+  formatEntryAmount,
+  formatServingAmount,
+  parseServingText,
+  sanitizeServingAmount,
+  servingMultiplier,
+  servingSizeForOption,
+} from "../src/serving";
 
 const iosColor = (name: string, fallback: string) =>
   Platform.OS === "ios" ? PlatformColor(name) : fallback;
@@ -23,6 +41,7 @@ const palette = {
   tertiaryLabel: iosColor("tertiaryLabel", "#9CA3AF"),
   separator: iosColor("separator", "#E5E7EB"),
   tint: "#2563EB",
+  buttonText: "#FFFFFF",
   macroProtein: "#2563EB",
   macroCarbs: "#F59E0B",
   macroFat: "#14B8A6",
@@ -94,6 +113,7 @@ export default function EntryDetailsScreen() {
   const me = useAccount(CaloricAccount, {
     resolve: { root: { logs: { $each: { nutrition: true } } } },
   });
+  const [amountInput, setAmountInput] = useState<string | null>(null);
 
   if (!me.$isLoaded) {
     return (
@@ -129,10 +149,11 @@ export default function EntryDetailsScreen() {
   }
 
   const portion = sanitizePortion(entry.portion);
-  const calories = (entry.nutrition?.calories ?? 0) * portion;
-  const protein = (entry.nutrition?.protein ?? 0) * portion;
-  const carbs = (entry.nutrition?.carbs ?? 0) * portion;
-  const fat = (entry.nutrition?.fat ?? 0) * portion;
+  const multiplier = entryNutritionMultiplier(entry);
+  const calories = (entry.nutrition?.calories ?? 0) * multiplier;
+  const protein = (entry.nutrition?.protein ?? 0) * multiplier;
+  const carbs = (entry.nutrition?.carbs ?? 0) * multiplier;
+  const fat = (entry.nutrition?.fat ?? 0) * multiplier;
   const proteinCalories = protein * 4;
   const carbsCalories = carbs * 4;
   const fatCalories = fat * 9;
@@ -140,14 +161,53 @@ export default function EntryDetailsScreen() {
   const meal = normalizeMeal(entry.meal);
   const mealLabel = meal ? mealLabelFor(meal) : entry.meal;
   const meta = [mealLabel, entry.brand, entry.serving].filter(Boolean).join(" • ");
+  const fallbackServing = parseServingText(entry.serving);
+  const servingSizes: ServingSize[] = entry.servingSizes?.length
+    ? entry.servingSizes
+    : fallbackServing
+      ? [fallbackServing]
+      : [];
+  const unitOptions = buildServingUnitOptions(servingSizes);
+  const selectedUnit = entry.servingSize?.unit;
+  const amountValue =
+    amountInput ?? (entry.servingAmount !== undefined ? formatServingAmount(entry.servingAmount) : "");
 
   const handleAdjustPortion = (delta: number) => {
     const nextPortion = sanitizePortion(portion + delta);
-    if (nextPortion === portion) {
+    if (nextPortion === portion && !entry.servingSize) {
       return;
     }
 
+    entry.$jazz.delete("servingSize");
+    entry.$jazz.delete("servingAmount");
     entry.$jazz.set("portion", nextPortion);
+    setAmountInput(null);
+  };
+
+  const handleSelectUnit = (option: ServingUnitOption) => {
+    if (option.unit === selectedUnit) {
+      return;
+    }
+
+    const servingSize = servingSizeForOption(option);
+    const amount = convertToServingAmount(multiplier, option);
+
+    entry.$jazz.set("servingSize", servingSize);
+    entry.$jazz.set("servingAmount", amount);
+    entry.$jazz.set("portion", servingMultiplier(servingSize, amount));
+    setAmountInput(null);
+  };
+
+  const handleChangeAmount = (text: string) => {
+    setAmountInput(text);
+
+    const amount = sanitizeServingAmount(Number(text.replace(",", ".")));
+    if (!entry.servingSize || amount === undefined) {
+      return;
+    }
+
+    entry.$jazz.set("servingAmount", amount);
+    entry.$jazz.set("portion", servingMultiplier(entry.servingSize, amount));
   };
 
   return (
@@ -178,13 +238,15 @@ export default function EntryDetailsScreen() {
 
         <View style={styles.portionCard}>
           <Text style={styles.portionLabel}>Portion</Text>
-          <Text style={styles.portionValue}>{formatPortionLabel(portion)}</Text>
-          <Text style={styles.portionDecimal}>{`${formatPortionDecimal(portion)}x base serving`}</Text>
+          <Text style={styles.portionValue}>{formatEntryAmount(entry)}</Text>
+          <Text style={styles.portionDecimal}>
+            {`${Math.round(multiplier * 100) / 100}x base serving`}
+          </Text>
 
           <View style={styles.portionControlRow}>
             {PORTION_DELTAS.map((action) => {
               const nextPortion = sanitizePortion(portion + action.delta);
-              const disabled = nextPortion === portion;
+              const disabled = nextPortion === portion && !entry.servingSize;
 
               return (
                 <Pressable
@@ -206,6 +268,48 @@ export default function EntryDetailsScreen() {
           </View>
         </View>
 
+        {unitOptions.length > 0 ? (
+          <View style={styles.portionCard}>
+            <Text style={styles.portionLabel}>Amount</Text>
+            <View style={styles.portionControlRow}>
+              {unitOptions.map((option) => {
+                const selected = option.unit === selectedUnit;
+
+                return (
+                  <Pressable
+                    key={option.unit}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Measure in ${option.unit}`}
+                    accessibilityState={{ selected }}
+                    onPress={() => handleSelectUnit(option)}
+                    style={[styles.portionButton, selected && styles.unitButtonSelected]}
+                  >
+                    <Text style={[styles.portionButtonText, selected && styles.unitButtonTextSelected]}>
+                      {option.unit}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            {selectedUnit ? (
+              <View style={styles.amountRow}>
+                <TextInput
+                  value={amountValue}
+                  onChangeText={handleChangeAmount}
+                  onBlur={() => setAmountInput(null)}
+                  keyboardType="decimal-pad"
+                  inputMode="decimal"
+                  accessibilityLabel={`Amount in ${selectedUnit}`}
+                  style={styles.amountInput}
+                />
+                <Text style={styles.amountUnit}>{selectedUnit}</Text>
+              </View>
+            ) : (
+              <Text style={styles.portionDecimal}>Pick a unit to log an exact amount.</Text>
+            )}
+          </View>
+        ) : null}
+
         <View style={styles.nutritionCard}>
           <View style={styles.nutritionRow}>
             <Text style={styles.nutritionKey}>Calories</Text>
@@ -389,6 +493,36 @@ const styles = StyleSheet.create({
   portionButtonTextDisabled: {
     color: palette.secondaryLabel,
   },
+  unitButtonSelected: {
+    backgroundColor: palette.tint,
+    borderColor: palette.tint,
+  },
+  unitButtonTextSelected: {
+    color: palette.buttonText,
+  },
+  amountRow: {
+    marginTop: 10,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  amountInput: {
+    flex: 1,
+    minHeight: 40,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    backgroundColor: palette.background,
+    fontSize: 20,
+    lineHeight: 24,
+    fontWeight: "600",
+    color: palette.label,
+    fontVariant: ["tabular-nums"],
+  },
+  amountUnit: {
+    fontSize: 17,
+    lineHeight: 22,
+    color: palette.secondaryLabel,
+  },
   nutritionCard: {
     borderRadius: 14,
     backgroundColor: palette.card,
@@ -0,0 +1,491 @@
+import Ionicons from "@expo/vector-icons/Ionicons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useAccount } from "jazz-tools/expo";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Platform,
+  PlatformColor,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import {
+  NUTRITION_FIELDS,
+  type NutritionKey,
+  type NutritionValues,
+  formatNutritionInput,
+  parseNutritionInput,
+} from "../src/custom-foods";
+import { CaloricAccount } from "../src/jazz/schema";
+
+const iosColor = (name: string, fallback: string) =>
+  Platform.OS === "ios" ? PlatformColor(name) : fallback;
+
+const palette = {
+  background: iosColor("systemGroupedBackground", "#F3F4F6"),
+  card: iosColor("secondarySystemGroupedBackground", "#FFFFFF"),
+  label: iosColor("label", "#111827"),
+  secondaryLabel: iosColor("secondaryLabel", "#6B7280"),
+  separator: iosColor("separator", "#E5E7EB"),
+  tint: "#2563EB",
+  tintDisabled: "#D1D5DB",
+  buttonText: "#FFFFFF",
+  error: iosColor("systemRed", "#DC2626"),
+};
+
+type NutritionInputs = Record<NutritionKey, string>;
+
+const EMPTY_NUTRITION_INPUTS = NUTRITION_FIELDS.reduce((inputs, field) => {
+  inputs[field.key] = "";
+  return inputs;
+}, {} as NutritionInputs);
+
+function TextRow({
+  label,
+  value,
+  onChange,
+  placeholder,
+  isLast,
+}: {
+  label: string;
+  value: string;
+  onChange: (next: string) => void;
+  placeholder: string;
+  isLast?: boolean;
+}) {
+  return (
+    <View style={[styles.formRow, !isLast && styles.formRowDivider]}>
+      <Text style={styles.formRowLabel}>{label}</Text>
+      <TextInput
+        value={value}
+        onChangeText={onChange}
+        placeholder={placeholder}
+        placeholderTextColor={palette.secondaryLabel}
+        accessibilityLabel={label}
+        style={styles.textInput}
+      />
+    </View>
+  );
+}
+
+function NumberRow({
+  label,
+  suffix,
+  value,
+  onChange,
+  isLast,
+}: {
+  label: string;
+  suffix: string;
+  value: string;
+  onChange: (next: string) => void;
+  isLast: boolean;
+}) {
+  return (
+    <View style={[styles.formRow, !isLast && styles.formRowDivider]}>
+      <Text style={styles.formRowLabel}>{label}</Text>
+      <View style={styles.numberValueWrap}>
+        <TextInput
+          value={value}
+          onChangeText={onChange}
+          placeholder="0"
+          placeholderTextColor={palette.secondaryLabel}
+          keyboardType="decimal-pad"
+          inputMode="decimal"
+          maxLength={7}
+          accessibilityLabel={`${label} (${suffix})`}
+          style={styles.numberInput}
+        />
+        <Text style={styles.numberSuffix}>{suffix}</Text>
+      </View>
+    </View>
+  );
+}
+
+export default function FoodEditorScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ foodId?: string | string[] }>();
+  const me = useAccount(CaloricAccount, {
+    resolve: { root: { foods: { $each: { nutrition: true } } } },
+  });
+  const [name, setName] = useState("");
+  const [brand, setBrand] = useState("");
+  const [serving, setServing] = useState("");
+  const [nutritionInputs, setNutritionInputs] = useState<NutritionInputs>(EMPTY_NUTRITION_INPUTS);
+  const [hydratedFoodId, setHydratedFoodId] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const foodId = Array.isArray(params.foodId) ? params.foodId[0] : params.foodId;
+  const food =
+    foodId && me.$isLoaded && me.root.foods
+      ? me.root.foods.find((item) => item?.$isLoaded && item.$jazz.id === foodId) ?? null
+      : null;
+
+  useEffect(() => {
+    if (!food || hydratedFoodId === food.$jazz.id) {
+      return;
+    }
+
+    setName(food.name);
+    setBrand(food.brand ?? "");
+    setServing(food.serving ?? "");
+    setNutritionInputs(
+      NUTRITION_FIELDS.reduce(
+        (inputs, field) => {
+          inputs[field.key] = formatNutritionInput(food.nutrition?.[field.key]);
+          return inputs;
+        },
+        { ...EMPTY_NUTRITION_INPUTS },
+      ),
+    );
+    setHydratedFoodId(food.$jazz.id);
+  }, [food, hydratedFoodId]);
+
+  if (!me.$isLoaded) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading…</Text>
+      </View>
+    );
+  }
+
+  const isEditing = Boolean(foodId);
+  const trimmedName = name.trim();
+  const canSave = trimmedName.length > 0 && (!isEditing || Boolean(food));
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+      return;
+    }
+
+    router.replace("/my-foods");
+  };
+
+  const handleSave = () => {
+    if (!canSave) {
+      setSaveError("Name is required.");
+      return;
+    }
+
+    const nutrition = NUTRITION_FIELDS.reduce<NutritionValues>((values, field) => {
+      const value = parseNutritionInput(nutritionInputs[field.key]);
+      if (value !== undefined) {
+        values[field.key] = value;
+      }
+      return values;
+    }, {});
+    const trimmedBrand = brand.trim() || undefined;
+    const trimmedServing = serving.trim() || undefined;
+
+    if (food) {
+      food.$jazz.set("name", trimmedName);
+      food.$jazz.set("brand", trimmedBrand);
+      food.$jazz.set("serving", trimmedServing);
+      food.$jazz.set("nutrition", nutrition);
+      close();
+      return;
+    }
+
+    if (!me.root.foods) {
+      me.root.$jazz.set("foods", []);
+    }
+
+    me.root.foods?.$jazz.push({
+      name: trimmedName,
+      brand: trimmedBrand,
+      serving: trimmedServing,
+      nutrition,
+    });
+    close();
+  };
+
+  const handleDelete = () => {
+    if (!food || !me.root.foods) {
+      return;
+    }
+
+    Alert.alert("Delete food?", `"${food.name}" will be removed from My Foods.`, [
+      {
+        text: "Cancel",
+        style: "cancel",
+      },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          me.root.foods?.$jazz.remove((item) => item?.$isLoaded === true && item.$jazz.id === food.$jazz.id);
+          close();
+        },
+      },
+    ]);
+  };
+
+  if (isEditing && !food) {
+    return (
+      <View style={styles.screen}>
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorTitle}>Food not found</Text>
+          <Text style={styles.errorBody}>This food was removed or is unavailable.</Text>
+          <Pressable accessibilityRole="button" onPress={close} style={styles.saveButton}>
+            <Text style={styles.saveButtonText}>Done</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.screen}>
+      <ScrollView
+        keyboardShouldPersistTaps="handled"
+        contentInsetAdjustmentBehavior="automatic"
+        contentContainerStyle={[
+          styles.contentContainer,
+          {
+            paddingTop: 16,
+            paddingBottom: insets.bottom + 24,
+          },
+        ]}
+      >
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>{isEditing ? "Edit Food" : "New Food"}</Text>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Close editor"
+            onPress={close}
+            style={styles.closeButton}
+          >
+            <Ionicons color={palette.secondaryLabel} name="close" size={20} />
+          </Pressable>
+        </View>
+
+        <Text style={styles.sectionTitle}>Details</Text>
+        <View style={styles.card}>
+          <TextRow
+            label="Name"
+            value={name}
+            onChange={(next) => {
+              setName(next);
+              setSaveError(null);
+            }}
+            placeholder="Overnight oats"
+          />
+          <TextRow label="Brand" value={brand} onChange={setBrand} placeholder="Homemade" />
+          <TextRow
+            label="Serving"
+            value={serving}
+            onChange={setServing}
+            placeholder="1 bowl (250g)"
+            isLast
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Nutrition per serving</Text>
+        <View style={styles.card}>
+          {NUTRITION_FIELDS.map((field, index) => (
+            <NumberRow
+              key={field.key}
+              label={field.label}
+              suffix={field.suffix}
+              value={nutritionInputs[field.key]}
+              onChange={(next) =>
+                setNutritionInputs((current) => ({
+                  ...current,
+                  [field.key]: next,
+                }))
+              }
+              isLast={index === NUTRITION_FIELDS.length - 1}
+            />
+          ))}
+        </View>
+
+        {saveError ? <Text style={styles.errorText}>{saveError}</Text> : null}
+
+        <Pressable
+          accessibilityRole="button"
+          disabled={!canSave}
+          onPress={handleSave}
+          style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+        >
+          <Text style={styles.saveButtonText}>{isEditing ? "Save Changes" : "Add to My Foods"}</Text>
+        </Pressable>
+
+        {food ? (
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel={`Delete ${food.name}`}
+            onPress={handleDelete}
+            style={styles.deleteButton}
+          >
+            <Text style={styles.deleteButtonText}>Delete Food</Text>
+          </Pressable>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.background,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: palette.secondaryLabel,
+  },
+  contentContainer: {
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    lineHeight: 34,
+    fontWeight: "700",
+    color: palette.label,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.card,
+  },
+  sectionTitle: {
+    marginTop: 8,
+    paddingHorizontal: 4,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: "600",
+    color: palette.secondaryLabel,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  card: {
+    backgroundColor: palette.card,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+  },
+  formRow: {
+    minHeight: 48,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10,
+  },
+  formRowDivider: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: palette.separator,
+  },
+  formRowLabel: {
+    fontSize: 17,
+    lineHeight: 22,
+    color: palette.label,
+  },
+  textInput: {
+    flex: 1,
+    textAlign: "right",
+    fontSize: 17,
+    lineHeight: 22,
+    color: palette.label,
+    paddingVertical: 10,
+  },
+  numberValueWrap: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+    minWidth: 110,
+  },
+  numberInput: {
+    minWidth: 60,
+    textAlign: "right",
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.tint,
+    fontVariant: ["tabular-nums"],
+    paddingVertical: 10,
+  },
+  numberSuffix: {
+    marginLeft: 4,
+    minWidth: 32,
+    fontSize: 15,
+    lineHeight: 20,
+    color: palette.secondaryLabel,
+  },
+  errorText: {
+    paddingHorizontal: 4,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: "600",
+    color: palette.error,
+  },
+  saveButton: {
+    marginTop: 4,
+    minHeight: 50,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.tint,
+  },
+  saveButtonDisabled: {
+    backgroundColor: palette.tintDisabled,
+  },
+  saveButtonText: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.buttonText,
+  },
+  deleteButton: {
+    minHeight: 50,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.card,
+  },
+  deleteButtonText: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.error,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  errorTitle: {
+    fontSize: 24,
+    lineHeight: 30,
+    fontWeight: "700",
+    color: palette.label,
+  },
+  errorBody: {
+    fontSize: 15,
+    lineHeight: 20,
+    color: palette.secondaryLabel,
+  },
+});
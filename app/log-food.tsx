@@ -1,6 +1,8 @@
+import { useAuth } from "@clerk/clerk-expo";
+import Ionicons from "@expo/vector-icons/Ionicons";
 import { GlassView, isGlassEffectAPIAvailable, isLiquidGlassAvailable } from "expo-glass-effect";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useAccount } from "jazz-tools/expo";
 import {
   Platform,
@@ -13,9 +15,32 @@ import {
   View,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import {
+  customFoodResultId,
+  isCustomFoodResultId,
+  matchesCustomFoodQuery,
+} from "../src/custom-foods";
 import { normalizeLocalDateKey } from "../src/date";
+import { type SearchFood, lookupBarcode, searchFoods } from "../src/food-search";
 import { mealLabelFor, normalizeMeal } from "../src/meals";
 import { CaloricAccount } from "../src/jazz/schema";
+import { PORTION_DELTAS, formatPortionLabel, sanitizePortion } from "../src/portion";
+import {
+  computeRecipeNutritionPerServing,
+  formatRecipeServing,
+  isRecipeResultId,
+  recipeResultId,
+} from "../src/recipes";
+import {
+  type ServingUnitOption,
+  buildServingUnitOptions,
+  convertToServingAmount,
+  formatServingAmount,
+  parseServingText,
+  sanitizeServingAmount,
+  servingMultiplier,
+  servingSizeForOption,
+} from "../src/serving";
 
 const iosColor = (name: string, fallback: string) =>
   Platform.OS === "ios" ? PlatformColor(name) : fallback;
@@ -35,227 +60,6 @@ const palette = {
 
 const SEARCH_DEBOUNCE_MS = 350;
 const SEARCH_MAX_ITEMS = 20;
-const BACKEND_BASE_URL =
-  (process.env.EXPO_PUBLIC_BACKEND_URL?.trim() ?? "").replace(/\/+$/, "") ||
-  "https://backend.caloric.mati.lol";
-
-type MfpNutritionalContents = {
-  energy?: {
-    value?: unknown;
-  };
-  protein?: unknown;
-  carbohydrates?: unknown;
-  fat?: unknown;
-  fiber?: unknown;
-  sugar?: unknown;
-  sodium?: unknown;
-  potassium?: unknown;
-};
-
-type MfpServingSize = {
-  value?: unknown;
-  unit?: unknown;
-};
-
-type MfpFood = {
-  id?: unknown;
-  version?: unknown;
-  description?: unknown;
-  brand_name?: unknown;
-  serving_sizes?: unknown;
-  nutritional_contents?: MfpNutritionalContents | null;
-};
-
-type SearchPayload = {
-  search?: {
-    data?: {
-      items?: { item?: MfpFood | null }[];
-    } | null;
-  } | null;
-  details?: {
-    foodId?: unknown;
-    version?: unknown;
-    status?: unknown;
-    data?: MfpFood | null;
-  }[] | null;
-  error?: unknown;
-  message?: unknown;
-};
-
-type SearchFood = {
-  id: string;
-  name: string;
-  brand?: string;
-  serving?: string;
-  nutrition?: {
-    calories?: number;
-    protein?: number;
-    carbs?: number;
-    fat?: number;
-    fiber?: number;
-    sugars?: number;
-    sodiumMg?: number;
-    potassiumMg?: number;
-  };
-};
-
-function asString(value: unknown): string | undefined {
-  if (typeof value === "string") {
-    const normalized = value.trim();
-    return normalized.length > 0 ? normalized : undefined;
-  }
-
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return String(value);
-  }
-
-  return undefined;
-}
-
-function asNumber(value: unknown): number | undefined {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-
-  if (typeof value === "string") {
-    const normalized = value.trim();
-    if (!normalized) {
-      return undefined;
-    }
-
-    const parsed = Number(normalized);
-    if (Number.isFinite(parsed)) {
-      return parsed;
-    }
-  }
-
-  return undefined;
-}
-
-function formatServing(servingSizes: unknown): string | undefined {
-  if (!Array.isArray(servingSizes)) {
-    return undefined;
-  }
-
-  for (const candidate of servingSizes) {
-    if (!candidate || typeof candidate !== "object") {
-      continue;
-    }
-
-    const serving = candidate as MfpServingSize;
-    const value = asNumber(serving.value);
-    const unit = asString(serving.unit);
-
-    if (value !== undefined && unit) {
-      return `${value} ${unit}`;
-    }
-
-    if (value !== undefined) {
-      return String(value);
-    }
-
-    if (unit) {
-      return unit;
-    }
-  }
-
-  return undefined;
-}
-
-function mapNutrition(contents: MfpNutritionalContents | null | undefined): SearchFood["nutrition"] {
-  if (!contents) {
-    return undefined;
-  }
-
-  const nutrition = {
-    calories: asNumber(contents.energy?.value),
-    protein: asNumber(contents.protein),
-    carbs: asNumber(contents.carbohydrates),
-    fat: asNumber(contents.fat),
-    fiber: asNumber(contents.fiber),
-    sugars: asNumber(contents.sugar),
-    sodiumMg: asNumber(contents.sodium),
-    potassiumMg: asNumber(contents.potassium),
-  };
-
-  if (Object.values(nutrition).every((value) => value === undefined)) {
-    return undefined;
-  }
-
-  return nutrition;
-}
-
-function mapSearchResults(payload: SearchPayload): SearchFood[] {
-  const detailById = new Map<string, MfpFood>();
-  const details = payload.details ?? [];
-
-  for (const detail of details) {
-    if (!detail || typeof detail !== "object") {
-      continue;
-    }
-
-    const status = asNumber(detail.status);
-    if (status !== 200 || !detail.data || typeof detail.data !== "object") {
-      continue;
-    }
-
-    const foodId = asString(detail.foodId);
-    const version = asString(detail.version);
-    if (!foodId || !version) {
-      continue;
-    }
-
-    detailById.set(`${foodId}:${version}`, detail.data);
-  }
-
-  const items = payload.search?.data?.items;
-  if (!Array.isArray(items)) {
-    return [];
-  }
-
-  const results: SearchFood[] = [];
-  const seen = new Set<string>();
-
-  for (const row of items) {
-    const item = row?.item;
-    if (!item || typeof item !== "object") {
-      continue;
-    }
-
-    const foodId = asString(item.id);
-    const version = asString(item.version);
-    if (!foodId || !version) {
-      continue;
-    }
-
-    const compositeId = `${foodId}:${version}`;
-    if (seen.has(compositeId)) {
-      continue;
-    }
-    seen.add(compositeId);
-
-    const detail = detailById.get(compositeId);
-    const source = detail ?? item;
-    const name = asString(source.description) ?? asString(item.description);
-    if (!name) {
-      continue;
-    }
-
-    const brand = asString(source.brand_name) ?? asString(item.brand_name);
-    const serving = formatServing(source.serving_sizes) ?? formatServing(item.serving_sizes);
-    const nutrition = mapNutrition(source.nutritional_contents ?? item.nutritional_contents);
-
-    results.push({
-      id: compositeId,
-      name,
-      brand,
-      serving,
-      nutrition,
-    });
-  }
-
-  return results;
-}
 
 function getErrorMessage(error: unknown): string {
   if (error instanceof Error && error.message.trim().length > 0) {
@@ -269,34 +73,8 @@ function getErrorMessage(error: unknown): string {
   return "Unable to search foods right now.";
 }
 
-async function searchFoods(query: string, signal: AbortSignal): Promise<SearchFood[]> {
-  const url = new URL("/search", `${BACKEND_BASE_URL}/`);
-  url.searchParams.set("query", query);
-  url.searchParams.set("maxItems", String(SEARCH_MAX_ITEMS));
-  url.searchParams.set("includeDetails", "true");
-
-  const response = await fetch(url.toString(), {
-    method: "GET",
-    signal,
-  });
-
-  let payload: SearchPayload | null = null;
-  try {
-    payload = (await response.json()) as SearchPayload;
-  } catch {
-    payload = null;
-  }
-
-  if (!response.ok) {
-    const apiMessage = payload ? asString(payload.message) : undefined;
-    throw new Error(apiMessage ?? `Search request failed with ${response.status}`);
-  }
-
-  if (payload?.error) {
-    throw new Error(asString(payload.message) ?? "Search request failed.");
-  }
-
-  return mapSearchResults(payload ?? {});
+function isLibraryResultId(id: string) {
+  return isCustomFoodResultId(id) || isRecipeResultId(id);
 }
 
 function FoodRow({
@@ -336,15 +114,34 @@ function FoodRow({
 export default function LogFoodScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const params = useLocalSearchParams<{ meal?: string | string[]; day?: string | string[] }>();
+  const { getToken } = useAuth();
+  const params = useLocalSearchParams<{
+    meal?: string | string[];
+    day?: string | string[];
+    barcode?: string | string[];
+  }>();
   const me = useAccount(CaloricAccount, {
-    resolve: { root: { logs: true } },
+    resolve: {
+      root: {
+        logs: true,
+        foods: { $each: { nutrition: true } },
+        recipes: { $each: { ingredients: { $each: { nutrition: true, food: { nutrition: true } } } } },
+      },
+    },
   });
   const [query, setQuery] = useState("");
   const [foods, setFoods] = useState<SearchFood[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
   const [selectedFoodId, setSelectedFoodId] = useState<string | null>(null);
+  const [portion, setPortion] = useState(1);
+  const [servingUnit, setServingUnit] = useState<string | null>(null);
+  const [amountInput, setAmountInput] = useState("");
+  const [scannedFood, setScannedFood] = useState<SearchFood | null>(null);
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
+  const [barcodeError, setBarcodeError] = useState<string | null>(null);
+  const scannedFoodIdRef = useRef<string | null>(null);
+  const barcode = Array.isArray(params.barcode) ? params.barcode[0] : params.barcode;
   const canUseGlass =
     Platform.OS === "ios" && isGlassEffectAPIAvailable() && isLiquidGlassAvailable();
 
@@ -357,7 +154,9 @@ export default function LogFoodScreen() {
 
     if (normalizedQuery.length < 2) {
       setFoods([]);
-      setSelectedFoodId(null);
+      setSelectedFoodId((current) =>
+        current && (isLibraryResultId(current) || current === scannedFoodIdRef.current) ? current : null,
+      );
       setSearchError(null);
       setIsSearching(false);
       return;
@@ -369,10 +168,19 @@ export default function LogFoodScreen() {
       setSearchError(null);
 
       try {
-        const nextFoods = await searchFoods(normalizedQuery, controller.signal);
+        const nextFoods = await searchFoods(normalizedQuery, {
+          token: await getToken(),
+          signal: controller.signal,
+          maxItems: SEARCH_MAX_ITEMS,
+        });
         setFoods(nextFoods);
         setSelectedFoodId((current) =>
-          current && nextFoods.some((food) => food.id === current) ? current : null,
+          current &&
+          (isLibraryResultId(current) ||
+            current === scannedFoodIdRef.current ||
+            nextFoods.some((food) => food.id === current))
+            ? current
+            : null,
         );
       } catch (error) {
         if (error instanceof Error && error.name === "AbortError") {
@@ -380,7 +188,11 @@ export default function LogFoodScreen() {
         }
 
         setFoods([]);
-        setSelectedFoodId(null);
+        setSelectedFoodId((current) =>
+          current && (isLibraryResultId(current) || current === scannedFoodIdRef.current)
+            ? current
+            : null,
+        );
         setSearchError(getErrorMessage(error));
       } finally {
         if (!controller.signal.aborted) {
@@ -393,7 +205,52 @@ export default function LogFoodScreen() {
       controller.abort();
       clearTimeout(timeout);
     };
-  }, [me.$isLoaded, query]);
+  }, [getToken, me.$isLoaded, query]);
+
+  useEffect(() => {
+    if (!barcode) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const runLookup = async () => {
+      setIsLookingUpBarcode(true);
+      setBarcodeError(null);
+
+      try {
+        const food = await lookupBarcode(barcode, { token: await getToken(), signal: controller.signal });
+        if (!food) {
+          setScannedFood(null);
+          setBarcodeError(`No food found for barcode ${barcode}.`);
+          return;
+        }
+
+        scannedFoodIdRef.current = food.id;
+        setScannedFood(food);
+        setSelectedFoodId(food.id);
+        setPortion(1);
+        setServingUnit(null);
+      } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") {
+          return;
+        }
+
+        setScannedFood(null);
+        setBarcodeError(getErrorMessage(error));
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLookingUpBarcode(false);
+        }
+      }
+    };
+
+    void runLookup();
+
+    return () => {
+      controller.abort();
+    };
+  }, [barcode, getToken]);
 
   if (!me.$isLoaded) {
     return (
@@ -407,12 +264,67 @@ export default function LogFoodScreen() {
   const selectedDay = Array.isArray(params.day) ? params.day[0] : params.day;
   const selectedDateKey = normalizeLocalDateKey(selectedDay, Date.now());
   const selectedMealLabel = mealLabelFor(selectedMeal);
-  const selectedFood = foods.find((food) => food.id === selectedFoodId) || null;
   const trimmedQuery = query.trim();
   const canShowResults = trimmedQuery.length >= 2;
+  const customFoods: SearchFood[] = (me.root.foods ?? [])
+    .filter(
+      (food): food is NonNullable<typeof food> & { $isLoaded: true } => Boolean(food?.$isLoaded),
+    )
+    .filter((food) => matchesCustomFoodQuery(food, trimmedQuery))
+    .map((food) => ({
+      id: customFoodResultId(food.$jazz.id),
+      name: food.name,
+      brand: food.brand,
+      serving: food.serving,
+      nutrition: food.nutrition
+        ? {
+            calories: food.nutrition.calories,
+            protein: food.nutrition.protein,
+            carbs: food.nutrition.carbs,
+            fat: food.nutrition.fat,
+            fiber: food.nutrition.fiber,
+            sugars: food.nutrition.sugars,
+            sodiumMg: food.nutrition.sodiumMg,
+            potassiumMg: food.nutrition.potassiumMg,
+          }
+        : undefined,
+    }));
+  const recipes: SearchFood[] = (me.root.recipes ?? [])
+    .filter(
+      (recipe): recipe is NonNullable<typeof recipe> & { $isLoaded: true } =>
+        Boolean(recipe?.$isLoaded),
+    )
+    .filter((recipe) => matchesCustomFoodQuery({ name: recipe.name }, trimmedQuery))
+    .map((recipe) => ({
+      id: recipeResultId(recipe.$jazz.id),
+      name: recipe.name,
+      brand: "Recipe",
+      serving: formatRecipeServing(recipe.servings),
+      nutrition: computeRecipeNutritionPerServing(recipe.ingredients, recipe.servings),
+    }));
+  const selectedFood =
+    (scannedFood?.id === selectedFoodId ? scannedFood : null) ||
+    recipes.find((food) => food.id === selectedFoodId) ||
+    customFoods.find((food) => food.id === selectedFoodId) ||
+    foods.find((food) => food.id === selectedFoodId) ||
+    null;
+  const fallbackServing = parseServingText(selectedFood?.serving);
+  const unitOptions = buildServingUnitOptions(
+    selectedFood?.servingSizes?.length
+      ? selectedFood.servingSizes
+      : fallbackServing
+        ? [fallbackServing]
+        : [],
+  );
+  const selectedUnit = unitOptions.find((option) => option.unit === servingUnit) ?? null;
+  const servingSize = selectedUnit ? servingSizeForOption(selectedUnit) : undefined;
+  const servingAmount = selectedUnit ? sanitizeServingAmount(Number(amountInput.replace(",", "."))) : undefined;
+  const hasServingAmount = servingSize !== undefined && servingAmount !== undefined;
+  const multiplier = hasServingAmount ? servingMultiplier(servingSize, servingAmount) : sanitizePortion(portion);
+  const canAddToLog = Boolean(selectedFood) && (!selectedUnit || hasServingAmount);
 
   const handleAddToLog = () => {
-    if (!selectedFood) return;
+    if (!selectedFood || !canAddToLog) return;
 
     if (!me.root.logs) {
       me.root.$jazz.set("logs", []);
@@ -425,7 +337,9 @@ export default function LogFoodScreen() {
       foodName: selectedFood.name,
       brand: selectedFood.brand,
       serving: selectedFood.serving,
-      portion: 1,
+      servingSizes: selectedFood.servingSizes,
+      ...(hasServingAmount ? { servingSize, servingAmount } : {}),
+      portion: multiplier,
       nutrition: selectedFood.nutrition
         ? {
             calories: selectedFood.nutrition.calories,
@@ -450,6 +364,40 @@ export default function LogFoodScreen() {
     router.replace("/");
   };
 
+  const openScanner = () => {
+    router.push({
+      pathname: "/scan-barcode",
+      params: {
+        meal: selectedMeal,
+        ...(selectedDay ? { day: selectedDay } : {}),
+      },
+    });
+  };
+
+  const handleSelectFood = (foodId: string) => {
+    if (foodId !== selectedFoodId) {
+      setPortion(1);
+      setServingUnit(null);
+    }
+
+    setSelectedFoodId(foodId);
+  };
+
+  // Portion steps switch back to base servings, like on the entry details screen.
+  const handleAdjustPortion = (delta: number) => {
+    setPortion(sanitizePortion(multiplier + delta));
+    setServingUnit(null);
+  };
+
+  const handleSelectUnit = (option: ServingUnitOption) => {
+    if (option.unit === servingUnit) {
+      return;
+    }
+
+    setAmountInput(formatServingAmount(convertToServingAmount(multiplier, option)));
+    setServingUnit(option.unit);
+  };
+
   return (
     <View style={styles.screen}>
       <ScrollView
@@ -467,20 +415,103 @@ export default function LogFoodScreen() {
           Search and pick one item to add to {selectedMealLabel.toLowerCase()}
         </Text>
 
-        <View style={styles.searchCard}>
+        <View style={[styles.searchCard, styles.searchRow]}>
           <TextInput
             value={query}
             onChangeText={setQuery}
             placeholder="Search foods (example: banana)"
             placeholderTextColor={palette.secondaryLabel}
-            style={styles.searchInput}
+            style={[styles.searchInput, styles.searchInputFlex]}
             autoCapitalize="none"
             autoCorrect={false}
             returnKeyType="search"
             clearButtonMode="while-editing"
           />
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Scan barcode"
+            onPress={openScanner}
+            style={styles.scanButton}
+          >
+            <Ionicons color={palette.tint} name="barcode-outline" size={22} />
+          </Pressable>
         </View>
 
+        {barcode && isLookingUpBarcode ? (
+          <Text style={styles.helperText}>{`Looking up barcode ${barcode}…`}</Text>
+        ) : null}
+        {barcodeError ? <Text style={styles.errorText}>{barcodeError}</Text> : null}
+        {scannedFood ? (
+          <>
+            <Text style={styles.sectionTitle}>Scanned</Text>
+            <View style={styles.card}>
+              <FoodRow
+                name={scannedFood.name}
+                meta={
+                  [scannedFood.brand, scannedFood.serving].filter(Boolean).join(" • ") ||
+                  "No serving details"
+                }
+                calories={scannedFood.nutrition?.calories ?? 0}
+                selected={selectedFoodId === scannedFood.id}
+                isLast
+                onPress={() => handleSelectFood(scannedFood.id)}
+              />
+            </View>
+          </>
+        ) : null}
+
+        {recipes.length > 0 ? (
+          <>
+            <Text style={styles.sectionTitle}>Recipes</Text>
+            <View style={styles.card}>
+              {recipes.map((recipe, index) => (
+                <FoodRow
+                  key={recipe.id}
+                  name={recipe.name}
+                  meta={recipe.serving ?? "Recipe"}
+                  calories={Math.round(recipe.nutrition?.calories ?? 0)}
+                  selected={selectedFoodId === recipe.id}
+                  isLast={index === recipes.length - 1}
+                  onPress={() => handleSelectFood(recipe.id)}
+                />
+              ))}
+            </View>
+          </>
+        ) : null}
+
+        <View style={styles.sectionHeaderRow}>
+          <Text style={styles.sectionTitle}>My Foods</Text>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Manage my foods"
+            onPress={() => router.push("/my-foods")}
+          >
+            <Text style={styles.sectionAction}>Manage</Text>
+          </Pressable>
+        </View>
+
+        {customFoods.length > 0 ? (
+          <View style={styles.card}>
+            {customFoods.map((food, index) => (
+              <FoodRow
+                key={food.id}
+                name={food.name}
+                meta={[food.brand, food.serving].filter(Boolean).join(" • ") || "No serving details"}
+                calories={food.nutrition?.calories ?? 0}
+                selected={selectedFoodId === food.id}
+                isLast={index === customFoods.length - 1}
+                onPress={() => handleSelectFood(food.id)}
+              />
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.helperText}>
+            {trimmedQuery ? "No custom foods match." : "Create foods you log often to find them here."}
+          </Text>
+        )}
+
+        <Text style={styles.sectionTitle}>MyFitnessPal</Text>
+
         {!canShowResults ? (
           <Text style={styles.helperText}>Enter at least 2 characters to search.</Text>
         ) : null}
@@ -507,7 +538,7 @@ export default function LogFoodScreen() {
                   calories={calories}
                   selected={selectedFoodId === food.id}
                   isLast={index === foods.length - 1}
-                  onPress={() => setSelectedFoodId(food.id)}
+                  onPress={() => handleSelectFood(food.id)}
                 />
               );
             })}
@@ -523,11 +554,72 @@ export default function LogFoodScreen() {
             style={StyleSheet.absoluteFillObject}
           />
         ) : null}
+        {selectedFood ? (
+          <View style={styles.portionRow}>
+            <Text style={styles.portionText}>
+              {selectedUnit
+                ? `${hasServingAmount ? formatServingAmount(servingAmount) : "–"} ${selectedUnit.unit}`
+                : formatPortionLabel(portion)}
+            </Text>
+            {PORTION_DELTAS.map((action) => {
+              const nextPortion = sanitizePortion(multiplier + action.delta);
+              const disabled = nextPortion === portion && !selectedUnit;
+
+              return (
+                <Pressable
+                  key={action.label}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Adjust portion ${action.label}`}
+                  disabled={disabled}
+                  onPress={() => handleAdjustPortion(action.delta)}
+                  style={[styles.portionButton, disabled && styles.portionButtonDisabled]}
+                >
+                  <Text style={styles.portionButtonText}>{action.label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        ) : null}
+        {selectedFood && unitOptions.length > 0 ? (
+          <View style={styles.portionRow}>
+            {unitOptions.map((option) => {
+              const selected = option.unit === selectedUnit?.unit;
+
+              return (
+                <Pressable
+                  key={option.unit}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Measure in ${option.unit}`}
+                  accessibilityState={{ selected }}
+                  onPress={() => handleSelectUnit(option)}
+                  style={[styles.portionButton, styles.unitButton, selected && styles.unitButtonSelected]}
+                >
+                  <Text
+                    numberOfLines={1}
+                    style={[styles.portionButtonText, selected && styles.unitButtonTextSelected]}
+                  >
+                    {option.unit}
+                  </Text>
+                </Pressable>
+              );
+            })}
+            {selectedUnit ? (
+              <TextInput
+                value={amountInput}
+                onChangeText={setAmountInput}
+                keyboardType="decimal-pad"
+                inputMode="decimal"
+                accessibilityLabel={`Amount in ${selectedUnit.unit}`}
+                style={styles.amountInput}
+              />
+            ) : null}
+          </View>
+        ) : null}
         <Pressable
           accessibilityRole="button"
-          disabled={!selectedFood}
+          disabled={!canAddToLog}
           onPress={handleAddToLog}
-          style={[styles.actionButton, !selectedFood && styles.actionButtonDisabled]}
+          style={[styles.actionButton, !canAddToLog && styles.actionButtonDisabled]}
         >
           <Text style={styles.actionButtonText}>Add to {selectedMealLabel}</Text>
         </Pressable>
@@ -579,6 +671,47 @@ const styles = StyleSheet.create({
     borderRadius: 14,
     padding: 12,
   },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  searchInputFlex: {
+    flex: 1,
+  },
+  scanButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.searchInputBackground,
+  },
+  sectionHeaderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  sectionTitle: {
+    marginTop: 16,
+    marginBottom: 6,
+    paddingHorizontal: 4,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: "600",
+    color: palette.secondaryLabel,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  sectionAction: {
+    marginTop: 16,
+    marginBottom: 6,
+    paddingHorizontal: 4,
+    fontSize: 15,
+    lineHeight: 18,
+    fontWeight: "600",
+    color: palette.tint,
+  },
   searchInput: {
     minHeight: 44,
     borderRadius: 10,
@@ -662,6 +795,64 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(255,255,255,0.35)",
     overflow: "hidden",
   },
+  portionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 10,
+  },
+  portionText: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 20,
+    fontWeight: "600",
+    color: palette.label,
+    fontVariant: ["tabular-nums"],
+  },
+  portionButton: {
+    minWidth: 44,
+    minHeight: 32,
+    borderRadius: 8,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.card,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: palette.separator,
+  },
+  portionButtonDisabled: {
+    opacity: 0.45,
+  },
+  portionButtonText: {
+    fontSize: 13,
+    lineHeight: 17,
+    fontWeight: "600",
+    color: palette.tint,
+    fontVariant: ["tabular-nums"],
+  },
+  unitButton: {
+    flexShrink: 1,
+    paddingHorizontal: 8,
+  },
+  unitButtonSelected: {
+    backgroundColor: palette.tint,
+    borderColor: palette.tint,
+  },
+  unitButtonTextSelected: {
+    color: palette.buttonText,
+  },
+  amountInput: {
+    flex: 1,
+    minWidth: 56,
+    minHeight: 32,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    backgroundColor: palette.card,
+    fontSize: 15,
+    lineHeight: 20,
+    fontWeight: "600",
+    color: palette.label,
+    fontVariant: ["tabular-nums"],
+  },
   actionButton: {
     borderRadius: 12,
     minHeight: 50,
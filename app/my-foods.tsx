@@ -0,0 +1,363 @@
+import Ionicons from "@expo/vector-icons/Ionicons";
+import { useRouter } from "expo-router";
+import { useAccount } from "jazz-tools/expo";
+import { useState } from "react";
+import {
+  Platform,
+  PlatformColor,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { matchesCustomFoodQuery } from "../src/custom-foods";
+import { CaloricAccount } from "../src/jazz/schema";
+import { computeRecipeNutritionPerServing, formatRecipeServing } from "../src/recipes";
+
+const iosColor = (name: string, fallback: string) =>
+  Platform.OS === "ios" ? PlatformColor(name) : fallback;
+
+const palette = {
+  background: iosColor("systemGroupedBackground", "#F3F4F6"),
+  card: iosColor("secondarySystemGroupedBackground", "#FFFFFF"),
+  label: iosColor("label", "#111827"),
+  secondaryLabel: iosColor("secondaryLabel", "#6B7280"),
+  separator: iosColor("separator", "#E5E7EB"),
+  tint: "#2563EB",
+  buttonText: "#FFFFFF",
+  searchInputBackground: iosColor("tertiarySystemGroupedBackground", "#F3F4F6"),
+};
+
+function formatCalories(value: number | undefined) {
+  if (value === undefined || !Number.isFinite(value)) {
+    return "0";
+  }
+
+  return Math.round(value).toLocaleString();
+}
+
+export default function MyFoodsScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const me = useAccount(CaloricAccount, {
+    resolve: {
+      root: {
+        foods: { $each: { nutrition: true } },
+        recipes: { $each: { ingredients: { $each: { nutrition: true, food: { nutrition: true } } } } },
+      },
+    },
+  });
+  const [query, setQuery] = useState("");
+
+  if (!me.$isLoaded) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading…</Text>
+      </View>
+    );
+  }
+
+  const allFoods = (me.root.foods ?? []).filter(
+    (food): food is NonNullable<typeof food> & { $isLoaded: true } => Boolean(food?.$isLoaded),
+  );
+  const foods = allFoods.filter((food) => matchesCustomFoodQuery(food, query));
+  const allRecipes = (me.root.recipes ?? []).filter(
+    (recipe): recipe is NonNullable<typeof recipe> & { $isLoaded: true } => Boolean(recipe?.$isLoaded),
+  );
+  const recipes = allRecipes.filter((recipe) => matchesCustomFoodQuery({ name: recipe.name }, query));
+  const hasLibraryItems = allFoods.length > 0 || allRecipes.length > 0;
+
+  const openEditor = (foodId?: string) => {
+    router.push({
+      pathname: "/food-editor",
+      params: foodId ? { foodId } : {},
+    });
+  };
+
+  const openRecipeEditor = (recipeId?: string) => {
+    router.push({
+      pathname: "/recipe-editor",
+      params: recipeId ? { recipeId } : {},
+    });
+  };
+
+  return (
+    <View style={styles.screen}>
+      <ScrollView
+        keyboardShouldPersistTaps="handled"
+        contentInsetAdjustmentBehavior="automatic"
+        contentContainerStyle={[
+          styles.contentContainer,
+          {
+            paddingTop: 16,
+            paddingBottom: insets.bottom + 24,
+          },
+        ]}
+      >
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>My Foods</Text>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Close my foods"
+            onPress={() => router.back()}
+            style={styles.closeButton}
+          >
+            <Ionicons color={palette.secondaryLabel} name="close" size={20} />
+          </Pressable>
+        </View>
+        <Text style={styles.subtitle}>
+          Foods you create here show up first when logging and in AI search. Recipes combine
+          several foods and log one serving at a time.
+        </Text>
+
+        <View style={styles.newButtonRow}>
+          <Pressable
+            accessibilityRole="button"
+            onPress={() => openEditor()}
+            style={styles.newButton}
+          >
+            <Ionicons color={palette.buttonText} name="add" size={20} />
+            <Text style={styles.newButtonText}>New Food</Text>
+          </Pressable>
+          <Pressable
+            accessibilityRole="button"
+            onPress={() => openRecipeEditor()}
+            style={styles.newButton}
+          >
+            <Ionicons color={palette.buttonText} name="restaurant-outline" size={18} />
+            <Text style={styles.newButtonText}>New Recipe</Text>
+          </Pressable>
+        </View>
+
+        {hasLibraryItems ? (
+          <View style={styles.searchCard}>
+            <TextInput
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Filter foods and recipes"
+              placeholderTextColor={palette.secondaryLabel}
+              style={styles.searchInput}
+              autoCapitalize="none"
+              autoCorrect={false}
+              clearButtonMode="while-editing"
+            />
+          </View>
+        ) : null}
+
+        {!hasLibraryItems ? (
+          <Text style={styles.helperText}>No custom foods or recipes yet.</Text>
+        ) : null}
+        {hasLibraryItems && foods.length === 0 && recipes.length === 0 ? (
+          <Text style={styles.helperText}>{`Nothing matches "${query.trim()}".`}</Text>
+        ) : null}
+
+        {recipes.length > 0 ? <Text style={styles.sectionTitle}>Recipes</Text> : null}
+        {recipes.length > 0 ? (
+          <View style={styles.card}>
+            {recipes.map((recipe, index) => {
+              const perServing = computeRecipeNutritionPerServing(recipe.ingredients, recipe.servings);
+              const meta = `${recipe.ingredients.length} ingredients • ${formatRecipeServing(recipe.servings)}`;
+
+              return (
+                <Pressable
+                  key={recipe.$jazz.id}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Edit ${recipe.name}`}
+                  onPress={() => openRecipeEditor(recipe.$jazz.id)}
+                  style={[styles.foodRow, index !== recipes.length - 1 && styles.foodRowDivider]}
+                >
+                  <View style={styles.foodMain}>
+                    <Text style={styles.foodName}>{recipe.name}</Text>
+                    <Text style={styles.foodMeta}>{meta}</Text>
+                  </View>
+                  <View style={styles.foodRight}>
+                    <Text style={styles.foodCalories}>{formatCalories(perServing?.calories)}</Text>
+                    <Text style={styles.foodUnit}>kcal</Text>
+                  </View>
+                  <Ionicons color={palette.secondaryLabel} name="chevron-forward" size={16} />
+                </Pressable>
+              );
+            })}
+          </View>
+        ) : null}
+
+        {foods.length > 0 && recipes.length > 0 ? <Text style={styles.sectionTitle}>Foods</Text> : null}
+        {foods.length > 0 ? (
+          <View style={styles.card}>
+            {foods.map((food, index) => {
+              const meta =
+                [food.brand, food.serving].filter(Boolean).join(" • ") || "No serving details";
+
+              return (
+                <Pressable
+                  key={food.$jazz.id}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Edit ${food.name}`}
+                  onPress={() => openEditor(food.$jazz.id)}
+                  style={[styles.foodRow, index !== foods.length - 1 && styles.foodRowDivider]}
+                >
+                  <View style={styles.foodMain}>
+                    <Text style={styles.foodName}>{food.name}</Text>
+                    <Text style={styles.foodMeta}>{meta}</Text>
+                  </View>
+                  <View style={styles.foodRight}>
+                    <Text style={styles.foodCalories}>{formatCalories(food.nutrition?.calories)}</Text>
+                    <Text style={styles.foodUnit}>kcal</Text>
+                  </View>
+                  <Ionicons color={palette.secondaryLabel} name="chevron-forward" size={16} />
+                </Pressable>
+              );
+            })}
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.background,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: palette.secondaryLabel,
+  },
+  contentContainer: {
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    lineHeight: 34,
+    fontWeight: "700",
+    color: palette.label,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.card,
+  },
+  subtitle: {
+    fontSize: 14,
+    lineHeight: 18,
+    color: palette.secondaryLabel,
+  },
+  newButtonRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  newButton: {
+    flex: 1,
+    minHeight: 46,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    backgroundColor: palette.tint,
+  },
+  newButtonText: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.buttonText,
+  },
+  searchCard: {
+    backgroundColor: palette.card,
+    borderRadius: 14,
+    padding: 12,
+  },
+  searchInput: {
+    minHeight: 40,
+    borderRadius: 10,
+    backgroundColor: palette.searchInputBackground,
+    color: palette.label,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    marginTop: 4,
+    paddingHorizontal: 4,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: "600",
+    color: palette.secondaryLabel,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  helperText: {
+    paddingHorizontal: 4,
+    fontSize: 14,
+    lineHeight: 18,
+    color: palette.secondaryLabel,
+  },
+  card: {
+    backgroundColor: palette.card,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+  },
+  foodRow: {
+    minHeight: 60,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+  },
+  foodRowDivider: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: palette.separator,
+  },
+  foodMain: {
+    flex: 1,
+  },
+  foodName: {
+    fontSize: 17,
+    lineHeight: 22,
+    color: palette.label,
+  },
+  foodMeta: {
+    marginTop: 2,
+    fontSize: 13,
+    lineHeight: 18,
+    color: palette.secondaryLabel,
+  },
+  foodRight: {
+    alignItems: "flex-end",
+    minWidth: 56,
+  },
+  foodCalories: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.label,
+    fontVariant: ["tabular-nums"],
+  },
+  foodUnit: {
+    fontSize: 11,
+    lineHeight: 14,
+    fontWeight: "500",
+    color: palette.secondaryLabel,
+  },
+});
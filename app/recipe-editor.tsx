@@ -0,0 +1,762 @@
+import { useAuth } from "@clerk/clerk-expo";
+import Ionicons from "@expo/vector-icons/Ionicons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useAccount } from "jazz-tools/expo";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Platform,
+  PlatformColor,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import {
+  type NutritionValues,
+  customFoodResultId,
+  matchesCustomFoodQuery,
+} from "../src/custom-foods";
+import { type SearchFood, searchFoods } from "../src/food-search";
+import { CaloricAccount } from "../src/jazz/schema";
+import { formatMixedQuarter, sanitizePortion } from "../src/portion";
+import {
+  computeRecipeNutritionPerServing,
+  formatRecipeServing,
+  resolveIngredientNutrition,
+  sanitizeRecipeServings,
+  snapshotNutrition,
+} from "../src/recipes";
+
+const iosColor = (name: string, fallback: string) =>
+  Platform.OS === "ios" ? PlatformColor(name) : fallback;
+
+const palette = {
+  background: iosColor("systemGroupedBackground", "#F3F4F6"),
+  card: iosColor("secondarySystemGroupedBackground", "#FFFFFF"),
+  label: iosColor("label", "#111827"),
+  secondaryLabel: iosColor("secondaryLabel", "#6B7280"),
+  separator: iosColor("separator", "#E5E7EB"),
+  tint: "#2563EB",
+  tintDisabled: "#D1D5DB",
+  buttonText: "#FFFFFF",
+  searchInputBackground: iosColor("tertiarySystemGroupedBackground", "#F3F4F6"),
+  error: iosColor("systemRed", "#DC2626"),
+};
+
+const SEARCH_DEBOUNCE_MS = 350;
+const SEARCH_MAX_ITEMS = 10;
+const QUANTITY_DELTAS = [
+  { label: "-1/4", delta: -0.25 },
+  { label: "+1/4", delta: 0.25 },
+] as const;
+
+type DraftIngredient = {
+  key: string;
+  foodId?: string;
+  sourceId?: string;
+  name: string;
+  brand?: string;
+  serving?: string;
+  quantity: number;
+  nutrition?: NutritionValues;
+};
+
+type IngredientCandidate = {
+  id: string;
+  foodId?: string;
+  name: string;
+  brand?: string;
+  serving?: string;
+  nutrition?: NutritionValues;
+};
+
+const createDraftKey = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+function formatCalories(value: number | undefined) {
+  if (value === undefined || !Number.isFinite(value)) {
+    return "0";
+  }
+
+  return Math.round(value).toLocaleString();
+}
+
+function formatGrams(value: number | undefined) {
+  const rounded = Math.round((value ?? 0) * 10) / 10;
+  return Number.isInteger(rounded) ? `${rounded.toFixed(0)}g` : `${rounded.toFixed(1)}g`;
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error && error.message.trim().length > 0) {
+    return error.message;
+  }
+
+  return "Unable to search foods right now.";
+}
+
+export default function RecipeEditorScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { getToken } = useAuth();
+  const params = useLocalSearchParams<{ recipeId?: string | string[] }>();
+  const me = useAccount(CaloricAccount, {
+    resolve: {
+      root: {
+        foods: { $each: { nutrition: true } },
+        recipes: { $each: { ingredients: { $each: { nutrition: true, food: { nutrition: true } } } } },
+      },
+    },
+  });
+  const [name, setName] = useState("");
+  const [servingsInput, setServingsInput] = useState("1");
+  const [ingredients, setIngredients] = useState<DraftIngredient[]>([]);
+  const [hydratedRecipeId, setHydratedRecipeId] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchFood[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const recipeId = Array.isArray(params.recipeId) ? params.recipeId[0] : params.recipeId;
+  const recipe =
+    recipeId && me.$isLoaded && me.root.recipes
+      ? me.root.recipes.find((item) => item?.$isLoaded && item.$jazz.id === recipeId) ?? null
+      : null;
+
+  useEffect(() => {
+    if (!recipe || hydratedRecipeId === recipe.$jazz.id) {
+      return;
+    }
+
+    setName(recipe.name);
+    setServingsInput(String(sanitizeRecipeServings(recipe.servings)));
+    setIngredients(
+      recipe.ingredients
+        .filter((item): item is NonNullable<typeof item> & { $isLoaded: true } =>
+          Boolean(item?.$isLoaded),
+        )
+        .map((item) => {
+          return {
+            key: createDraftKey(),
+            foodId: item.$jazz.refs.food?.id,
+            sourceId: item.sourceId,
+            name: item.name,
+            brand: item.brand,
+            serving: item.serving,
+            quantity: sanitizePortion(item.quantity),
+            nutrition: snapshotNutrition(resolveIngredientNutrition(item)),
+          };
+        }),
+    );
+    setHydratedRecipeId(recipe.$jazz.id);
+  }, [recipe, hydratedRecipeId]);
+
+  useEffect(() => {
+    const normalizedQuery = query.trim();
+
+    if (normalizedQuery.length < 2) {
+      setSearchResults([]);
+      setSearchError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      setSearchError(null);
+
+      try {
+        const nextResults = await searchFoods(normalizedQuery, {
+          token: await getToken(),
+          signal: controller.signal,
+          maxItems: SEARCH_MAX_ITEMS,
+        });
+        setSearchResults(nextResults);
+      } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") {
+          return;
+        }
+
+        setSearchResults([]);
+        setSearchError(getErrorMessage(error));
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timeout);
+    };
+  }, [getToken, query]);
+
+  if (!me.$isLoaded) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading…</Text>
+      </View>
+    );
+  }
+
+  const customFoods = (me.root.foods ?? []).filter(
+    (food): food is NonNullable<typeof food> & { $isLoaded: true } => Boolean(food?.$isLoaded),
+  );
+  const trimmedQuery = query.trim();
+  const candidates: IngredientCandidate[] = trimmedQuery
+    ? [
+        ...customFoods
+          .filter((food) => matchesCustomFoodQuery(food, trimmedQuery))
+          .slice(0, 5)
+          .map((food) => ({
+            id: customFoodResultId(food.$jazz.id),
+            foodId: food.$jazz.id,
+            name: food.name,
+            brand: food.brand,
+            serving: food.serving,
+            nutrition: snapshotNutrition(food.nutrition),
+          })),
+        ...searchResults,
+      ]
+    : [];
+
+  const isEditing = Boolean(recipeId);
+  const servings = sanitizeRecipeServings(Number.parseInt(servingsInput, 10));
+  const perServing = computeRecipeNutritionPerServing(ingredients, servings);
+  const trimmedName = name.trim();
+  const canSave = trimmedName.length > 0 && ingredients.length > 0 && (!isEditing || Boolean(recipe));
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+      return;
+    }
+
+    router.replace("/my-foods");
+  };
+
+  const handleAddIngredient = (candidate: IngredientCandidate) => {
+    setIngredients((current) => [
+      ...current,
+      {
+        key: createDraftKey(),
+        foodId: candidate.foodId,
+        sourceId: candidate.foodId ? undefined : candidate.id,
+        name: candidate.name,
+        brand: candidate.brand,
+        serving: candidate.serving,
+        quantity: 1,
+        nutrition: candidate.nutrition,
+      },
+    ]);
+    setQuery("");
+  };
+
+  const handleAdjustQuantity = (key: string, delta: number) => {
+    setIngredients((current) =>
+      current.map((item) =>
+        item.key === key ? { ...item, quantity: sanitizePortion(item.quantity + delta) } : item,
+      ),
+    );
+  };
+
+  const handleRemoveIngredient = (key: string) => {
+    setIngredients((current) => current.filter((item) => item.key !== key));
+  };
+
+  const handleSave = () => {
+    if (!canSave) {
+      return;
+    }
+
+    const nextIngredients = ingredients.map((item) => ({
+      food: item.foodId ? customFoods.find((food) => food.$jazz.id === item.foodId) : undefined,
+      sourceId: item.sourceId,
+      name: item.name,
+      brand: item.brand,
+      serving: item.serving,
+      quantity: sanitizePortion(item.quantity),
+      nutrition: item.nutrition ? { ...item.nutrition } : undefined,
+    }));
+
+    if (recipe) {
+      recipe.$jazz.set("name", trimmedName);
+      recipe.$jazz.set("servings", servings);
+      recipe.$jazz.set("ingredients", nextIngredients);
+      close();
+      return;
+    }
+
+    if (!me.root.recipes) {
+      me.root.$jazz.set("recipes", []);
+    }
+
+    me.root.recipes?.$jazz.push({
+      name: trimmedName,
+      servings,
+      ingredients: nextIngredients,
+      createdAt: Date.now(),
+    });
+    close();
+  };
+
+  const handleDelete = () => {
+    if (!recipe || !me.root.recipes) {
+      return;
+    }
+
+    Alert.alert("Delete recipe?", `"${recipe.name}" will be removed from your recipes.`, [
+      {
+        text: "Cancel",
+        style: "cancel",
+      },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          me.root.recipes?.$jazz.remove(
+            (item) => item?.$isLoaded === true && item.$jazz.id === recipe.$jazz.id,
+          );
+          close();
+        },
+      },
+    ]);
+  };
+
+  if (isEditing && !recipe) {
+    return (
+      <View style={styles.screen}>
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorTitle}>Recipe not found</Text>
+          <Text style={styles.errorBody}>This recipe was removed or is unavailable.</Text>
+          <Pressable accessibilityRole="button" onPress={close} style={styles.saveButton}>
+            <Text style={styles.saveButtonText}>Done</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.screen}>
+      <ScrollView
+        keyboardShouldPersistTaps="handled"
+        contentInsetAdjustmentBehavior="automatic"
+        contentContainerStyle={[
+          styles.contentContainer,
+          {
+            paddingTop: 16,
+            paddingBottom: insets.bottom + 24,
+          },
+        ]}
+      >
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>{isEditing ? "Edit Recipe" : "New Recipe"}</Text>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Close editor"
+            onPress={close}
+            style={styles.closeButton}
+          >
+            <Ionicons color={palette.secondaryLabel} name="close" size={20} />
+          </Pressable>
+        </View>
+
+        <View style={styles.card}>
+          <View style={[styles.formRow, styles.formRowDivider]}>
+            <Text style={styles.formRowLabel}>Name</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Chicken chili"
+              placeholderTextColor={palette.secondaryLabel}
+              accessibilityLabel="Recipe name"
+              style={styles.textInput}
+            />
+          </View>
+          <View style={styles.formRow}>
+            <Text style={styles.formRowLabel}>Servings</Text>
+            <TextInput
+              value={servingsInput}
+              onChangeText={(next) => setServingsInput(next.replace(/[^0-9]/g, ""))}
+              keyboardType="number-pad"
+              inputMode="numeric"
+              maxLength={3}
+              accessibilityLabel="Servings this recipe makes"
+              style={styles.numberInput}
+            />
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Per serving</Text>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryValue}>{`${formatCalories(perServing?.calories)} kcal`}</Text>
+          <Text style={styles.summaryMeta}>
+            {`P ${formatGrams(perServing?.protein)} • C ${formatGrams(perServing?.carbs)} • F ${formatGrams(perServing?.fat)}`}
+          </Text>
+          <Text style={styles.summaryMeta}>{formatRecipeServing(servings)}</Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>Ingredients</Text>
+        {ingredients.length === 0 ? (
+          <Text style={styles.helperText}>Search below to add ingredients.</Text>
+        ) : (
+          <View style={styles.card}>
+            {ingredients.map((item, index) => {
+              const meta = [item.brand, item.serving].filter(Boolean).join(" • ");
+              const calories = (item.nutrition?.calories ?? 0) * item.quantity;
+
+              return (
+                <View
+                  key={item.key}
+                  style={[styles.ingredientRow, index !== ingredients.length - 1 && styles.formRowDivider]}
+                >
+                  <View style={styles.ingredientMain}>
+                    <Text style={styles.ingredientName}>{item.name}</Text>
+                    <Text style={styles.ingredientMeta}>
+                      {[`${formatMixedQuarter(item.quantity)}×`, meta, `${formatCalories(calories)} kcal`]
+                        .filter(Boolean)
+                        .join(" • ")}
+                    </Text>
+                  </View>
+                  {QUANTITY_DELTAS.map((action) => {
+                    const disabled = sanitizePortion(item.quantity + action.delta) === item.quantity;
+
+                    return (
+                      <Pressable
+                        key={action.label}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Adjust ${item.name} ${action.label}`}
+                        disabled={disabled}
+                        onPress={() => handleAdjustQuantity(item.key, action.delta)}
+                        style={[styles.quantityButton, disabled && styles.quantityButtonDisabled]}
+                      >
+                        <Text style={styles.quantityButtonText}>{action.label}</Text>
+                      </Pressable>
+                    );
+                  })}
+                  <Pressable
+                    accessibilityRole="button"
+                    accessibilityLabel={`Remove ${item.name}`}
+                    onPress={() => handleRemoveIngredient(item.key)}
+                    style={styles.removeButton}
+                  >
+                    <Ionicons color={palette.error} name="trash-outline" size={18} />
+                  </Pressable>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        <View style={styles.searchCard}>
+          <TextInput
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Add ingredient (example: rice)"
+            placeholderTextColor={palette.secondaryLabel}
+            style={styles.searchInput}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+            clearButtonMode="while-editing"
+          />
+        </View>
+        {trimmedQuery.length >= 2 && isSearching ? (
+          <Text style={styles.helperText}>Searching…</Text>
+        ) : null}
+        {searchError ? <Text style={styles.errorText}>{searchError}</Text> : null}
+
+        {candidates.length > 0 ? (
+          <View style={styles.card}>
+            {candidates.map((candidate, index) => (
+              <Pressable
+                key={candidate.id}
+                accessibilityRole="button"
+                accessibilityLabel={`Add ${candidate.name}`}
+                onPress={() => handleAddIngredient(candidate)}
+                style={[styles.ingredientRow, index !== candidates.length - 1 && styles.formRowDivider]}
+              >
+                <View style={styles.ingredientMain}>
+                  <Text style={styles.ingredientName}>{candidate.name}</Text>
+                  <Text style={styles.ingredientMeta}>
+                    {[candidate.foodId ? "My Foods" : candidate.brand, candidate.serving]
+                      .filter(Boolean)
+                      .join(" • ") || "No serving details"}
+                  </Text>
+                </View>
+                <Text style={styles.candidateCalories}>
+                  {`${formatCalories(candidate.nutrition?.calories)} kcal`}
+                </Text>
+                <Ionicons color={palette.tint} name="add-circle" size={22} />
+              </Pressable>
+            ))}
+          </View>
+        ) : null}
+
+        <Pressable
+          accessibilityRole="button"
+          disabled={!canSave}
+          onPress={handleSave}
+          style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+        >
+          <Text style={styles.saveButtonText}>{isEditing ? "Save Changes" : "Save Recipe"}</Text>
+        </Pressable>
+
+        {recipe ? (
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel={`Delete ${recipe.name}`}
+            onPress={handleDelete}
+            style={styles.deleteButton}
+          >
+            <Text style={styles.deleteButtonText}>Delete Recipe</Text>
+          </Pressable>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.background,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: palette.secondaryLabel,
+  },
+  contentContainer: {
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    lineHeight: 34,
+    fontWeight: "700",
+    color: palette.label,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.card,
+  },
+  sectionTitle: {
+    marginTop: 8,
+    paddingHorizontal: 4,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: "600",
+    color: palette.secondaryLabel,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  card: {
+    backgroundColor: palette.card,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+  },
+  formRow: {
+    minHeight: 48,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10,
+  },
+  formRowDivider: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: palette.separator,
+  },
+  formRowLabel: {
+    fontSize: 17,
+    lineHeight: 22,
+    color: palette.label,
+  },
+  textInput: {
+    flex: 1,
+    textAlign: "right",
+    fontSize: 17,
+    lineHeight: 22,
+    color: palette.label,
+    paddingVertical: 10,
+  },
+  numberInput: {
+    minWidth: 60,
+    textAlign: "right",
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.tint,
+    fontVariant: ["tabular-nums"],
+    paddingVertical: 10,
+  },
+  summaryCard: {
+    backgroundColor: palette.card,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 2,
+  },
+  summaryValue: {
+    fontSize: 24,
+    lineHeight: 30,
+    fontWeight: "700",
+    color: palette.label,
+    fontVariant: ["tabular-nums"],
+  },
+  summaryMeta: {
+    fontSize: 14,
+    lineHeight: 18,
+    color: palette.secondaryLabel,
+    fontVariant: ["tabular-nums"],
+  },
+  ingredientRow: {
+    minHeight: 56,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+  },
+  ingredientMain: {
+    flex: 1,
+  },
+  ingredientName: {
+    fontSize: 16,
+    lineHeight: 21,
+    color: palette.label,
+  },
+  ingredientMeta: {
+    marginTop: 2,
+    fontSize: 13,
+    lineHeight: 18,
+    color: palette.secondaryLabel,
+  },
+  quantityButton: {
+    minWidth: 44,
+    minHeight: 32,
+    borderRadius: 8,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.background,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: palette.separator,
+  },
+  quantityButtonDisabled: {
+    opacity: 0.45,
+  },
+  quantityButtonText: {
+    fontSize: 13,
+    lineHeight: 17,
+    fontWeight: "600",
+    color: palette.tint,
+    fontVariant: ["tabular-nums"],
+  },
+  removeButton: {
+    width: 32,
+    height: 32,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  candidateCalories: {
+    fontSize: 14,
+    lineHeight: 18,
+    fontWeight: "600",
+    color: palette.label,
+    fontVariant: ["tabular-nums"],
+  },
+  searchCard: {
+    backgroundColor: palette.card,
+    borderRadius: 14,
+    padding: 12,
+  },
+  searchInput: {
+    minHeight: 40,
+    borderRadius: 10,
+    backgroundColor: palette.searchInputBackground,
+    color: palette.label,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    lineHeight: 20,
+  },
+  helperText: {
+    paddingHorizontal: 4,
+    fontSize: 14,
+    lineHeight: 18,
+    color: palette.secondaryLabel,
+  },
+  errorText: {
+    paddingHorizontal: 4,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: "600",
+    color: palette.error,
+  },
+  saveButton: {
+    marginTop: 4,
+    minHeight: 50,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.tint,
+  },
+  saveButtonDisabled: {
+    backgroundColor: palette.tintDisabled,
+  },
+  saveButtonText: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.buttonText,
+  },
+  deleteButton: {
+    minHeight: 50,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.card,
+  },
+  deleteButtonText: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.error,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  errorTitle: {
+    fontSize: 24,
+    lineHeight: 30,
+    fontWeight: "700",
+    color: palette.label,
+  },
+  errorBody: {
+    fontSize: 15,
+    lineHeight: 20,
+    color: palette.secondaryLabel,
+  },
+});
@@ -0,0 +1,210 @@
+import Ionicons from "@expo/vector-icons/Ionicons";
+import { type BarcodeScanningResult, CameraView, useCameraPermissions } from "expo-camera";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useRef } from "react";
+import { Platform, PlatformColor, Pressable, StyleSheet, Text, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+const iosColor = (name: string, fallback: string) =>
+  Platform.OS === "ios" ? PlatformColor(name) : fallback;
+
+const palette = {
+  background: iosColor("systemGroupedBackground", "#F3F4F6"),
+  label: iosColor("label", "#111827"),
+  secondaryLabel: iosColor("secondaryLabel", "#6B7280"),
+  tint: "#2563EB",
+  buttonText: "#FFFFFF",
+  overlay: "rgba(0,0,0,0.45)",
+  frame: "#FFFFFF",
+};
+
+const BARCODE_TYPES = ["ean13", "ean8", "upc_a", "upc_e"] as const;
+
+function firstParam(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export default function ScanBarcodeScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ meal?: string | string[]; day?: string | string[] }>();
+  const [permission, requestPermission] = useCameraPermissions();
+  const hasScannedRef = useRef(false);
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+      return;
+    }
+
+    router.replace("/log-food");
+  };
+
+  const handleBarcodeScanned = (result: BarcodeScanningResult) => {
+    const barcode = result.data.replace(/\D/g, "");
+    if (hasScannedRef.current || barcode.length < 8) {
+      return;
+    }
+
+    hasScannedRef.current = true;
+    const meal = firstParam(params.meal);
+    const day = firstParam(params.day);
+
+    router.dismissTo({
+      pathname: "/log-food",
+      params: {
+        barcode,
+        ...(meal ? { meal } : {}),
+        ...(day ? { day } : {}),
+      },
+    });
+  };
+
+  if (!permission) {
+    return <View style={styles.screen} />;
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={[styles.screen, styles.permissionContainer]}>
+        <Text style={styles.permissionTitle}>Camera access needed</Text>
+        <Text style={styles.permissionBody}>
+          Allow camera access to scan barcodes on packaged food.
+        </Text>
+        <Pressable
+          accessibilityRole="button"
+          onPress={() => {
+            void requestPermission();
+          }}
+          style={styles.permissionButton}
+        >
+          <Text style={styles.permissionButtonText}>Allow Camera</Text>
+        </Pressable>
+        <Pressable accessibilityRole="button" onPress={close} style={styles.cancelButton}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.cameraScreen}>
+      <CameraView
+        style={StyleSheet.absoluteFillObject}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: [...BARCODE_TYPES] }}
+        onBarcodeScanned={handleBarcodeScanned}
+      />
+      <View style={[styles.overlay, { paddingTop: insets.top + 12, paddingBottom: insets.bottom + 24 }]}>
+        <View style={styles.headerRow}>
+          <Text style={styles.overlayTitle}>Scan Barcode</Text>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Close scanner"
+            onPress={close}
+            style={styles.closeButton}
+          >
+            <Ionicons color={palette.buttonText} name="close" size={20} />
+          </Pressable>
+        </View>
+        <View style={styles.frame} />
+        <Text style={styles.overlayHint}>Point the camera at the barcode on the package.</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  cameraScreen: {
+    flex: 1,
+    backgroundColor: "#000000",
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  overlayTitle: {
+    fontSize: 20,
+    lineHeight: 26,
+    fontWeight: "700",
+    color: palette.buttonText,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.overlay,
+  },
+  frame: {
+    alignSelf: "center",
+    width: "85%",
+    aspectRatio: 1.8,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: palette.frame,
+  },
+  overlayHint: {
+    alignSelf: "center",
+    overflow: "hidden",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: palette.overlay,
+    fontSize: 15,
+    lineHeight: 20,
+    color: palette.buttonText,
+    textAlign: "center",
+  },
+  permissionContainer: {
+    justifyContent: "center",
+    paddingHorizontal: 24,
+    gap: 10,
+  },
+  permissionTitle: {
+    fontSize: 24,
+    lineHeight: 30,
+    fontWeight: "700",
+    color: palette.label,
+  },
+  permissionBody: {
+    fontSize: 15,
+    lineHeight: 20,
+    color: palette.secondaryLabel,
+  },
+  permissionButton: {
+    marginTop: 8,
+    minHeight: 50,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: palette.tint,
+  },
+  permissionButtonText: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontWeight: "600",
+    color: palette.buttonText,
+  },
+  cancelButton: {
+    minHeight: 44,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  cancelButtonText: {
+    fontSize: 17,
+    lineHeight: 22,
+    color: palette.tint,
+  },
+});
@@ -0,0 +1,21 @@
+CREATE TABLE "foods" (
+	"id" bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "foods_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1),
+	"food_id" text NOT NULL,
+	"version" text NOT NULL,
+	"name" text NOT NULL,
+	"brand" text,
+	"serving_sizes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"calories" double precision,
+	"protein" double precision,
+	"carbs" double precision,
+	"fat" double precision,
+	"fiber" double precision,
+	"sugars" double precision,
+	"sodium_mg" double precision,
+	"potassium_mg" double precision,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "foods_food_version_uidx" ON "foods" USING btree ("food_id","version");--> statement-breakpoint
+CREATE INDEX "foods_name_idx" ON "foods" USING btree ("name");
\ No newline at end of file
@@ -0,0 +1,82 @@
+-- Backfill "foods" from the latest successful detail response per (food_id, version).
+-- Numeric fields are only cast when they look like numbers so malformed upstream JSON is skipped, not fatal.
+INSERT INTO "foods" (
+	"food_id",
+	"version",
+	"name",
+	"brand",
+	"serving_sizes",
+	"calories",
+	"protein",
+	"carbs",
+	"fat",
+	"fiber",
+	"sugars",
+	"sodium_mg",
+	"potassium_mg"
+)
+SELECT
+	"detail"."food_id",
+	"detail"."version",
+	btrim("detail"."food"->>'description'),
+	nullif(btrim("detail"."food"->>'brand_name'), ''),
+	coalesce(
+		(
+			SELECT jsonb_agg(
+				jsonb_build_object(
+					'value', ("serving"->>'value')::double precision,
+					'unit', btrim("serving"->>'unit'),
+					'nutritionMultiplier', coalesce(("serving"->>'nutrition_multiplier')::double precision, 1)
+				)
+				ORDER BY "ordinality"
+			)
+			FROM jsonb_array_elements(
+				CASE
+					WHEN jsonb_typeof("detail"."food"->'serving_sizes') = 'array' THEN "detail"."food"->'serving_sizes'
+					ELSE '[]'::jsonb
+				END
+			) WITH ORDINALITY AS "sizes"("serving", "ordinality")
+			WHERE btrim(coalesce("serving"->>'unit', '')) <> ''
+				AND CASE
+					WHEN "serving"->>'value' ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN ("serving"->>'value')::double precision > 0
+					ELSE false
+				END
+				AND CASE
+					WHEN "serving"->>'nutrition_multiplier' IS NULL THEN true
+					WHEN "serving"->>'nutrition_multiplier' ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN ("serving"->>'nutrition_multiplier')::double precision > 0
+					ELSE false
+				END
+		),
+		'[]'::jsonb
+	),
+	CASE WHEN "nutrients"."energy" ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN "nutrients"."energy"::double precision END,
+	CASE WHEN "nutrients"."protein" ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN "nutrients"."protein"::double precision END,
+	CASE WHEN "nutrients"."carbohydrates" ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN "nutrients"."carbohydrates"::double precision END,
+	CASE WHEN "nutrients"."fat" ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN "nutrients"."fat"::double precision END,
+	CASE WHEN "nutrients"."fiber" ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN "nutrients"."fiber"::double precision END,
+	CASE WHEN "nutrients"."sugar" ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN "nutrients"."sugar"::double precision END,
+	CASE WHEN "nutrients"."sodium" ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN "nutrients"."sodium"::double precision END,
+	CASE WHEN "nutrients"."potassium" ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN "nutrients"."potassium"::double precision END
+FROM (
+	SELECT DISTINCT ON ("food_id", "version")
+		"food_id",
+		"version",
+		"response_json" AS "food"
+	FROM "mfp_food_detail_responses"
+	WHERE "mfp_status" = 200
+		AND jsonb_typeof("response_json") = 'object'
+		AND btrim(coalesce("response_json"->>'description', '')) <> ''
+	ORDER BY "food_id", "version", "created_at" DESC, "id" DESC
+) AS "detail"
+CROSS JOIN LATERAL (
+	SELECT
+		"detail"."food"->'nutritional_contents'->'energy'->>'value' AS "energy",
+		"detail"."food"->'nutritional_contents'->>'protein' AS "protein",
+		"detail"."food"->'nutritional_contents'->>'carbohydrates' AS "carbohydrates",
+		"detail"."food"->'nutritional_contents'->>'fat' AS "fat",
+		"detail"."food"->'nutritional_contents'->>'fiber' AS "fiber",
+		"detail"."food"->'nutritional_contents'->>'sugar' AS "sugar",
+		"detail"."food"->'nutritional_contents'->>'sodium' AS "sodium",
+		"detail"."food"->'nutritional_contents'->>'potassium' AS "potassium"
+) AS "nutrients"
+ON CONFLICT ("food_id", "version") DO NOTHING;
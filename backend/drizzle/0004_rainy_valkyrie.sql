@@ -0,0 +1,3 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX "foods_search_text_trgm_idx" ON "foods" USING gin (lower("name" || ' ' || coalesce("brand", '')) gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "foods_search_text_tsv_idx" ON "foods" USING gin (to_tsvector('simple', lower("name" || ' ' || coalesce("brand", ''))));
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "rate_limit_buckets" (
+	"bucket" text NOT NULL,
+	"subject" text NOT NULL,
+	"tokens" double precision NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "rate_limit_buckets_bucket_subject_pk" PRIMARY KEY("bucket","subject")
+);
@@ -0,0 +1,40 @@
+CREATE TABLE "ai_session_messages" (
+	"session_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"message" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "ai_session_messages_session_id_position_pk" PRIMARY KEY("session_id","position")
+);
+--> statement-breakpoint
+CREATE TABLE "ai_session_pending_approvals" (
+	"session_id" text NOT NULL,
+	"tool_call_id" text NOT NULL,
+	"suggestions" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "ai_session_pending_approvals_session_id_tool_call_id_pk" PRIMARY KEY("session_id","tool_call_id")
+);
+--> statement-breakpoint
+CREATE TABLE "ai_session_search_results" (
+	"session_id" text NOT NULL,
+	"result_id" text NOT NULL,
+	"food" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "ai_session_search_results_session_id_result_id_pk" PRIMARY KEY("session_id","result_id")
+);
+--> statement-breakpoint
+CREATE TABLE "ai_sessions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"transcription_prompt" text,
+	"custom_foods" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"search_result_counter" integer DEFAULT 1 NOT NULL,
+	"revision" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_session_messages" ADD CONSTRAINT "ai_session_messages_session_id_ai_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."ai_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ai_session_pending_approvals" ADD CONSTRAINT "ai_session_pending_approvals_session_id_ai_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."ai_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ai_session_search_results" ADD CONSTRAINT "ai_session_search_results_session_id_ai_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."ai_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ai_sessions_user_idx" ON "ai_sessions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "ai_sessions_updated_at_idx" ON "ai_sessions" USING btree ("updated_at");
\ No newline at end of file
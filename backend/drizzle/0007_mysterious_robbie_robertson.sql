@@ -0,0 +1 @@
+ALTER TABLE "ai_sessions" ADD COLUMN "log_entries" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ai_sessions" ADD COLUMN "daily_summary" jsonb;
\ No newline at end of file
@@ -0,0 +1,672 @@
+import { describe, expect, it } from "bun:test";
+import { type AiAgent, createAiAgent } from "./ai-agent";
+import { createMemoryAiSessionStore } from "./ai-session";
+import { type FakeLlmScriptEntry, createFakeLlmProvider } from "./fake-llm-provider";
+import type { NutritionFood, NutritionProvider } from "./nutrition-provider";
+import type { AgentEvent } from "./shared/ai-stream";
+import type { SearchResultFood } from "./shared/search-contract";
+
+const user = { userId: "user_1" };
+
+const mfpFoods: NutritionFood[] = [
+  { provider: "mfp", id: "101:1", name: "Banana", serving: "1 medium", nutrition: { calories: 105 } },
+  { provider: "mfp", id: "102:1", name: "Banana Bread", serving: "1 slice", nutrition: { calories: 196 } },
+  { provider: "mfp", id: "103:1", name: "Greek Yogurt", brand: "Fage", nutrition: { calories: 100 } },
+];
+
+/** Stands in for MyFitnessPal: substring search over a fixed list. */
+function createFakeMfpProvider(): NutritionProvider & { queries: string[] } {
+  const queries: string[] = [];
+
+  return {
+    id: "mfp",
+    queries,
+    async search(params) {
+      queries.push(params.query);
+      const query = params.query.toLowerCase();
+      const foods = mfpFoods.filter((food) => food.name.toLowerCase().includes(query));
+      return { foods: foods.slice(params.offset, params.offset + params.maxItems) };
+    },
+    async detail(foodId) {
+      return mfpFoods.find((food) => food.id === foodId) ?? null;
+    },
+    async barcode() {
+      return null;
+    },
+  };
+}
+
+function searchStep(query: string, limit = 5): FakeLlmScriptEntry {
+  return { toolCalls: [{ name: "searchFoods", arguments: { query, limit } }] };
+}
+
+function approvalStep(suggestions: Record<string, unknown>[]): FakeLlmScriptEntry {
+  return { toolCalls: [{ name: "requestFoodApprovals", arguments: { suggestions } }] };
+}
+
+function setup(script: FakeLlmScriptEntry[]) {
+  const llm = createFakeLlmProvider(script, { recordCalls: true });
+  const mfp = createFakeMfpProvider();
+  const sessions = createMemoryAiSessionStore();
+  const transcriptions: File[] = [];
+  const agent = createAiAgent({
+    llm,
+    searchProviders: [mfp],
+    sessions,
+    rateLimiter: {
+      consume: async () => ({ allowed: true, remaining: 1, retryAfterSeconds: 0 }),
+      charge: async () => {},
+    },
+    transcribe: async (file) => {
+      transcriptions.push(file);
+      return { text: "one banana", durationSeconds: 2 };
+    },
+  });
+
+  return { llm, mfp, agent, sessions, transcriptions };
+}
+
+async function startSession(agent: AiAgent, body: Record<string, unknown> = {}): Promise<string> {
+  const response = await agent.handleSession(
+    new Request("http://caloric.test/ai/session", { method: "POST", body: JSON.stringify(body) }),
+    user,
+  );
+  expect(response.status).toBe(200);
+  return ((await response.json()) as { sessionId: string }).sessionId;
+}
+
+type TurnResponse = { status: number; body: Record<string, unknown> };
+
+async function readTurn(response: Response): Promise<TurnResponse> {
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+async function sendTurn(agent: AiAgent, sessionId: string, action: Record<string, unknown>, turnUser = user) {
+  const response = await agent.handleTurn(
+    new Request("http://caloric.test/ai/turn", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId, action }),
+    }),
+    turnUser,
+  );
+
+  return readTurn(response);
+}
+
+function turnEvents(turn: TurnResponse): AgentEvent[] {
+  expect(Array.isArray(turn.body.events)).toBe(true);
+  return turn.body.events as AgentEvent[];
+}
+
+function searchFoods(turn: TurnResponse, index: number): SearchResultFood[] {
+  const event = turnEvents(turn).at(index);
+  if (event?.kind !== "search") {
+    throw new Error(`Event ${index} is not a search.`);
+  }
+
+  return event.foods;
+}
+
+function approvalEvent(turn: TurnResponse): Extract<AgentEvent, { kind: "approval" }> {
+  const event = turnEvents(turn).find((candidate) => candidate.kind === "approval");
+  if (event?.kind !== "approval") {
+    throw new Error("The turn has no approval request.");
+  }
+
+  return event;
+}
+
+function lastToolOutput(llm: ReturnType<typeof createFakeLlmProvider>, call: number): unknown {
+  const message = llm.calls[call]?.messages.at(-1);
+  expect(message?.role).toBe("tool");
+  return JSON.parse(message?.content ?? "null");
+}
+
+describe("ai-agent", () => {
+  it("assigns sequential result IDs across searches with custom foods first", async () => {
+    const { llm, mfp, agent } = setup([searchStep("banana", 3), searchStep("yogurt"), { text: "Found them." }]);
+    const sessionId = await startSession(agent, {
+      customFoods: [{ name: "Banana Smoothie", nutrition: { calories: 210 } }],
+    });
+
+    const turn = await sendTurn(agent, sessionId, { type: "user-message", message: "banana and yogurt" });
+
+    expect(turn.status).toBe(200);
+    expect(turn.body.status).toBe("ready");
+    expect(turn.body.resolvedUserMessage).toBe("banana and yogurt");
+    expect(turnEvents(turn).map((event) => event.kind)).toEqual(["search", "search", "assistant"]);
+    expect(
+      searchFoods(turn, 0).map((food) => [food.resultId, food.source, food.name]),
+    ).toEqual([
+      ["r1", "custom", "Banana Smoothie"],
+      ["r2", "mfp", "Banana"],
+      ["r3", "mfp", "Banana Bread"],
+    ]);
+    expect(searchFoods(turn, 1).map((food) => food.resultId)).toEqual(["r4"]);
+    expect(mfp.queries).toEqual(["banana", "yogurt"]);
+    expect(lastToolOutput(llm, 2)).toMatchObject({ foods: [{ resultId: "r4", name: "Greek Yogurt" }] });
+  });
+
+  it("returns approval validation errors to the model", async () => {
+    const nineSuggestions = Array.from({ length: 9 }, () => ({
+      resultId: "r1",
+      meal: "lunch",
+      portion: 1,
+      reason: "Banana",
+    }));
+    const { llm, agent } = setup([
+      searchStep("banana"),
+      approvalStep([{ resultId: "r99", meal: "lunch", portion: 1, reason: "Guess" }]),
+      approvalStep(nineSuggestions),
+      { text: "I could not find that." },
+    ]);
+    const sessionId = await startSession(agent);
+
+    const turn = await sendTurn(agent, sessionId, { type: "user-message", message: "banana" });
+
+    expect(turn.body.status).toBe("ready");
+    expect(turnEvents(turn).map((event) => event.kind)).toEqual(["search", "assistant"]);
+    expect(lastToolOutput(llm, 2)).toEqual({ error: "Unknown result IDs: r99" });
+    expect(lastToolOutput(llm, 3)).toEqual({ error: "Invalid requestFoodApprovals input." });
+  });
+
+  it("collapses duplicate suggestions and resumes once every suggestion is decided", async () => {
+    const { llm, agent, transcriptions } = setup([
+      searchStep("banana"),
+      approvalStep([
+        { resultId: "r1", meal: "snacks", portion: 1, reason: "A banana" },
+        { resultId: "r1", meal: "snacks", portion: 1.1, reason: "Same banana" },
+        { resultId: "r2", meal: "breakfast", portion: 0.5, reason: "Half a slice" },
+      ]),
+      { text: "Logged the banana." },
+    ]);
+    const sessionId = await startSession(agent);
+
+    const first = await sendTurn(agent, sessionId, { type: "user-message", message: "banana" });
+    expect(first.body.status).toBe("awaiting-approval");
+    const approval = approvalEvent(first);
+    expect(approval.suggestions).toMatchObject([
+      { resultId: "r1", portion: 1 },
+      { resultId: "r2", portion: 0.5 },
+    ]);
+
+    const blocked = await sendTurn(agent, sessionId, { type: "user-message", message: "and an apple" });
+    expect(blocked).toEqual({
+      status: 409,
+      body: { error: "Resolve pending approvals before sending a new message." },
+    });
+
+    const voiceForm = new FormData();
+    voiceForm.set("sessionId", sessionId);
+    voiceForm.set("actionType", "user-message");
+    voiceForm.set("audio", new File([new Uint8Array([1, 2, 3])], "voice.m4a", { type: "audio/m4a" }));
+    const blockedVoice = await agent.handleTurn(
+      new Request("http://caloric.test/ai/turn", { method: "POST", body: voiceForm }),
+      user,
+    );
+    expect(blockedVoice.status).toBe(409);
+    expect(transcriptions).toHaveLength(0);
+
+    const [banana, bread] = approval.suggestions;
+    const partial = await sendTurn(agent, sessionId, {
+      type: "approval",
+      toolCallId: approval.toolCallId,
+      suggestionId: banana.suggestionId,
+      approved: true,
+    });
+    expect(partial).toEqual({ status: 200, body: { status: "awaiting-approval", events: [] } });
+    expect(llm.calls).toHaveLength(2);
+
+    const resumed = await sendTurn(agent, sessionId, {
+      type: "approval",
+      toolCallId: approval.toolCallId,
+      suggestionId: bread.suggestionId,
+      approved: false,
+    });
+    expect(resumed.body).toEqual({ status: "ready", events: [{ kind: "assistant", text: "Logged the banana." }] });
+    expect(lastToolOutput(llm, 2)).toMatchObject({
+      decisions: [
+        { resultId: "r1", meal: "snacks", approved: true },
+        { resultId: "r2", meal: "breakfast", approved: false, reason: "User rejected this suggestion." },
+      ],
+    });
+
+    const stale = await sendTurn(agent, sessionId, {
+      type: "approval",
+      toolCallId: approval.toolCallId,
+      suggestionId: banana.suggestionId,
+      approved: true,
+    });
+    expect(stale).toEqual({ status: 409, body: { error: "No pending approval request for tool call." } });
+  });
+
+  it("resolves every suggestion of an approval request in one batch", async () => {
+    const { llm, agent } = setup([
+      searchStep("banana", 2),
+      searchStep("yogurt"),
+      approvalStep([
+        { resultId: "r1", meal: "breakfast", portion: 1, reason: "Banana" },
+        { resultId: "r2", meal: "breakfast", portion: 1, reason: "Banana bread" },
+        { resultId: "r3", meal: "breakfast", portion: 1, reason: "Yogurt" },
+      ]),
+      { text: "Logged breakfast." },
+    ]);
+    const sessionId = await startSession(agent);
+
+    const first = await sendTurn(agent, sessionId, { type: "user-message", message: "breakfast" });
+    const approval = approvalEvent(first);
+    const [banana, bread, yogurt] = approval.suggestions;
+    const batch = (fields: Record<string, unknown>) =>
+      sendTurn(agent, sessionId, { type: "approval-batch", toolCallId: approval.toolCallId, ...fields });
+
+    expect((await batch({ decisions: [{ suggestionId: banana.suggestionId, approved: true }] })).body).toEqual({
+      error: "action.approved is required unless every pending suggestion has a decision.",
+    });
+    expect((await batch({ approved: true, decisions: [{ suggestionId: "missing", approved: false }] })).status).toBe(404);
+    expect(
+      (await batch({ approved: true, decisions: [{ suggestionId: bread.suggestionId, approved: true, adjustments: { portion: 0 } }] }))
+        .status,
+    ).toBe(400);
+
+    // Multipart forms carry `decisions` as JSON; a suggestion decided twice rejects the batch.
+    const form = new FormData();
+    form.set("sessionId", sessionId);
+    form.set("actionType", "approval-batch");
+    form.set("toolCallId", approval.toolCallId);
+    form.set(
+      "decisions",
+      JSON.stringify([banana, bread, yogurt, banana].map(({ suggestionId }) => ({ suggestionId, approved: true }))),
+    );
+    const duplicate = await agent.handleTurn(
+      new Request("http://caloric.test/ai/turn", { method: "POST", body: form }),
+      user,
+    );
+    expect(duplicate.status).toBe(400);
+    expect(await duplicate.json()).toEqual({ error: `Duplicate decision for suggestion ${banana.suggestionId}.` });
+    expect(llm.calls).toHaveLength(3);
+
+    const resolved = await batch({
+      approved: true,
+      decisions: [
+        { suggestionId: bread.suggestionId, approved: false },
+        { suggestionId: yogurt.suggestionId, approved: true, adjustments: { portion: 2 } },
+      ],
+    });
+    expect(resolved.body).toEqual({ status: "ready", events: [{ kind: "assistant", text: "Logged breakfast." }] });
+    expect(llm.calls).toHaveLength(4);
+    expect(lastToolOutput(llm, 3)).toMatchObject({
+      decisions: [
+        { suggestionId: banana.suggestionId, approved: true },
+        { suggestionId: bread.suggestionId, approved: false, reason: "User rejected this suggestion." },
+        { suggestionId: yogurt.suggestionId, approved: true, portion: 2, userAdjustments: { portion: 2 } },
+      ],
+    });
+
+    expect((await batch({ approved: false })).status).toBe(409);
+  });
+
+  it("logs foods on the requested day and reports the user's adjustments", async () => {
+    const { llm, agent } = setup([
+      searchStep("banana"),
+      approvalStep([{ resultId: "r1", meal: "snacks", portion: 1, dateKey: "yesterday", reason: "A banana" }]),
+      approvalStep([
+        { resultId: "r1", meal: "snacks", portion: 1, dateKey: "2026-02-21", reason: "Banana yesterday" },
+        { resultId: "r2", meal: "breakfast", portion: 1, reason: "A slice today" },
+      ]),
+      { toolCalls: [{ name: "getDailySummary", arguments: {} }] },
+      { text: "Logged both." },
+    ]);
+    const sessionId = await startSession(agent, {
+      today: "2026-02-22",
+      dailySummary: {
+        dateKey: "2026-02-22",
+        goals: { calories: 2000, protein: 150, carbs: 200, fat: 60 },
+        totals: { calories: 0, protein: 0, carbs: 0, fat: 0 },
+      },
+    });
+
+    const first = await sendTurn(agent, sessionId, { type: "user-message", message: "banana yesterday, bread today" });
+    expect(lastToolOutput(llm, 2)).toEqual({ error: "dateKey must be YYYY-MM-DD for: r1" });
+    const approval = approvalEvent(first);
+    expect(approval.suggestions.map((suggestion) => (suggestion.kind === "add" ? suggestion.dateKey : null))).toEqual([
+      "2026-02-21",
+      undefined,
+    ]);
+
+    const [banana, bread] = approval.suggestions;
+    const approve = (suggestionId: string, adjustments?: Record<string, unknown>) =>
+      sendTurn(agent, sessionId, {
+        type: "approval",
+        toolCallId: approval.toolCallId,
+        suggestionId,
+        approved: true,
+        ...(adjustments ? { adjustments } : {}),
+      });
+
+    expect((await approve(banana.suggestionId, { portion: 0 })).body).toEqual({
+      error: "action.adjustments.portion must be at least 0.25",
+    });
+    expect((await approve(banana.suggestionId, { meal: "snacks", portion: 2, dateKey: "2026-02-22" })).status).toBe(200);
+    await approve(bread.suggestionId);
+
+    expect(lastToolOutput(llm, 3)).toMatchObject({
+      decisions: [
+        {
+          resultId: "r1",
+          approved: true,
+          meal: "snacks",
+          portion: 2,
+          dateKey: "2026-02-22",
+          userAdjustments: { portion: 2, dateKey: "2026-02-22" },
+        },
+        { resultId: "r2", approved: true, meal: "breakfast", portion: 1 },
+      ],
+    });
+    expect(lastToolOutput(llm, 4)).toMatchObject({ eaten: { calories: 406 } });
+  });
+
+  it("edits and deletes logged entries by log ID once approved", async () => {
+    const { llm, agent } = setup([
+      { toolCalls: [{ name: "requestLogEdits", arguments: { edits: [{ logId: "l9", portion: 0.5, reason: "Half" }] } }] },
+      {
+        toolCalls: [
+          { name: "requestLogEdits", arguments: { edits: [{ logId: "l1", portion: 1, meal: "lunch", reason: "Same" }] } },
+        ],
+      },
+      {
+        toolCalls: [
+          {
+            name: "requestLogEdits",
+            arguments: { edits: [{ logId: "l1", portion: 0.5, dateKey: "2026-02-21", reason: "Half a banana" }] },
+          },
+        ],
+      },
+      { text: "Made it half a banana." },
+      { toolCalls: [{ name: "requestLogDeletions", arguments: { deletions: [{ logId: "l2", reason: "Coffee" }] } }] },
+      { text: "Removed the coffee." },
+      { toolCalls: [{ name: "requestLogDeletions", arguments: { deletions: [{ logId: "l2", reason: "Again" }] } }] },
+      { text: "It is already gone." },
+    ]);
+    const sessionId = await startSession(agent, {
+      today: "2026-02-22",
+      recentLogs: [
+        { entryId: "co_banana", foodName: "Banana", meal: "lunch", portion: 1, dateKey: "2026-02-22", createdAt: 2 },
+        { entryId: "co_coffee", foodName: "Coffee", meal: "breakfast", portion: 1, dateKey: "2026-02-21", createdAt: 1 },
+        { foodName: "Toast", meal: "breakfast", dateKey: "2026-02-21", createdAt: 0 },
+      ],
+    });
+
+    const first = await sendTurn(agent, sessionId, { type: "user-message", message: "actually make that half a banana" });
+    expect(llm.calls[0]?.messages[0]?.content).toContain("Today is 2026-02-22.");
+    const contextPrompt = llm.calls[0]?.messages[1]?.content ?? "";
+    expect(contextPrompt).toContain("- [l1] 2026-02-22 | lunch | Banana | portion 1");
+    expect(contextPrompt).toContain("- 2026-02-21 | breakfast | Toast");
+    expect(lastToolOutput(llm, 1)).toEqual({ error: "Unknown log IDs: l9" });
+    expect(lastToolOutput(llm, 2)).toEqual({ error: "l1 edit changes nothing." });
+
+    expect(first.body.status).toBe("awaiting-approval");
+    const edit = approvalEvent(first);
+    expect(edit.suggestions).toMatchObject([
+      {
+        kind: "edit",
+        logId: "l1",
+        entry: { entryId: "co_banana", foodName: "Banana" },
+        changes: { portion: 0.5, dateKey: "2026-02-21" },
+      },
+    ]);
+
+    await sendTurn(agent, sessionId, {
+      type: "approval",
+      toolCallId: edit.toolCallId,
+      suggestionId: edit.suggestions[0].suggestionId,
+      approved: true,
+    });
+    expect(lastToolOutput(llm, 3)).toMatchObject({
+      decisions: [{ kind: "edit", logId: "l1", changes: { portion: 0.5 }, approved: true }],
+    });
+
+    const second = await sendTurn(agent, sessionId, { type: "user-message", message: "remove yesterday's coffee" });
+    const deletion = approvalEvent(second);
+    expect(deletion.suggestions).toMatchObject([{ kind: "delete", logId: "l2", entry: { entryId: "co_coffee" } }]);
+
+    await sendTurn(agent, sessionId, {
+      type: "approval",
+      toolCallId: deletion.toolCallId,
+      suggestionId: deletion.suggestions[0].suggestionId,
+      approved: true,
+    });
+    expect(lastToolOutput(llm, 5)).toMatchObject({ decisions: [{ kind: "delete", logId: "l2", approved: true }] });
+
+    const third = await sendTurn(agent, sessionId, { type: "user-message", message: "remove the coffee" });
+    expect(third.body.status).toBe("ready");
+    expect(lastToolOutput(llm, 7)).toEqual({ error: "Unknown log IDs: l2" });
+  });
+
+  it("answers tool calls after an approval request so the conversation stays valid", async () => {
+    const { llm, agent } = setup([
+      {
+        toolCalls: [
+          { name: "requestLogEdits", arguments: { edits: [{ logId: "l1", portion: 0.5, reason: "Half a banana" }] } },
+          { name: "requestLogDeletions", arguments: { deletions: [{ logId: "l2", reason: "Coffee" }] } },
+        ],
+      },
+      { toolCalls: [{ name: "requestLogDeletions", arguments: { deletions: [{ logId: "l2", reason: "Coffee" }] } }] },
+    ]);
+    const sessionId = await startSession(agent, {
+      recentLogs: [
+        { entryId: "co_banana", foodName: "Banana", meal: "lunch", portion: 1, dateKey: "2026-02-22", createdAt: 2 },
+        { entryId: "co_coffee", foodName: "Coffee", meal: "breakfast", portion: 1, dateKey: "2026-02-22", createdAt: 1 },
+      ],
+    });
+
+    const first = await sendTurn(agent, sessionId, { type: "user-message", message: "halve the banana, drop the coffee" });
+    expect(first.body.status).toBe("awaiting-approval");
+    expect(turnEvents(first).filter((event) => event.kind === "approval")).toHaveLength(1);
+    const approval = approvalEvent(first);
+
+    await sendTurn(agent, sessionId, {
+      type: "approval",
+      toolCallId: approval.toolCallId,
+      suggestionId: approval.suggestions[0].suggestionId,
+      approved: true,
+    });
+
+    const resumed = llm.calls[1]?.messages ?? [];
+    const assistantIndex = resumed.findIndex((message) => message.tool_calls?.length === 2);
+    const [editCall, deletionCall] = resumed[assistantIndex]?.tool_calls ?? [];
+    const replies = resumed.slice(assistantIndex + 1);
+    expect(replies.map((message) => [message.role, message.tool_call_id])).toEqual([
+      ["tool", deletionCall?.id],
+      ["tool", editCall?.id],
+    ]);
+    expect(JSON.parse(replies[0]?.content ?? "null")).toEqual({
+      error: "Only one approval request per turn; call this again after the pending one is resolved.",
+    });
+  });
+
+  it("reports the daily summary and counts approved changes against it", async () => {
+    const { llm, agent } = setup([
+      { toolCalls: [{ name: "getDailySummary", arguments: {} }] },
+      searchStep("greek yogurt"),
+      approvalStep([{ resultId: "r1", meal: "dinner", portion: 2, reason: "High protein" }]),
+      { toolCalls: [{ name: "requestLogDeletions", arguments: { deletions: [{ logId: "l1", reason: "Bread" }] } }] },
+      { toolCalls: [{ name: "getDailySummary", arguments: {} }] },
+      { text: "You have 1200 kcal left." },
+    ]);
+    const sessionId = await startSession(agent, {
+      recentLogs: [
+        { entryId: "co_bread", foodName: "Banana Bread", portion: 1, calories: 196, protein: 3, dateKey: "2026-02-22" },
+      ],
+      dailySummary: {
+        dateKey: "2026-02-22",
+        goals: { calories: 2000, protein: 150, carbs: 250, fat: 67 },
+        totals: { calories: 996, protein: 43, carbs: 120, fat: 30 },
+      },
+    });
+
+    const first = await sendTurn(agent, sessionId, { type: "user-message", message: "what should I eat for dinner?" });
+    expect(lastToolOutput(llm, 1)).toEqual({
+      dateKey: "2026-02-22",
+      goals: { calories: 2000, protein: 150, carbs: 250, fat: 67 },
+      eaten: { calories: 996, protein: 43, carbs: 120, fat: 30 },
+      remaining: { calories: 1004, protein: 107, carbs: 130, fat: 37 },
+    });
+
+    const addition = approvalEvent(first);
+    const second = await sendTurn(agent, sessionId, {
+      type: "approval",
+      toolCallId: addition.toolCallId,
+      suggestionId: addition.suggestions[0].suggestionId,
+      approved: true,
+    });
+    const deletion = approvalEvent(second);
+    await sendTurn(agent, sessionId, {
+      type: "approval",
+      toolCallId: deletion.toolCallId,
+      suggestionId: deletion.suggestions[0].suggestionId,
+      approved: true,
+    });
+
+    expect(lastToolOutput(llm, 5)).toMatchObject({
+      eaten: { calories: 1000, protein: 40 },
+      remaining: { calories: 1000, protein: 110 },
+    });
+
+    const { llm: otherLlm, agent: otherAgent } = setup([
+      { toolCalls: [{ name: "getDailySummary", arguments: {} }] },
+      { text: "Open the app settings." },
+    ]);
+    const otherSession = await startSession(otherAgent);
+    await sendTurn(otherAgent, otherSession, { type: "user-message", message: "how much is left?" });
+    expect(lastToolOutput(otherLlm, 1)).toEqual({
+      error: "The app did not share goals or today's totals for this session.",
+    });
+  });
+
+  it("sends a meal photo to the vision model on the first step only", async () => {
+    const { llm, agent } = setup([
+      searchStep("banana"),
+      approvalStep([{ resultId: "r1", meal: "snacks", portion: 1, reason: "One banana on the plate." }]),
+    ]);
+    const sessionId = await startSession(agent);
+
+    const photoTurn = async (photo: File) => {
+      const form = new FormData();
+      form.set("sessionId", sessionId);
+      form.set("actionType", "user-message");
+      form.set("photo", photo);
+      return readTurn(
+        await agent.handleTurn(new Request("http://caloric.test/ai/turn", { method: "POST", body: form }), user),
+      );
+    };
+
+    const rejected = await photoTurn(new File(["GIF89a"], "plate.gif", { type: "image/gif" }));
+    expect(rejected.status).toBe(400);
+
+    const turn = await photoTurn(new File([new Uint8Array([1, 2, 3])], "plate.jpg", { type: "image/jpeg" }));
+    expect(turn.status).toBe(200);
+    expect(turn.body.status).toBe("awaiting-approval");
+    expect(turn.body.resolvedUserMessage).toBe("Log the food in this photo.");
+    expect(llm.calls.map((call) => call.images)).toEqual([[{ url: "data:image/jpeg;base64,AQID" }], undefined]);
+    expect(llm.calls[0]?.messages.at(-1)).toEqual({
+      role: "user",
+      content: "Log the food in this photo.\n\n[Meal photo attached. It is only shown with this message on your first step.]",
+    });
+
+    const approval = approvalEvent(turn);
+    await sendTurn(agent, sessionId, {
+      type: "approval",
+      toolCallId: approval.toolCallId,
+      suggestionId: approval.suggestions[0].suggestionId,
+      approved: true,
+    });
+    expect(llm.calls[2]?.images).toBeUndefined();
+  });
+
+  it("stops the loop after eight model steps", async () => {
+    const { llm, agent } = setup(Array.from({ length: 12 }, () => searchStep("banana", 1)));
+    const sessionId = await startSession(agent);
+
+    const turn = await sendTurn(agent, sessionId, { type: "user-message", message: "banana" });
+
+    expect(turn.body.status).toBe("ready");
+    expect(llm.calls).toHaveLength(8);
+    expect(searchFoods(turn, -1)[0]?.resultId).toBe("r8");
+  });
+
+  it("keeps sessions private to their user", async () => {
+    const { agent } = setup([{ text: "Hi" }]);
+    const sessionId = await startSession(agent);
+
+    const turn = await sendTurn(agent, sessionId, { type: "user-message", message: "hi" }, { userId: "user_2" });
+    expect(turn).toEqual({ status: 403, body: { error: "Session not found for this user" } });
+  });
+
+  it("streams text deltas and events before the final done event", async () => {
+    const { agent } = setup([{ text: "Looking it up.", toolCalls: [{ name: "searchFoods", arguments: { query: "banana" } }] }, { text: "Done." }]);
+    const sessionId = await startSession(agent);
+
+    const response = await agent.handleTurn(
+      new Request("http://caloric.test/ai/turn/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, action: { type: "user-message", message: "banana" } }),
+      }),
+      user,
+      { stream: true },
+    );
+
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const events = (await response.text())
+      .split("\n\n")
+      .filter(Boolean)
+      .map((block) => JSON.parse(block.split("\n")[1].slice("data: ".length)) as Record<string, unknown>);
+
+    expect(events.map((event) => event.kind)).toEqual([
+      "assistant-delta",
+      "assistant-delta",
+      "assistant-delta",
+      "assistant",
+      "search",
+      "assistant-delta",
+      "assistant",
+      "done",
+    ]);
+    expect(events.at(-1)).toEqual({ kind: "done", status: "ready", resolvedUserMessage: "banana" });
+  });
+
+  it("finishes and saves the turn when the client disconnects mid-stream", async () => {
+    const { agent, sessions } = setup([
+      { text: "Looking it up.", toolCalls: [{ name: "searchFoods", arguments: { query: "banana" } }] },
+      { text: "Done." },
+    ]);
+    const sessionId = await startSession(agent);
+    const save = sessions.save.bind(sessions);
+    const saved = new Promise<boolean>((resolve) => {
+      sessions.save = async (session) => {
+        const ok = await save(session);
+        resolve(ok);
+        return ok;
+      };
+    });
+
+    const response = await agent.handleTurn(
+      new Request("http://caloric.test/ai/turn/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, action: { type: "user-message", message: "banana" } }),
+      }),
+      user,
+      { stream: true },
+    );
+
+    const reader = response.body!.getReader();
+    expect((await reader.read()).done).toBe(false);
+    await reader.cancel();
+
+    expect(await saved).toBe(true);
+    const session = await sessions.load(sessionId, user.userId);
+    expect(session?.conversation.at(-1)).toMatchObject({ role: "assistant", content: "Done." });
+  });
+});
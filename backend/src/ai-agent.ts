@@ -0,0 +1,1333 @@
+import { z } from "zod";
+import { matchCustomFoods, parseCustomFoods } from "./ai-custom-foods";
+import { addToDailySummary, describeDailySummary, parseDailySummary } from "./ai-daily-summary";
+import {
+  applyLogEntryChanges,
+  buildRecentLogContextPrompt,
+  buildRecentLogTranscriptionPrompt,
+  isDateKey,
+  parseRecentLogHints,
+  parseTodayDateKey,
+  toSessionLogEntries,
+} from "./ai-log-context";
+import type { AgentSession, AiSessionStore, OpenRouterToolCall } from "./ai-session";
+import type { AuthenticatedUser } from "./auth";
+import { type HttpFailure, failureResponse, json, parseJsonBody, rateLimitFailure } from "./http";
+import type { LlmImage, LlmProvider } from "./llm-provider";
+import { annotateRequest, errorFields, incrementRequestField } from "./logger";
+import { llmTokensTotal, transcriptionAudioSecondsTotal } from "./metrics";
+import { type NutritionProvider, searchWithProviders, toSearchResultFood } from "./nutrition-provider";
+import type { RateLimiter } from "./rate-limit";
+import {
+  type AgentEvent,
+  type AgentStatus,
+  type AgentStreamEvent,
+  type AiTurnStreamEvent,
+  type ApprovalOutput,
+  type LogEntryChanges,
+  type Meal,
+  type PendingApprovalSuggestion,
+  type ResolvedApprovalSuggestion,
+  type ResolvedLogDeletionSuggestion,
+  type ResolvedLogEditSuggestion,
+  formatSseEvent,
+} from "./shared/ai-stream";
+import type { SearchResultFood } from "./shared/search-contract";
+import { validate } from "./validation";
+
+type AiTurnRequest = {
+  sessionId: string;
+  action: Record<string, unknown>;
+  actionType: string;
+  audioFile: File | null;
+  photoFile: File | null;
+};
+
+type AiTurnResult = {
+  status: AgentStatus;
+  events: AgentEvent[];
+  resolvedUserMessage?: string;
+};
+
+/** Everything the agent talks to, injected so tests can run the loop without network or Postgres. */
+export type AiAgentDeps = {
+  llm: LlmProvider;
+  /** Providers the `searchFoods` tool queries after the session's custom foods. */
+  searchProviders: NutritionProvider[];
+  sessions: AiSessionStore;
+  rateLimiter: RateLimiter;
+  transcribe(audioFile: File, prompt: string | null): Promise<{ text: string; durationSeconds: number }>;
+};
+
+export type AiAgent = {
+  handleSession(request: Request, user: AuthenticatedUser): Promise<Response>;
+  handleTurn(request: Request, user: AuthenticatedUser, options?: { stream?: boolean }): Promise<Response>;
+};
+
+const agentTools = [
+  {
+    type: "function",
+    function: {
+      name: "searchFoods",
+      description: "Search foods in the app food database.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "User query for food search.",
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 10,
+            description: "Max number of foods to return.",
+          },
+        },
+        required: ["query"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "requestFoodApprovals",
+      description:
+        "Request user approval for one or more selected food entries using local result IDs from searchFoods.",
+      parameters: {
+        type: "object",
+        properties: {
+          suggestions: {
+            type: "array",
+            minItems: 1,
+            maxItems: 8,
+            items: {
+              type: "object",
+              properties: {
+                resultId: { type: "string" },
+                meal: {
+                  type: "string",
+                  enum: ["breakfast", "lunch", "dinner", "snacks"],
+                },
+                portion: { type: "number", minimum: 0.25 },
+                dateKey: {
+                  type: "string",
+                  description: "Day the food was eaten, as YYYY-MM-DD. Omit when it was eaten today.",
+                },
+                reason: { type: "string" },
+              },
+              required: ["resultId", "meal", "portion", "reason"],
+            },
+          },
+        },
+        required: ["suggestions"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "requestLogEdits",
+      description:
+        "Request user approval to change entries the user already logged, using log IDs from the recent log context. Only include the fields that change.",
+      parameters: {
+        type: "object",
+        properties: {
+          edits: {
+            type: "array",
+            minItems: 1,
+            maxItems: 8,
+            items: {
+              type: "object",
+              properties: {
+                logId: { type: "string" },
+                portion: { type: "number", minimum: 0.25 },
+                meal: {
+                  type: "string",
+                  enum: ["breakfast", "lunch", "dinner", "snacks"],
+                },
+                dateKey: { type: "string", description: "Day to move the entry to, as YYYY-MM-DD." },
+                reason: { type: "string" },
+              },
+              required: ["logId", "reason"],
+            },
+          },
+        },
+        required: ["edits"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "requestLogDeletions",
+      description:
+        "Request user approval to remove entries the user already logged, using log IDs from the recent log context.",
+      parameters: {
+        type: "object",
+        properties: {
+          deletions: {
+            type: "array",
+            minItems: 1,
+            maxItems: 8,
+            items: {
+              type: "object",
+              properties: {
+                logId: { type: "string" },
+                reason: { type: "string" },
+              },
+              required: ["logId", "reason"],
+            },
+          },
+        },
+        required: ["deletions"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "getDailySummary",
+      description:
+        "Get today's calorie and macro goals, what the user has eaten so far, and what remains, in kcal and grams.",
+      parameters: {
+        type: "object",
+        properties: {},
+      },
+    },
+  },
+] as const;
+
+const photoTypes = ["image/jpeg", "image/png", "image/webp"];
+const maxPhotoBytes = 8 * 1024 * 1024;
+const skippedAfterApprovalError =
+  "Only one approval request per turn; call this again after the pending one is resolved.";
+/** Stands in for the photo in the stored conversation and in every step after the first. */
+const mealPhotoNote = "[Meal photo attached. It is only shown with this message on your first step.]";
+
+/** JSON bodies and multipart forms both normalize to this shape before validation. */
+const aiTurnBodySchema = z.object({
+  sessionId: z.string({ error: "Required" }).trim().min(1, "Required"),
+  action: z.looseObject(
+    { type: z.string({ error: "Required" }).trim().min(1, "Required") },
+    { error: "Required" },
+  ),
+});
+
+const systemPrompt = [
+  "You are Caloric's food logging assistant.",
+  "Always call searchFoods before suggesting a food entry.",
+  "searchFoods returns local result IDs. Only reference those IDs later.",
+  "searchFoods lists the user's own custom foods first (source: custom); prefer them when they match what the user ate.",
+  "Never send or edit nutrition/name/brand/serving in approval requests.",
+  "When ready, call requestFoodApprovals once with one or more suggestions.",
+  "Only set resultId, meal, portion, reason, and dateKey when the food was eaten on another day, in each suggestion.",
+  "Resolve relative days like 'yesterday' or 'on Monday' to a dateKey from today's date.",
+  "The user may change the meal, portion or day before approving; approval decisions report what was logged and userAdjustments lists what the user changed.",
+  "Portion should be in quarter increments (0.25).",
+  "If the user rejects suggestions, explain briefly and search again.",
+  "To change the portion, meal or day of something already logged, call requestLogEdits with its log ID; to remove it, call requestLogDeletions.",
+  "Never add a new entry to correct an existing one.",
+  "When the user asks what to eat, how much is left, or how to reach a calorie or macro goal, call getDailySummary first.",
+  "Then recommend specific foods and portions that fit the remaining budget, search them with searchFoods, and offer them with requestFoodApprovals.",
+  "When the user sends a meal photo, identify each food and estimate its portion, then search each one with searchFoods and offer them with requestFoodApprovals.",
+  "Note what you see right away and how you judged each portion in its reason; the photo is only shown on your first step.",
+].join(" ");
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    const normalized = value.trim();
+    return normalized.length > 0 ? normalized : undefined;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    const normalized = value.trim();
+    if (!normalized) {
+      return undefined;
+    }
+
+    const parsed = Number(normalized);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+
+  return undefined;
+}
+
+function parseMeal(meal: unknown): Meal | undefined {
+  const normalized = typeof meal === "string" ? meal.trim().toLowerCase() : "";
+  if (
+    normalized === "breakfast" ||
+    normalized === "lunch" ||
+    normalized === "dinner" ||
+    normalized === "snacks"
+  ) {
+    return normalized;
+  }
+  return undefined;
+}
+
+function normalizeMeal(meal: unknown): Meal {
+  return parseMeal(meal) ?? "lunch";
+}
+
+function sanitizePortion(value: unknown): number {
+  const parsed = asNumber(value);
+  if (parsed === undefined) {
+    return 1;
+  }
+
+  const bounded = Math.max(0.25, parsed);
+  return Math.round(bounded * 4) / 4;
+}
+
+function parseToolArguments(raw: string): unknown {
+  if (!raw || !raw.trim()) {
+    return {};
+  }
+
+  return JSON.parse(raw);
+}
+
+function createMessageId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+type LogChangeBase = Omit<ResolvedLogDeletionSuggestion, "kind">;
+
+/** Shared checks for `requestLogEdits` and `requestLogDeletions`: known log IDs, a reason, each entry once. */
+function resolveLogChanges<T>(
+  session: AgentSession,
+  rawItems: unknown,
+  toolName: string,
+  resolve: (item: Record<string, unknown> | null, base: LogChangeBase) => T | string,
+): { suggestions: T[] } | { error: string } {
+  if (!Array.isArray(rawItems) || rawItems.length === 0 || rawItems.length > 8) {
+    return { error: `Invalid ${toolName} input.` };
+  }
+
+  const suggestions: T[] = [];
+  const unknownLogIds: string[] = [];
+  const problems: string[] = [];
+  const seenLogIds = new Set<string>();
+
+  for (const candidate of rawItems) {
+    const item = asRecord(candidate);
+    const logId = asString(item?.logId)?.trim() ?? "";
+    const entry = session.logEntries.find((logEntry) => logEntry.logId === logId);
+    if (!entry) {
+      unknownLogIds.push(logId || "(empty)");
+      continue;
+    }
+
+    if (seenLogIds.has(logId)) {
+      problems.push(`${logId} is listed more than once.`);
+      continue;
+    }
+    seenLogIds.add(logId);
+
+    const reason = asString(item?.reason)?.trim() ?? "";
+    if (!reason) {
+      problems.push(`${logId} needs a reason.`);
+      continue;
+    }
+
+    const resolved = resolve(item, { suggestionId: createMessageId(), logId, entry, reason });
+    if (typeof resolved === "string") {
+      problems.push(resolved);
+      continue;
+    }
+
+    suggestions.push(resolved);
+  }
+
+  if (unknownLogIds.length > 0) {
+    return { error: `Unknown log IDs: ${unknownLogIds.slice(0, 5).join(", ")}` };
+  }
+
+  if (problems.length > 0) {
+    return { error: problems.slice(0, 5).join(" ") };
+  }
+
+  return { suggestions };
+}
+
+function resolveLogEdit(item: Record<string, unknown> | null, base: LogChangeBase): ResolvedLogEditSuggestion | string {
+  const changes: LogEntryChanges = {};
+
+  if (item?.portion !== undefined && item.portion !== null) {
+    const portion = sanitizePortion(item.portion);
+    if (portion !== base.entry.portion) {
+      changes.portion = portion;
+    }
+  }
+
+  if (item?.meal !== undefined && item.meal !== null) {
+    const meal = parseMeal(item.meal);
+    if (!meal) {
+      return `${base.logId} has an invalid meal.`;
+    }
+    if (meal !== base.entry.meal) {
+      changes.meal = meal;
+    }
+  }
+
+  if (item?.dateKey !== undefined && item.dateKey !== null) {
+    const dateKey = asString(item.dateKey)?.trim() ?? "";
+    if (!isDateKey(dateKey)) {
+      return `${base.logId} dateKey must be YYYY-MM-DD.`;
+    }
+    if (dateKey !== base.entry.dateKey) {
+      changes.dateKey = dateKey;
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return `${base.logId} edit changes nothing.`;
+  }
+
+  return { kind: "edit", ...base, changes };
+}
+
+/**
+ * Keeps the session's copy of the log and the daily summary in step with
+ * approved changes, so later edits and `getDailySummary` see current values.
+ * Approved foods without a `dateKey` are logged today, the day the summary covers.
+ */
+function applyApprovedLogChange(session: AgentSession, suggestion: PendingApprovalSuggestion): void {
+  if (suggestion.kind === "add") {
+    session.dailySummary = addToDailySummary(
+      session.dailySummary,
+      suggestion.dateKey ?? session.dailySummary?.dateKey,
+      suggestion.food.nutrition,
+      suggestion.portion,
+    );
+    return;
+  }
+
+  const entry = suggestion.entry;
+  session.dailySummary = addToDailySummary(session.dailySummary, entry.dateKey, entry, -1);
+
+  if (suggestion.kind === "delete") {
+    session.logEntries = session.logEntries.filter((logEntry) => logEntry.logId !== suggestion.logId);
+    return;
+  }
+
+  const updated = applyLogEntryChanges(entry, suggestion.changes);
+  session.dailySummary = addToDailySummary(session.dailySummary, updated.dateKey, updated, 1);
+  session.logEntries = session.logEntries.map((logEntry) =>
+    logEntry.logId === suggestion.logId ? updated : logEntry,
+  );
+}
+
+/** What the model sees for each resolved approval item. */
+function toApprovalDecision(suggestion: PendingApprovalSuggestion) {
+  const decision = {
+    suggestionId: suggestion.suggestionId,
+    approved: suggestion.output?.approved ?? false,
+    reason: suggestion.output?.reason,
+  };
+
+  if (suggestion.kind === "edit") {
+    return { ...decision, kind: suggestion.kind, logId: suggestion.logId, changes: suggestion.changes };
+  }
+
+  if (suggestion.kind === "delete") {
+    return { ...decision, kind: suggestion.kind, logId: suggestion.logId };
+  }
+
+  return {
+    ...decision,
+    kind: "add",
+    resultId: suggestion.resultId,
+    meal: suggestion.meal,
+    portion: suggestion.portion,
+    dateKey: suggestion.dateKey,
+    userAdjustments: suggestion.output?.adjustments,
+  };
+}
+
+/**
+ * Records one approval decision. Approved food suggestions take the user's
+ * `adjustments` first; other kinds cannot be adjusted.
+ */
+function decideSuggestion(
+  suggestion: PendingApprovalSuggestion,
+  approved: boolean,
+  rawAdjustments: unknown,
+): { suggestion: PendingApprovalSuggestion } | { error: string } {
+  let target = suggestion;
+  let adjustments: LogEntryChanges | null = null;
+
+  if (approved && rawAdjustments !== undefined) {
+    if (target.kind !== "add") {
+      return { error: "Only food suggestions can be adjusted." };
+    }
+
+    const parsed = parseApprovalAdjustments(rawAdjustments, target);
+    if ("error" in parsed) {
+      return parsed;
+    }
+
+    adjustments = parsed.adjustments;
+    if (adjustments) {
+      target = { ...target, ...adjustments };
+    }
+  }
+
+  const output: ApprovalOutput = {
+    approved,
+    reason: approved ? undefined : "User rejected this suggestion.",
+    ...(adjustments ? { adjustments } : {}),
+  };
+
+  return { suggestion: { ...target, output } };
+}
+
+/**
+ * Meal, portion or day the user changed on a food card before approving.
+ * Keeps only the fields that differ from the suggestion; null when none do.
+ */
+function parseApprovalAdjustments(
+  raw: unknown,
+  suggestion: ResolvedApprovalSuggestion,
+): { adjustments: LogEntryChanges | null } | { error: string } {
+  const record = asRecord(raw);
+  if (!record) {
+    return { error: "action.adjustments must be an object" };
+  }
+
+  const adjustments: LogEntryChanges = {};
+
+  if (record.meal !== undefined) {
+    const meal = parseMeal(record.meal);
+    if (!meal) {
+      return { error: "action.adjustments.meal must be breakfast, lunch, dinner or snacks" };
+    }
+    if (meal !== suggestion.meal) {
+      adjustments.meal = meal;
+    }
+  }
+
+  if (record.portion !== undefined) {
+    const portion = asNumber(record.portion);
+    if (portion === undefined || portion < 0.25) {
+      return { error: "action.adjustments.portion must be at least 0.25" };
+    }
+    if (sanitizePortion(portion) !== suggestion.portion) {
+      adjustments.portion = sanitizePortion(portion);
+    }
+  }
+
+  if (record.dateKey !== undefined) {
+    const dateKey = asString(record.dateKey) ?? "";
+    if (!isDateKey(dateKey)) {
+      return { error: "action.adjustments.dateKey must be YYYY-MM-DD" };
+    }
+    if (dateKey !== suggestion.dateKey) {
+      adjustments.dateKey = dateKey;
+    }
+  }
+
+  return { adjustments: Object.keys(adjustments).length > 0 ? adjustments : null };
+}
+
+function pauseForApproval(
+  session: AgentSession,
+  toolCallId: string,
+  suggestions: PendingApprovalSuggestion[],
+): { pauseForApproval: boolean; output: unknown; events: AgentEvent[] } {
+  session.pendingApprovals.set(toolCallId, suggestions);
+
+  return {
+    pauseForApproval: true,
+    output: null,
+    events: [
+      {
+        kind: "approval",
+        toolCallId,
+        suggestions,
+      },
+    ],
+  };
+}
+
+async function runToolCall(
+  deps: AiAgentDeps,
+  session: AgentSession,
+  toolCall: OpenRouterToolCall,
+): Promise<{ pauseForApproval: boolean; output: unknown; events: AgentEvent[] }> {
+  let rawArguments: unknown;
+  try {
+    rawArguments = parseToolArguments(toolCall.function.arguments);
+  } catch {
+    return {
+      pauseForApproval: false,
+      output: {
+        error: "Tool arguments were invalid JSON.",
+      },
+      events: [],
+    };
+  }
+
+  if (toolCall.function.name === "searchFoods") {
+    const args = asRecord(rawArguments);
+    const query = asString(args?.query) ?? "";
+    const parsedLimit = asNumber(args?.limit);
+    const limit = Math.max(1, Math.min(10, Number.isFinite(parsedLimit) ? Math.round(parsedLimit as number) : 6));
+
+    if (query.trim().length < 2) {
+      return {
+        pauseForApproval: false,
+        output: {
+          error: "Invalid searchFoods input.",
+        },
+        events: [],
+      };
+    }
+
+    const customFoods: SearchResultFood[] = matchCustomFoods(session.customFoods, query, limit).map(
+      (food) => ({
+        resultId: "",
+        source: "custom",
+        name: food.name,
+        brand: food.brand,
+        serving: food.serving,
+        nutrition: food.nutrition,
+      }),
+    );
+
+    let upstreamFoods: SearchResultFood[] = [];
+    if (customFoods.length < limit) {
+      const searchResult = await searchWithProviders(deps.searchProviders, {
+        query: query.trim(),
+        offset: 0,
+        maxItems: Math.min(20, Math.max(limit * 2, 8)),
+        countryCode: "US",
+        resourceType: "foods",
+        includeDetails: true,
+        source: "auto",
+      });
+
+      upstreamFoods = searchResult.foods.slice(0, limit - customFoods.length).map(toSearchResultFood);
+    }
+
+    const topFoods = [...customFoods, ...upstreamFoods];
+    const foodsWithResultIds: SearchResultFood[] = topFoods.map((food) => {
+      const resultId = `r${session.searchResultCounter}`;
+      session.searchResultCounter += 1;
+
+      const mapped: SearchResultFood = {
+        resultId,
+        source: food.source,
+        name: food.name,
+        brand: food.brand,
+        serving: food.serving,
+        nutrition: food.nutrition,
+      };
+
+      session.searchResultsByLocalId.set(resultId, mapped);
+      return mapped;
+    });
+
+    return {
+      pauseForApproval: false,
+      output: {
+        foods: foodsWithResultIds,
+      },
+      events: [
+        {
+          kind: "search",
+          foods: foodsWithResultIds,
+        },
+      ],
+    };
+  }
+
+  if (toolCall.function.name === "requestFoodApprovals") {
+    const args = asRecord(rawArguments);
+    const suggestionsRaw = args?.suggestions;
+
+    if (!Array.isArray(suggestionsRaw) || suggestionsRaw.length === 0 || suggestionsRaw.length > 8) {
+      return {
+        pauseForApproval: false,
+        output: {
+          error: "Invalid requestFoodApprovals input.",
+        },
+        events: [],
+      };
+    }
+
+    const resolvedSuggestions: ResolvedApprovalSuggestion[] = [];
+    const unknownResultIds: string[] = [];
+    const invalidDateResultIds: string[] = [];
+    const seenSuggestions = new Set<string>();
+
+    for (const candidate of suggestionsRaw) {
+      const suggestion = asRecord(candidate);
+      const resultId = asString(suggestion?.resultId)?.trim() ?? "";
+      const food = session.searchResultsByLocalId.get(resultId);
+      if (!food) {
+        unknownResultIds.push(resultId || "(empty)");
+        continue;
+      }
+
+      const meal = normalizeMeal(suggestion?.meal);
+      const portion = sanitizePortion(suggestion?.portion);
+      const reason = asString(suggestion?.reason)?.trim() ?? "";
+      if (!reason) {
+        continue;
+      }
+
+      const dateKey = asString(suggestion?.dateKey);
+      if (dateKey !== undefined && !isDateKey(dateKey)) {
+        invalidDateResultIds.push(resultId);
+        continue;
+      }
+
+      const duplicateKey = `${resultId}|${meal}|${portion}|${dateKey ?? ""}`;
+      if (seenSuggestions.has(duplicateKey)) {
+        continue;
+      }
+      seenSuggestions.add(duplicateKey);
+
+      resolvedSuggestions.push({
+        kind: "add",
+        suggestionId: createMessageId(),
+        resultId,
+        meal,
+        portion,
+        ...(dateKey ? { dateKey } : {}),
+        reason,
+        food,
+      });
+    }
+
+    if (unknownResultIds.length > 0) {
+      return {
+        pauseForApproval: false,
+        output: {
+          error: `Unknown result IDs: ${unknownResultIds.slice(0, 5).join(", ")}`,
+        },
+        events: [],
+      };
+    }
+
+    if (invalidDateResultIds.length > 0) {
+      return {
+        pauseForApproval: false,
+        output: {
+          error: `dateKey must be YYYY-MM-DD for: ${invalidDateResultIds.slice(0, 5).join(", ")}`,
+        },
+        events: [],
+      };
+    }
+
+    if (resolvedSuggestions.length === 0) {
+      return {
+        pauseForApproval: false,
+        output: {
+          error: "No valid suggestions to approve.",
+        },
+        events: [],
+      };
+    }
+
+    return pauseForApproval(session, toolCall.id, resolvedSuggestions);
+  }
+
+  if (toolCall.function.name === "getDailySummary") {
+    return {
+      pauseForApproval: false,
+      output: session.dailySummary
+        ? describeDailySummary(session.dailySummary)
+        : { error: "The app did not share goals or today's totals for this session." },
+      events: [],
+    };
+  }
+
+  if (toolCall.function.name === "requestLogEdits" || toolCall.function.name === "requestLogDeletions") {
+    const args = asRecord(rawArguments);
+    const resolved =
+      toolCall.function.name === "requestLogEdits"
+        ? resolveLogChanges(session, args?.edits, toolCall.function.name, resolveLogEdit)
+        : resolveLogChanges(session, args?.deletions, toolCall.function.name, (_item, base) => ({
+            kind: "delete" as const,
+            ...base,
+          }));
+
+    if ("error" in resolved) {
+      return {
+        pauseForApproval: false,
+        output: {
+          error: resolved.error,
+        },
+        events: [],
+      };
+    }
+
+    return pauseForApproval(session, toolCall.id, resolved.suggestions);
+  }
+
+  return {
+    pauseForApproval: false,
+    output: {
+      error: `Unknown tool: ${toolCall.function.name}`,
+    },
+    events: [],
+  };
+}
+
+async function runAssistantLoop(
+  deps: AiAgentDeps,
+  session: AgentSession,
+  onEvent?: (event: AgentStreamEvent) => void,
+  images: LlmImage[] = [],
+): Promise<{ status: AgentStatus; events: AgentEvent[] }> {
+  const events: AgentEvent[] = [];
+  const pushEvents = (...nextEvents: AgentEvent[]) => {
+    events.push(...nextEvents);
+    nextEvents.forEach((event) => onEvent?.(event));
+  };
+
+  for (let step = 0; step < 8; step += 1) {
+    // Photos go out with the first call only; later steps rely on the text reference.
+    const stepImages = step === 0 ? images : [];
+    const turn = await deps.llm.complete({
+      messages: session.conversation,
+      ...(stepImages.length > 0 ? { images: stepImages } : {}),
+      tools: agentTools,
+      userId: session.userId,
+      sessionId: session.id,
+      onTextDelta: onEvent ? (text) => onEvent({ kind: "assistant-delta", text }) : undefined,
+    });
+
+    incrementRequestField("llmCalls");
+    if (turn.usage) {
+      const model = (stepImages.length > 0 ? deps.llm.visionModel : undefined) ?? deps.llm.model;
+      const labels = { provider: deps.llm.id, model };
+      incrementRequestField("llmPromptTokens", turn.usage.promptTokens);
+      incrementRequestField("llmCompletionTokens", turn.usage.completionTokens);
+      llmTokensTotal.inc({ ...labels, type: "prompt" }, turn.usage.promptTokens);
+      llmTokensTotal.inc({ ...labels, type: "completion" }, turn.usage.completionTokens);
+    }
+
+    if (turn.assistantText.trim()) {
+      pushEvents({
+        kind: "assistant",
+        text: turn.assistantText,
+      });
+    }
+
+    session.conversation.push({
+      role: "assistant",
+      content: turn.assistantText.trim() ? turn.assistantText : null,
+      ...(turn.toolCalls.length > 0 ? { tool_calls: turn.toolCalls } : {}),
+    });
+
+    if (turn.toolCalls.length === 0) {
+      return {
+        status: "ready",
+        events,
+      };
+    }
+
+    for (const [index, toolCall] of turn.toolCalls.entries()) {
+      const toolResult = await runToolCall(deps, session, toolCall);
+      pushEvents(...toolResult.events);
+
+      if (toolResult.pauseForApproval) {
+        // Every tool call needs a reply before the conversation can continue, so the
+        // calls after the paused one are answered now and the model retries them later.
+        for (const skipped of turn.toolCalls.slice(index + 1)) {
+          session.conversation.push({
+            role: "tool",
+            tool_call_id: skipped.id,
+            content: JSON.stringify({ error: skippedAfterApprovalError }),
+          });
+        }
+
+        return {
+          status: "awaiting-approval",
+          events,
+        };
+      }
+
+      session.conversation.push({
+        role: "tool",
+        tool_call_id: toolCall.id,
+        content: JSON.stringify(toolResult.output ?? {}),
+      });
+    }
+  }
+
+  return {
+    status: "ready",
+    events,
+  };
+}
+
+async function handleAiSession(deps: AiAgentDeps, request: Request, user: AuthenticatedUser): Promise<Response> {
+  const body = await parseJsonBody(request);
+
+  const recentLogHints = parseRecentLogHints(body?.recentLogs);
+  const todayDateKey = parseTodayDateKey(body?.today);
+  const recentLogContextPrompt = buildRecentLogContextPrompt(recentLogHints);
+  const transcriptionPrompt = buildRecentLogTranscriptionPrompt(recentLogHints);
+  const customFoods = parseCustomFoods(body?.customFoods);
+
+  try {
+    await deps.sessions.prune();
+    const session = await deps.sessions.create({
+      userId: user.userId,
+      conversation: [
+        {
+          role: "system",
+          content: todayDateKey ? `${systemPrompt} Today is ${todayDateKey}.` : systemPrompt,
+        },
+        ...(recentLogContextPrompt
+          ? [
+              {
+                role: "system" as const,
+                content: recentLogContextPrompt,
+              },
+            ]
+          : []),
+      ],
+      transcriptionPrompt,
+      customFoods,
+      logEntries: toSessionLogEntries(recentLogHints),
+      dailySummary: parseDailySummary(body?.dailySummary),
+    });
+
+    return json({
+      sessionId: session.id,
+      status: "ready",
+    });
+  } catch (error) {
+    annotateRequest(errorFields(error));
+    return json({ error: "session_unavailable", message: "Sessions are unavailable. Try again shortly." }, 503);
+  }
+}
+
+async function parseAiTurnRequest(request: Request): Promise<AiTurnRequest | Response> {
+  let body: Record<string, unknown> | null;
+  let audioFile: File | null = null;
+  let photoFile: File | null = null;
+
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return json({ error: "Invalid multipart body" }, 400);
+    }
+
+    const actionType = asString(formData.get("actionType"));
+    let action: Record<string, unknown> = { type: actionType };
+
+    if (actionType === "user-message") {
+      const message = asString(formData.get("message"))?.trim();
+      action = {
+        type: "user-message",
+        ...(message ? { message } : {}),
+      };
+
+      const audioField = formData.get("audio");
+      if (audioField instanceof File && audioField.size > 0) {
+        audioFile = audioField;
+      }
+
+      const photoField = formData.get("photo");
+      if (photoField instanceof File && photoField.size > 0) {
+        if (!photoTypes.includes(photoField.type)) {
+          return json({ error: "photo must be a JPEG, PNG or WebP image" }, 400);
+        }
+
+        if (photoField.size > maxPhotoBytes) {
+          return json({ error: "photo is too large (max 8 MB)" }, 413);
+        }
+
+        photoFile = photoField;
+      }
+    } else if (actionType === "approval") {
+      action = {
+        type: "approval",
+        toolCallId: asString(formData.get("toolCallId")) ?? "",
+        suggestionId: asString(formData.get("suggestionId")) ?? "",
+        approved: formData.get("approved") === "true",
+      };
+    } else if (actionType === "approval-batch") {
+      // Form fields are flat, so `decisions` arrives as a JSON string.
+      const approved = asString(formData.get("approved"));
+      const decisionsField = asString(formData.get("decisions"));
+      let decisions: unknown = [];
+      if (decisionsField) {
+        try {
+          decisions = JSON.parse(decisionsField);
+        } catch {
+          return json({ error: "decisions must be a JSON array" }, 400);
+        }
+      }
+
+      action = {
+        type: "approval-batch",
+        toolCallId: asString(formData.get("toolCallId")) ?? "",
+        ...(approved ? { approved: approved === "true" } : {}),
+        decisions,
+      };
+    }
+
+    body = { sessionId: asString(formData.get("sessionId")), action };
+  } else {
+    body = await parseJsonBody(request);
+  }
+
+  const validated = validate(aiTurnBodySchema, body ?? {});
+  if ("failure" in validated) {
+    return failureResponse(validated.failure);
+  }
+
+  const { sessionId, action } = validated.data;
+  return { sessionId, action, actionType: action.type, audioFile, photoFile };
+}
+
+async function loadAiTurnSession(
+  deps: AiAgentDeps,
+  turn: AiTurnRequest,
+  userId: string,
+): Promise<AgentSession | Response> {
+  let session: AgentSession | null;
+  try {
+    session = await deps.sessions.load(turn.sessionId, userId);
+  } catch (error) {
+    annotateRequest(errorFields(error));
+    return json({ error: "session_unavailable", message: "Sessions are unavailable. Try again shortly." }, 503);
+  }
+
+  if (!session) {
+    return json({ error: "Session not found for this user" }, 403);
+  }
+
+  const decision = await deps.rateLimiter.consume("aiTurn", `user:${userId}`);
+  return decision.allowed ? session : failureResponse(rateLimitFailure(decision, "aiTurn"));
+}
+
+async function executeAiTurn(
+  deps: AiAgentDeps,
+  session: AgentSession,
+  turn: AiTurnRequest,
+  onEvent?: (event: AgentStreamEvent) => void,
+): Promise<{ result: AiTurnResult } | { failure: HttpFailure }> {
+  const { action, actionType, audioFile, photoFile } = turn;
+  const rateLimitSubject = `user:${session.userId}`;
+  annotateRequest({ sessionId: session.id, actionType });
+  const fail = (status: number, error: string) => ({ failure: { status, body: { error } } });
+
+  // Another request (or replica) may have advanced the session while this turn ran.
+  const persistTurn = async (result: AiTurnResult) =>
+    (await deps.sessions.save(session))
+      ? { result }
+      : {
+          failure: {
+            status: 409,
+            body: { error: "session_conflict", message: "Session was updated by another request. Retry." },
+          },
+        };
+
+  if (actionType === "user-message") {
+    // Checked first so a blocked turn never spends transcription budget.
+    if (session.pendingApprovals.size > 0) {
+      return fail(409, "Resolve pending approvals before sending a new message.");
+    }
+
+    let message = asString(action.message)?.trim() ?? "";
+    if (!message && audioFile) {
+      // Audio length is only known after transcription: require a non-empty budget
+      // up front, then charge the remaining seconds once Groq reports the duration.
+      const audioDecision = await deps.rateLimiter.consume("transcriptionSeconds", rateLimitSubject);
+      if (!audioDecision.allowed) {
+        return { failure: rateLimitFailure(audioDecision, "transcriptionSeconds") };
+      }
+
+      const transcription = await deps.transcribe(audioFile, session.transcriptionPrompt);
+      await deps.rateLimiter.charge("transcriptionSeconds", rateLimitSubject, transcription.durationSeconds - 1);
+      transcriptionAudioSecondsTotal.inc({}, transcription.durationSeconds);
+      annotateRequest({ audioSeconds: transcription.durationSeconds });
+      message = transcription.text;
+    }
+
+    if (!message && !photoFile) {
+      return fail(400, "action.message, audio or photo is required");
+    }
+
+    const images: LlmImage[] = [];
+    if (photoFile) {
+      if (!deps.llm.visionModel) {
+        return fail(501, "Photos are not supported by the configured model.");
+      }
+
+      // Sent to the model once; the stored conversation keeps a text reference.
+      const base64 = Buffer.from(await photoFile.arrayBuffer()).toString("base64");
+      images.push({ url: `data:${photoFile.type};base64,${base64}` });
+      annotateRequest({ photoBytes: photoFile.size });
+      message ||= "Log the food in this photo.";
+    }
+
+    session.conversation.push({
+      role: "user",
+      content: images.length > 0 ? `${message}\n\n${mealPhotoNote}` : message,
+    });
+
+    const loopResult = await runAssistantLoop(deps, session, onEvent, images);
+
+    return persistTurn({
+      status: loopResult.status,
+      events: loopResult.events,
+      resolvedUserMessage: message,
+    });
+  }
+
+  // Resumes the loop once every suggestion of the approval request has a decision.
+  const resolveApprovals = async (toolCallId: string, nextSuggestions: PendingApprovalSuggestion[]) => {
+    if (!nextSuggestions.every((suggestion) => Boolean(suggestion.output))) {
+      session.pendingApprovals.set(toolCallId, nextSuggestions);
+      return persistTurn({
+        status: "awaiting-approval",
+        events: [],
+      });
+    }
+
+    session.pendingApprovals.delete(toolCallId);
+    session.conversation.push({
+      role: "tool",
+      tool_call_id: toolCallId,
+      content: JSON.stringify({
+        decisions: nextSuggestions.map(toApprovalDecision),
+      }),
+    });
+
+    const loopResult = await runAssistantLoop(deps, session, onEvent);
+
+    return persistTurn({
+      status: loopResult.status,
+      events: loopResult.events,
+    });
+  };
+
+  if (actionType === "approval") {
+    const toolCallId = asString(action.toolCallId)?.trim() ?? "";
+    const suggestionId = asString(action.suggestionId)?.trim() ?? "";
+    const approved = action.approved === true;
+
+    if (!toolCallId || !suggestionId) {
+      return fail(400, "action.toolCallId and action.suggestionId are required");
+    }
+
+    const pendingSuggestions = session.pendingApprovals.get(toolCallId);
+    if (!pendingSuggestions) {
+      return fail(409, "No pending approval request for tool call.");
+    }
+
+    const targetIndex = pendingSuggestions.findIndex((suggestion) => suggestion.suggestionId === suggestionId);
+    if (targetIndex === -1) {
+      return fail(404, "Suggestion not found.");
+    }
+
+    if (pendingSuggestions[targetIndex].output) {
+      return {
+        result: {
+          status: "awaiting-approval",
+          events: [],
+        },
+      };
+    }
+
+    const decided = decideSuggestion(pendingSuggestions[targetIndex], approved, action.adjustments);
+    if ("error" in decided) {
+      return fail(400, decided.error);
+    }
+
+    if (approved) {
+      applyApprovedLogChange(session, decided.suggestion);
+    }
+
+    return resolveApprovals(
+      toolCallId,
+      pendingSuggestions.map((suggestion, index) => (index === targetIndex ? decided.suggestion : suggestion)),
+    );
+  }
+
+  if (actionType === "approval-batch") {
+    const toolCallId = asString(action.toolCallId)?.trim() ?? "";
+    if (!toolCallId) {
+      return fail(400, "action.toolCallId is required");
+    }
+
+    const defaultApproved = typeof action.approved === "boolean" ? action.approved : undefined;
+    const rawDecisions = action.decisions ?? [];
+    if (!Array.isArray(rawDecisions)) {
+      return fail(400, "action.decisions must be an array");
+    }
+
+    const pendingSuggestions = session.pendingApprovals.get(toolCallId);
+    if (!pendingSuggestions) {
+      return fail(409, "No pending approval request for tool call.");
+    }
+
+    const decisionsById = new Map<string, { approved: boolean; adjustments: unknown }>();
+    for (const candidate of rawDecisions) {
+      const decision = asRecord(candidate);
+      const suggestionId = asString(decision?.suggestionId)?.trim() ?? "";
+      if (!decision || typeof decision.approved !== "boolean") {
+        return fail(400, "Each decision needs a suggestionId and approved.");
+      }
+
+      if (!pendingSuggestions.some((suggestion) => suggestion.suggestionId === suggestionId)) {
+        return fail(404, "Suggestion not found.");
+      }
+
+      if (decisionsById.has(suggestionId)) {
+        return fail(400, `Duplicate decision for suggestion ${suggestionId}.`);
+      }
+
+      decisionsById.set(suggestionId, { approved: decision.approved, adjustments: decision.adjustments });
+    }
+
+    // Validate every decision before touching the session so a bad item leaves the batch undecided.
+    const nextSuggestions: PendingApprovalSuggestion[] = [];
+    for (const suggestion of pendingSuggestions) {
+      if (suggestion.output) {
+        nextSuggestions.push(suggestion);
+        continue;
+      }
+
+      const decision = decisionsById.get(suggestion.suggestionId);
+      const approved = decision?.approved ?? defaultApproved;
+      if (approved === undefined) {
+        return fail(400, "action.approved is required unless every pending suggestion has a decision.");
+      }
+
+      const decided = decideSuggestion(suggestion, approved, decision?.adjustments);
+      if ("error" in decided) {
+        return fail(400, `${suggestion.suggestionId}: ${decided.error}`);
+      }
+
+      nextSuggestions.push(decided.suggestion);
+    }
+
+    nextSuggestions.forEach((suggestion, index) => {
+      if (suggestion.output?.approved && !pendingSuggestions[index].output) {
+        applyApprovedLogChange(session, suggestion);
+      }
+    });
+
+    return resolveApprovals(toolCallId, nextSuggestions);
+  }
+
+  return fail(400, `Unsupported action type: ${actionType}`);
+}
+
+/**
+ * Streams a turn as server-sent events: `assistant-delta` while the model writes,
+ * `assistant`, `search` and `approval` as they complete, then a final `done` with
+ * the turn status or `error` with the same body `/ai/turn` would have returned.
+ * Every payload carries its event name in `kind`.
+ */
+function streamAiTurn(deps: AiAgentDeps, session: AgentSession, turn: AiTurnRequest): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AiTurnStreamEvent) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(formatSseEvent(event.kind, event)));
+        }
+      };
+
+      try {
+        const outcome = await executeAiTurn(deps, session, turn, send);
+        if ("failure" in outcome) {
+          send({ kind: "error", status: outcome.failure.status, ...outcome.failure.body });
+        } else {
+          send({
+            kind: "done",
+            status: outcome.result.status,
+            resolvedUserMessage: outcome.result.resolvedUserMessage,
+          });
+        }
+      } catch (error) {
+        annotateRequest(errorFields(error));
+        send({ kind: "error", status: 502, error: "ai_turn_failed" });
+      } finally {
+        if (!closed) {
+          controller.close();
+        }
+      }
+    },
+    // A disconnected client must not abort the turn: it keeps running and is saved.
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+export function createAiAgent(deps: AiAgentDeps): AiAgent {
+  return {
+    handleSession: (request, user) => handleAiSession(deps, request, user),
+    async handleTurn(request, user, options = {}) {
+      const turn = await parseAiTurnRequest(request);
+      if (turn instanceof Response) {
+        return turn;
+      }
+
+      const session = await loadAiTurnSession(deps, turn, user.userId);
+      if (session instanceof Response) {
+        return session;
+      }
+
+      if (options.stream) {
+        return streamAiTurn(deps, session, turn);
+      }
+
+      try {
+        const outcome = await executeAiTurn(deps, session, turn);
+        return "failure" in outcome ? failureResponse(outcome.failure) : json(outcome.result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return json({ error: "ai_turn_failed", message }, 502);
+      }
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "bun:test";
+import { matchCustomFoods, parseCustomFoods } from "./ai-custom-foods";
+
+describe("ai-custom-foods", () => {
+  it("parses custom foods and drops invalid rows and nutrition values", () => {
+    const foods = parseCustomFoods([
+      {
+        name: "  Overnight   oats ",
+        brand: "Homemade",
+        serving: "1 jar",
+        nutrition: { calories: 420, protein: "22", fat: -3, carbs: "nope" },
+      },
+      { name: "" },
+      null,
+      "Banana",
+    ]);
+
+    expect(foods).toEqual([
+      {
+        name: "Overnight oats",
+        brand: "Homemade",
+        serving: "1 jar",
+        nutrition: { calories: 420, protein: 22 },
+      },
+    ]);
+  });
+
+  it("matches every query token and ranks name matches first", () => {
+    const foods = parseCustomFoods([
+      { name: "Protein pancakes", brand: "Chicken shack" },
+      { name: "Chicken rice bowl", brand: "Homemade" },
+      { name: "Chicken rice bowl with extra avocado and salsa" },
+      { name: "Lentil soup" },
+    ]);
+
+    const matches = matchCustomFoods(foods, "chicken", 5);
+
+    expect(matches.map((food) => food.name)).toEqual([
+      "Chicken rice bowl",
+      "Chicken rice bowl with extra avocado and salsa",
+      "Protein pancakes",
+    ]);
+    expect(matchCustomFoods(foods, "chicken soup", 5)).toEqual([]);
+    expect(matchCustomFoods(foods, "chicken", 1)).toHaveLength(1);
+  });
+});
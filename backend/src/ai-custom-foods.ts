@@ -0,0 +1,137 @@
+import { matchesSearchTokens, normalizeSearchText, searchTokens } from "./shared/search-text";
+
+export type CustomFoodNutrition = {
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+  sugars?: number;
+  sodiumMg?: number;
+  potassiumMg?: number;
+};
+
+export type CustomFood = {
+  name: string;
+  brand?: string;
+  serving?: string;
+  nutrition?: CustomFoodNutrition;
+};
+
+const maxCustomFoods = 200;
+const nutritionKeys = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+  "sugars",
+  "sodiumMg",
+  "potassiumMg",
+] as const;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function asTrimmedString(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const normalized = value.replace(/\s+/g, " ").trim();
+  if (!normalized) {
+    return undefined;
+  }
+
+  return normalized.slice(0, maxLength);
+}
+
+function asNonNegativeNumber(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed) || parsed < 0) {
+    return undefined;
+  }
+
+  return parsed;
+}
+
+function parseNutrition(raw: unknown): CustomFoodNutrition | undefined {
+  const record = asRecord(raw);
+  if (!record) {
+    return undefined;
+  }
+
+  const nutrition: CustomFoodNutrition = {};
+  for (const key of nutritionKeys) {
+    const value = asNonNegativeNumber(record[key]);
+    if (value !== undefined) {
+      nutrition[key] = value;
+    }
+  }
+
+  return Object.keys(nutrition).length > 0 ? nutrition : undefined;
+}
+
+export function parseCustomFoods(raw: unknown): CustomFood[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const parsed: CustomFood[] = [];
+
+  for (const item of raw) {
+    if (parsed.length >= maxCustomFoods) {
+      break;
+    }
+
+    const record = asRecord(item);
+    if (!record) {
+      continue;
+    }
+
+    const name = asTrimmedString(record.name, 120);
+    if (!name) {
+      continue;
+    }
+
+    parsed.push({
+      name,
+      brand: asTrimmedString(record.brand, 80),
+      serving: asTrimmedString(record.serving, 80),
+      nutrition: parseNutrition(record.nutrition),
+    });
+  }
+
+  return parsed;
+}
+
+/**
+ * Returns custom foods whose name/brand/serving contain every query token,
+ * ranked so name matches and shorter names come first.
+ */
+export function matchCustomFoods(foods: CustomFood[], query: string, limit: number): CustomFood[] {
+  const tokens = searchTokens(query);
+  if (tokens.length === 0 || limit <= 0) {
+    return [];
+  }
+
+  const scored: { food: CustomFood; score: number }[] = [];
+
+  for (const food of foods) {
+    if (!matchesSearchTokens([food.name, food.brand, food.serving], tokens)) {
+      continue;
+    }
+
+    const name = normalizeSearchText(food.name);
+    const nameHits = tokens.filter((token) => name.includes(token)).length;
+    scored.push({ food, score: nameHits * 1000 - name.length });
+  }
+
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(0, limit).map((entry) => entry.food);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "bun:test";
+import { addToDailySummary, describeDailySummary, parseDailySummary } from "./ai-daily-summary";
+
+const goals = { calories: 2000, protein: 150, carbs: 200, fat: 67 };
+
+describe("ai-daily-summary", () => {
+  it("requires a date, positive calorie goal and complete totals", () => {
+    const totals = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+    expect(parseDailySummary({ dateKey: "2026-02-22", goals, totals })).toEqual({ dateKey: "2026-02-22", goals, totals });
+    expect(parseDailySummary({ dateKey: "today", goals, totals })).toBeNull();
+    expect(parseDailySummary({ dateKey: "2026-02-22", goals: { ...goals, calories: 0 }, totals })).toBeNull();
+    expect(parseDailySummary({ dateKey: "2026-02-22", goals, totals: { calories: 10 } })).toBeNull();
+  });
+
+  it("only counts nutrition eaten on the summary's day and never goes below zero", () => {
+    const summary = parseDailySummary({
+      dateKey: "2026-02-22",
+      goals,
+      totals: { calories: 500, protein: 20, carbs: 60, fat: 10 },
+    });
+
+    const withChicken = addToDailySummary(summary, "2026-02-22", { calories: 165, protein: 31, fat: 3.6 }, 2);
+    expect(describeDailySummary(withChicken!)).toEqual({
+      dateKey: "2026-02-22",
+      goals,
+      eaten: { calories: 830, protein: 82, carbs: 60, fat: 17 },
+      remaining: { calories: 1170, protein: 68, carbs: 140, fat: 50 },
+    });
+
+    expect(addToDailySummary(summary, "2026-02-21", { calories: 165 }, 1)).toBe(summary);
+    expect(addToDailySummary(summary, "2026-02-22", { calories: 900 }, -1)?.totals.calories).toBe(0);
+  });
+});
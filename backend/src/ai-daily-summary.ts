@@ -0,0 +1,93 @@
+import { asRecord } from "./ai-log-context";
+
+export type MacroTotals = {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+};
+
+/** The user's goals and what they have eaten on `dateKey`, as sent by the client when the session starts. */
+export type DailySummary = {
+  dateKey: string;
+  goals: MacroTotals;
+  totals: MacroTotals;
+};
+
+const macroKeys = ["calories", "protein", "carbs", "fat"] as const;
+
+function parseMacroTotals(raw: unknown, allowZeroCalories: boolean): MacroTotals | null {
+  const record = asRecord(raw);
+  if (!record) {
+    return null;
+  }
+
+  const totals: Partial<MacroTotals> = {};
+  for (const key of macroKeys) {
+    const value = record[key];
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return null;
+    }
+    totals[key] = value;
+  }
+
+  return allowZeroCalories || (totals.calories ?? 0) > 0 ? (totals as MacroTotals) : null;
+}
+
+export function parseDailySummary(raw: unknown): DailySummary | null {
+  const record = asRecord(raw);
+  const dateKey = typeof record?.dateKey === "string" ? record.dateKey.trim() : "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) {
+    return null;
+  }
+
+  const goals = parseMacroTotals(record?.goals, false);
+  const totals = parseMacroTotals(record?.totals, true);
+  return goals && totals ? { dateKey, goals, totals } : null;
+}
+
+/**
+ * Adds `nutrition * factor` to the totals when it was eaten on the summary's
+ * day; pass a negative factor to take an entry back out.
+ */
+export function addToDailySummary(
+  summary: DailySummary | null,
+  dateKey: string | undefined,
+  nutrition: Partial<MacroTotals> | undefined,
+  factor: number,
+): DailySummary | null {
+  if (!summary || !nutrition || dateKey !== summary.dateKey) {
+    return summary;
+  }
+
+  const totals = { ...summary.totals };
+  for (const key of macroKeys) {
+    totals[key] = Math.max(0, totals[key] + (nutrition[key] ?? 0) * factor);
+  }
+
+  return { ...summary, totals };
+}
+
+function roundTotals(totals: MacroTotals): MacroTotals {
+  return {
+    calories: Math.round(totals.calories),
+    protein: Math.round(totals.protein),
+    carbs: Math.round(totals.carbs),
+    fat: Math.round(totals.fat),
+  };
+}
+
+/** `getDailySummary` output: goals, eaten and remaining, rounded to whole kcal and grams. */
+export function describeDailySummary(summary: DailySummary) {
+  const remaining = {} as MacroTotals;
+  for (const key of macroKeys) {
+    remaining[key] = summary.goals[key] - summary.totals[key];
+  }
+
+  return {
+    dateKey: summary.dateKey,
+    goals: roundTotals(summary.goals),
+    eaten: roundTotals(summary.totals),
+    remaining: roundTotals(remaining),
+  };
+}
@@ -3,6 +3,8 @@ import {
   buildRecentLogContextPrompt,
   buildRecentLogTranscriptionPrompt,
   parseRecentLogHints,
+  parseTodayDateKey,
+  toSessionLogEntries,
 } from "./ai-log-context";
 
 describe("ai-log-context", () => {
@@ -36,6 +38,25 @@ describe("ai-log-context", () => {
     expect(prompt ?? "").toContain("Ena");
   });
 
+  it("assigns log IDs to listed entries the client can identify", () => {
+    const recentLogs = parseRecentLogHints([
+      { entryId: "co_old", foodName: "Coffee", portion: 1, calories: 2, createdAt: 1 },
+      { foodName: "Toast", createdAt: 2 },
+      { entryId: "co_new", foodName: "Banana", meal: "snacks", portion: 0.5, calories: 52.5, createdAt: 3 },
+    ]);
+
+    expect(toSessionLogEntries(recentLogs).map((entry) => [entry.logId, entry.entryId])).toEqual([
+      ["l1", "co_new"],
+      ["l2", "co_old"],
+    ]);
+
+    const prompt = buildRecentLogContextPrompt(recentLogs);
+    expect(prompt ?? "").toContain("- [l1] snacks | Banana | portion 0.5 | 53 kcal");
+    expect(prompt ?? "").toContain("- Toast");
+    expect(parseTodayDateKey("2026-02-22")).toBe("2026-02-22");
+    expect(parseTodayDateKey("22/02/2026")).toBeNull();
+  });
+
   it("builds a short transcription prompt with likely phrases and recent names", () => {
     const recentLogs = parseRecentLogHints([
       {
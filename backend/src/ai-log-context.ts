@@ -1,17 +1,13 @@
-export type RecentLogHint = {
-  foodName: string;
-  meal?: string;
-  brand?: string;
-  serving?: string;
-  createdAt?: number;
-  dateKey?: string;
-};
+import type { RecentLogHint, SessionLogEntry } from "./shared/ai-stream";
+
+const dateKeyPattern = /^\d{4}-\d{2}-\d{2}$/;
 
 const maxRecentLogHints = 120;
 const maxDisplayHints = 40;
 const maxTranscriptionHints = 8;
 
-function asRecord(value: unknown): Record<string, unknown> | null {
+/** `value` as a plain object, or null for arrays and primitives. */
+export function asRecord(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
     return null;
   }
@@ -76,23 +72,79 @@ export function parseRecentLogHints(raw: unknown): RecentLogHint[] {
       serving: asTrimmedString(record.serving, 80),
       createdAt: asFiniteNumber(record.createdAt),
       dateKey: asTrimmedString(record.dateKey, 24),
+      entryId: asTrimmedString(record.entryId, 80),
+      portion: asFiniteNumber(record.portion),
+      calories: asFiniteNumber(record.calories),
+      protein: asFiniteNumber(record.protein),
+      carbs: asFiniteNumber(record.carbs),
+      fat: asFiniteNumber(record.fat),
     });
   }
 
   parsed.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+
+  let nextLogId = 1;
+  for (const hint of parsed.slice(0, maxDisplayHints)) {
+    if (hint.entryId) {
+      hint.logId = `l${nextLogId}`;
+      nextLogId += 1;
+    }
+  }
+
   return parsed;
 }
 
+export function toSessionLogEntries(hints: RecentLogHint[]): SessionLogEntry[] {
+  return hints.filter((hint): hint is SessionLogEntry => Boolean(hint.logId && hint.entryId));
+}
+
+/** The entry after an approved edit; a new portion rescales its nutrition when the old portion is known. */
+export function applyLogEntryChanges(
+  entry: SessionLogEntry,
+  changes: { portion?: number; meal?: string; dateKey?: string },
+): SessionLogEntry {
+  const updated = { ...entry, ...changes };
+  if (changes.portion === undefined || !entry.portion || entry.portion <= 0) {
+    return updated;
+  }
+
+  const scale = changes.portion / entry.portion;
+  for (const key of ["calories", "protein", "carbs", "fat"] as const) {
+    const value = entry[key];
+    if (value !== undefined) {
+      updated[key] = value * scale;
+    }
+  }
+
+  return updated;
+}
+
+/** The client's local date (`YYYY-MM-DD`), so "yesterday" can be resolved to a `dateKey`. */
+export function parseTodayDateKey(raw: unknown): string | null {
+  const value = asTrimmedString(raw, 10);
+  return value && dateKeyPattern.test(value) ? value : null;
+}
+
+export function isDateKey(value: string): boolean {
+  return dateKeyPattern.test(value);
+}
+
 export function buildRecentLogContextPrompt(hints: RecentLogHint[]): string | null {
   if (hints.length === 0) {
     return null;
   }
 
   const lines = hints.slice(0, maxDisplayHints).map((hint) => {
-    const parts = [hint.dateKey, hint.meal, hint.foodName, hint.brand, hint.serving].filter(
-      (value): value is string => Boolean(value && value.trim()),
-    );
-    return `- ${parts.join(" | ")}`;
+    const parts = [
+      hint.dateKey,
+      hint.meal,
+      hint.foodName,
+      hint.brand,
+      hint.serving,
+      hint.portion !== undefined ? `portion ${hint.portion}` : undefined,
+      hint.calories !== undefined ? `${Math.round(hint.calories)} kcal` : undefined,
+    ].filter((value): value is string => Boolean(value && value.trim()));
+    return `- ${hint.logId ? `[${hint.logId}] ` : ""}${parts.join(" | ")}`;
   });
 
   if (lines.length === 0) {
@@ -104,6 +156,7 @@ export function buildRecentLogContextPrompt(hints: RecentLogHint[]): string | nu
     "Use this list to resolve likely ASR/transcription mistakes and map to likely foods before searching.",
     "Examples: 'laga banana' -> banana; incorrect ASR 'anana protein scoop' likely means intended query 'ena protein scoop' -> the matching Ena whey/protein item from recent logs.",
     "If a phrase likely contains multiple foods, split it and search each likely item.",
+    "Entries with a [log ID] can be changed with requestLogEdits or removed with requestLogDeletions.",
     ...lines,
   ].join("\n");
 }
@@ -0,0 +1,166 @@
+import { and, asc, eq, lt } from "drizzle-orm";
+import {
+  type AgentSession,
+  type AiSessionStore,
+  type NewAiSession,
+  createAgentSession,
+  maxAiSessionIdleMs,
+} from "./ai-session";
+import { db } from "./db";
+import { aiSessionMessages, aiSessionPendingApprovals, aiSessionSearchResults, aiSessions } from "./db/schema";
+
+async function createAiSession(params: NewAiSession): Promise<AgentSession> {
+  const now = new Date();
+  const session = createAgentSession(params, now.getTime());
+
+  await db.transaction(async (tx) => {
+    await tx.insert(aiSessions).values({
+      id: session.id,
+      userId: session.userId,
+      transcriptionPrompt: session.transcriptionPrompt,
+      customFoods: session.customFoods,
+      logEntries: session.logEntries,
+      dailySummary: session.dailySummary,
+      searchResultCounter: session.searchResultCounter,
+      revision: session.revision,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    if (session.conversation.length > 0) {
+      await tx
+        .insert(aiSessionMessages)
+        .values(session.conversation.map((message, position) => ({ sessionId: session.id, position, message })));
+    }
+  });
+
+  return session;
+}
+
+/** Loads a session owned by `userId`; idle sessions past the cutoff are treated as missing. */
+async function loadAiSession(sessionId: string, userId: string, now = Date.now()): Promise<AgentSession | null> {
+  const [row] = await db
+    .select()
+    .from(aiSessions)
+    .where(and(eq(aiSessions.id, sessionId), eq(aiSessions.userId, userId)))
+    .limit(1);
+
+  if (!row || now - row.updatedAt.getTime() > maxAiSessionIdleMs) {
+    return null;
+  }
+
+  const [messageRows, searchResultRows, approvalRows] = await Promise.all([
+    db
+      .select({ message: aiSessionMessages.message })
+      .from(aiSessionMessages)
+      .where(eq(aiSessionMessages.sessionId, sessionId))
+      .orderBy(asc(aiSessionMessages.position)),
+    db
+      .select({ resultId: aiSessionSearchResults.resultId, food: aiSessionSearchResults.food })
+      .from(aiSessionSearchResults)
+      .where(eq(aiSessionSearchResults.sessionId, sessionId)),
+    db
+      .select({ toolCallId: aiSessionPendingApprovals.toolCallId, suggestions: aiSessionPendingApprovals.suggestions })
+      .from(aiSessionPendingApprovals)
+      .where(eq(aiSessionPendingApprovals.sessionId, sessionId))
+      .orderBy(asc(aiSessionPendingApprovals.createdAt)),
+  ]);
+
+  return {
+    id: row.id,
+    userId: row.userId,
+    conversation: messageRows.map((messageRow) => messageRow.message),
+    transcriptionPrompt: row.transcriptionPrompt,
+    customFoods: row.customFoods,
+    logEntries: row.logEntries,
+    dailySummary: row.dailySummary,
+    searchResultCounter: row.searchResultCounter,
+    searchResultsByLocalId: new Map(searchResultRows.map((resultRow) => [resultRow.resultId, resultRow.food])),
+    pendingApprovals: new Map(approvalRows.map((approvalRow) => [approvalRow.toolCallId, approvalRow.suggestions])),
+    updatedAt: row.updatedAt.getTime(),
+    revision: row.revision,
+    persistedMessageCount: messageRows.length,
+    persistedSearchResultCount: searchResultRows.length,
+  };
+}
+
+/**
+ * Appends new messages and search results and replaces pending approvals,
+ * log entries and the daily summary. Returns false when another request saved
+ * the session since it was loaded; the caller should report a conflict instead
+ * of overwriting that turn.
+ */
+async function saveAiSession(session: AgentSession): Promise<boolean> {
+  const updatedAt = new Date();
+
+  const saved = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(aiSessions)
+      .set({
+        logEntries: session.logEntries,
+        dailySummary: session.dailySummary,
+        searchResultCounter: session.searchResultCounter,
+        revision: session.revision + 1,
+        updatedAt,
+      })
+      .where(and(eq(aiSessions.id, session.id), eq(aiSessions.revision, session.revision)))
+      .returning({ id: aiSessions.id });
+
+    if (!updated) {
+      return false;
+    }
+
+    const newMessages = session.conversation.slice(session.persistedMessageCount);
+    if (newMessages.length > 0) {
+      await tx.insert(aiSessionMessages).values(
+        newMessages.map((message, index) => ({
+          sessionId: session.id,
+          position: session.persistedMessageCount + index,
+          message,
+        })),
+      );
+    }
+
+    const newSearchResults = [...session.searchResultsByLocalId].slice(session.persistedSearchResultCount);
+    if (newSearchResults.length > 0) {
+      await tx
+        .insert(aiSessionSearchResults)
+        .values(newSearchResults.map(([resultId, food]) => ({ sessionId: session.id, resultId, food })))
+        .onConflictDoNothing();
+    }
+
+    await tx.delete(aiSessionPendingApprovals).where(eq(aiSessionPendingApprovals.sessionId, session.id));
+    if (session.pendingApprovals.size > 0) {
+      await tx.insert(aiSessionPendingApprovals).values(
+        [...session.pendingApprovals].map(([toolCallId, suggestions]) => ({
+          sessionId: session.id,
+          toolCallId,
+          suggestions,
+        })),
+      );
+    }
+
+    return true;
+  });
+
+  if (saved) {
+    session.revision += 1;
+    session.updatedAt = updatedAt.getTime();
+    session.persistedMessageCount = session.conversation.length;
+    session.persistedSearchResultCount = session.searchResultsByLocalId.size;
+  }
+
+  return saved;
+}
+
+/** Deletes idle sessions; messages, search results and approvals cascade. */
+async function pruneAiSessions(now = Date.now()): Promise<void> {
+  await db.delete(aiSessions).where(lt(aiSessions.updatedAt, new Date(now - maxAiSessionIdleMs)));
+}
+
+export const postgresAiSessionStore: AiSessionStore = {
+  create: createAiSession,
+  load: (sessionId, userId) => loadAiSession(sessionId, userId),
+  save: saveAiSession,
+  prune: () => pruneAiSessions(),
+};
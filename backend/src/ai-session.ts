@@ -0,0 +1,125 @@
+import type { CustomFood } from "./ai-custom-foods";
+import type { DailySummary } from "./ai-daily-summary";
+import type { PendingApprovalSuggestion, SessionLogEntry } from "./shared/ai-stream";
+import type { SearchResultFood } from "./shared/search-contract";
+
+export type OpenRouterToolCall = {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+};
+
+export type OpenRouterMessage = {
+  role: "system" | "user" | "assistant" | "tool";
+  content?: string | null;
+  tool_calls?: OpenRouterToolCall[];
+  tool_call_id?: string;
+};
+
+export type AgentSession = {
+  id: string;
+  userId: string;
+  conversation: OpenRouterMessage[];
+  transcriptionPrompt: string | null;
+  customFoods: CustomFood[];
+  /** Log entries from the session context that `requestLogEdits` and `requestLogDeletions` may reference. */
+  logEntries: SessionLogEntry[];
+  /** Today's goals and totals for `getDailySummary`, kept current as approvals change the log. */
+  dailySummary: DailySummary | null;
+  searchResultCounter: number;
+  searchResultsByLocalId: Map<string, SearchResultFood>;
+  pendingApprovals: Map<string, PendingApprovalSuggestion[]>;
+  updatedAt: number;
+  /** Row version the session was loaded at; saves fail when another request saved first. */
+  revision: number;
+  /** Conversation messages and search results already in Postgres; only the tail is inserted on save. */
+  persistedMessageCount: number;
+  persistedSearchResultCount: number;
+};
+
+export type NewAiSession = {
+  userId: string;
+  conversation: OpenRouterMessage[];
+  transcriptionPrompt: string | null;
+  customFoods: CustomFood[];
+  logEntries: SessionLogEntry[];
+  dailySummary: DailySummary | null;
+};
+
+/** Where sessions live between turns; Postgres in production, memory in tests. */
+export type AiSessionStore = {
+  create(params: NewAiSession): Promise<AgentSession>;
+  /** Returns null for unknown, foreign or idle sessions. */
+  load(sessionId: string, userId: string): Promise<AgentSession | null>;
+  /** Returns false when another request saved the session since it was loaded. */
+  save(session: AgentSession): Promise<boolean>;
+  prune(): Promise<void>;
+};
+
+export const maxAiSessionIdleMs = 1000 * 60 * 60 * 8;
+
+export function createAgentSession(params: NewAiSession, now = Date.now()): AgentSession {
+  return {
+    id: crypto.randomUUID(),
+    userId: params.userId,
+    conversation: params.conversation,
+    transcriptionPrompt: params.transcriptionPrompt,
+    customFoods: params.customFoods,
+    logEntries: params.logEntries,
+    dailySummary: params.dailySummary,
+    searchResultCounter: 1,
+    searchResultsByLocalId: new Map<string, SearchResultFood>(),
+    pendingApprovals: new Map<string, PendingApprovalSuggestion[]>(),
+    updatedAt: now,
+    revision: 0,
+    persistedMessageCount: params.conversation.length,
+    persistedSearchResultCount: 0,
+  };
+}
+
+/**
+ * In-memory store with the same revision check as Postgres. Sessions are
+ * copied in and out so unsaved changes are lost like they would be in the database.
+ */
+export function createMemoryAiSessionStore(now = () => Date.now()): AiSessionStore {
+  const sessions = new Map<string, AgentSession>();
+
+  return {
+    async create(params) {
+      const session = createAgentSession(params, now());
+      sessions.set(session.id, structuredClone(session));
+      return session;
+    },
+    async load(sessionId, userId) {
+      const session = sessions.get(sessionId);
+      if (!session || session.userId !== userId || now() - session.updatedAt > maxAiSessionIdleMs) {
+        return null;
+      }
+
+      return structuredClone(session);
+    },
+    async save(session) {
+      const stored = sessions.get(session.id);
+      if (!stored || stored.revision !== session.revision) {
+        return false;
+      }
+
+      session.revision += 1;
+      session.updatedAt = now();
+      session.persistedMessageCount = session.conversation.length;
+      session.persistedSearchResultCount = session.searchResultsByLocalId.size;
+      sessions.set(session.id, structuredClone(session));
+      return true;
+    },
+    async prune() {
+      for (const [sessionId, session] of sessions) {
+        if (now() - session.updatedAt > maxAiSessionIdleMs) {
+          sessions.delete(sessionId);
+        }
+      }
+    },
+  };
+}
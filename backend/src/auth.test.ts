@@ -0,0 +1,126 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { type JwksKey, createJwksSource, extractBearerToken, verifySessionToken } from "./auth";
+
+const issuer = "https://clerk.example.test";
+const now = Date.parse("2026-01-01T12:00:00Z");
+const nowSeconds = Math.floor(now / 1000);
+
+let privateKey: CryptoKey;
+let publicJwk: JwksKey;
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+async function signToken(payload: Record<string, unknown>, kid = "key-1"): Promise<string> {
+  const unsigned = `${encodeSegment({ alg: "RS256", typ: "JWT", kid })}.${encodeSegment(payload)}`;
+  const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", privateKey, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${Buffer.from(signature).toString("base64url")}`;
+}
+
+function validClaims(overrides: Record<string, unknown> = {}) {
+  return {
+    iss: issuer,
+    sub: "user_123",
+    sid: "sess_456",
+    exp: nowSeconds + 60,
+    nbf: nowSeconds - 10,
+    ...overrides,
+  };
+}
+
+describe("auth", () => {
+  beforeAll(async () => {
+    const pair = await crypto.subtle.generateKey(
+      { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+      true,
+      ["sign", "verify"],
+    );
+    privateKey = pair.privateKey;
+    publicJwk = { ...(await crypto.subtle.exportKey("jwk", pair.publicKey)), kid: "key-1" };
+  });
+
+  const options = () => ({
+    issuer,
+    authorizedParties: ["https://app.example.test"],
+    keys: async () => [publicJwk],
+    now,
+  });
+
+  it("extracts bearer tokens", () => {
+    expect(extractBearerToken("Bearer abc.def.ghi")).toBe("abc.def.ghi");
+    expect(extractBearerToken("bearer  token ")).toBe("token");
+    expect(extractBearerToken("Basic abc")).toBeNull();
+    expect(extractBearerToken(null)).toBeNull();
+  });
+
+  it("accepts a valid token and returns the user", async () => {
+    const token = await signToken(validClaims());
+    expect(await verifySessionToken(token, options())).toEqual({
+      user: { userId: "user_123", sessionId: "sess_456" },
+    });
+  });
+
+  it("rejects expired, foreign and tampered tokens", async () => {
+    expect(await verifySessionToken(await signToken(validClaims({ exp: nowSeconds - 60 })), options())).toEqual({
+      error: "Token expired.",
+    });
+    expect(
+      await verifySessionToken(await signToken(validClaims({ iss: "https://evil.example.test" })), options()),
+    ).toEqual({ error: "Token issuer mismatch." });
+    expect(
+      await verifySessionToken(await signToken(validClaims({ azp: "https://evil.example.test" })), options()),
+    ).toEqual({ error: "Token authorized party not allowed." });
+
+    const [header, , signature] = (await signToken(validClaims())).split(".");
+    const forged = `${header}.${encodeSegment(validClaims({ sub: "user_other" }))}.${signature}`;
+    expect(await verifySessionToken(forged, options())).toEqual({ error: "Invalid token signature." });
+    expect(await verifySessionToken("not-a-token", options())).toEqual({ error: "Malformed token." });
+  });
+
+  it("refreshes keys once when the key id is unknown", async () => {
+    const refreshes: boolean[] = [];
+    const token = await signToken(validClaims(), "key-2");
+    const result = await verifySessionToken(token, {
+      ...options(),
+      keys: async (refresh = false) => {
+        refreshes.push(refresh);
+        return refresh ? [{ ...publicJwk, kid: "key-2" }] : [publicJwk];
+      },
+    });
+
+    expect(result).toEqual({ user: { userId: "user_123", sessionId: "sess_456" } });
+    expect(refreshes).toEqual([false, true]);
+  });
+
+  it("limits JWKS refetches for unknown key ids", async () => {
+    let clock = now;
+    let fetches = 0;
+    const keys = createJwksSource("https://clerk.example.test/.well-known/jwks.json", {
+      now: () => clock,
+      fetch: async () => {
+        fetches += 1;
+        return Response.json({ keys: [publicJwk] });
+      },
+    });
+    const tokenOptions = { ...options(), keys };
+
+    expect("user" in (await verifySessionToken(await signToken(validClaims()), tokenOptions))).toBe(true);
+    expect(fetches).toBe(1);
+
+    // Within the refresh interval no unknown kid reaches Clerk.
+    for (const kid of ["random-1", "random-2", "random-3"]) {
+      const result = await verifySessionToken(await signToken(validClaims(), kid), tokenOptions);
+      expect(result).toEqual({ error: "Unknown signing key." });
+    }
+    expect(fetches).toBe(1);
+
+    // After it, one refetch; the kid that is still missing is then remembered.
+    clock += 61_000;
+    const rotated = await signToken(validClaims(), "random-4");
+    await verifySessionToken(rotated, tokenOptions);
+    clock += 61_000;
+    await verifySessionToken(rotated, tokenOptions);
+    expect(fetches).toBe(2);
+  });
+});
@@ -0,0 +1,231 @@
+export type JwksKey = JsonWebKey & { kid?: string };
+
+/**
+ * Returns the current signing keys. `refresh` asks to bypass the cache after a
+ * token named key `kid` that was not found, e.g. after a key rotation; sources
+ * may limit how often that actually refetches.
+ */
+export type JwksSource = (refresh?: boolean, kid?: string) => Promise<JwksKey[]>;
+
+export type JwksSourceOptions = {
+  cacheMs?: number;
+  /** Forced refreshes within this long of the last fetch are served from the cache. */
+  minRefreshMs?: number;
+  /** How long a `kid` still missing after a refresh is answered from the cache. */
+  unknownKidMs?: number;
+  now?: () => number;
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+};
+
+export type SessionTokenOptions = {
+  issuer: string;
+  authorizedParties: string[];
+  keys: JwksSource;
+  now?: number;
+};
+
+export type AuthenticatedUser = {
+  userId: string;
+  sessionId?: string;
+};
+
+const clockSkewSeconds = 5;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const normalized = value.trim();
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+function decodeJsonSegment(segment: string): Record<string, unknown> | null {
+  try {
+    return asRecord(JSON.parse(new TextDecoder().decode(decodeBase64Url(segment))));
+  } catch {
+    return null;
+  }
+}
+
+function trimTrailingSlash(value: string): string {
+  return value.replace(/\/+$/, "");
+}
+
+export function extractBearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Caches a JWKS document in memory and refetches it after `cacheMs` or on
+ * demand. Tokens are unauthenticated input, so forced refreshes are limited
+ * to one per `minRefreshMs`, and a `kid` still unknown after a refresh is not
+ * refetched again for `unknownKidMs`. A failed forced refresh keeps serving
+ * the cached keys.
+ */
+export function createJwksSource(url: string, options: JwksSourceOptions = {}): JwksSource {
+  const cacheMs = options.cacheMs ?? 60 * 60 * 1000;
+  const minRefreshMs = options.minRefreshMs ?? 60 * 1000;
+  const unknownKidMs = options.unknownKidMs ?? 5 * 60 * 1000;
+  const now = options.now ?? Date.now;
+  const fetchJwks = options.fetch ?? fetch;
+  let cached: { keys: JwksKey[]; fetchedAt: number } | null = null;
+  const unknownKids = new Map<string, number>();
+
+  const load = async () => {
+    const response = await fetchJwks(url, { signal: AbortSignal.timeout(10_000) });
+    if (!response.ok) {
+      throw new Error(`JWKS request failed with ${response.status}`);
+    }
+
+    const payload = asRecord(await response.json());
+    const keys = Array.isArray(payload?.keys) ? (payload.keys as JwksKey[]) : [];
+    cached = { keys, fetchedAt: now() };
+    return keys;
+  };
+
+  return async (refresh = false, kid) => {
+    if (!cached || now() - cached.fetchedAt >= cacheMs) {
+      return load();
+    }
+
+    if (!refresh) {
+      return cached.keys;
+    }
+
+    const knownUnknownUntil = kid ? unknownKids.get(kid) : undefined;
+    if (knownUnknownUntil !== undefined && knownUnknownUntil > now()) {
+      return cached.keys;
+    }
+
+    if (now() - cached.fetchedAt < minRefreshMs) {
+      return cached.keys;
+    }
+
+    let keys: JwksKey[];
+    try {
+      keys = await load();
+    } catch {
+      return cached.keys;
+    }
+
+    for (const [unknownKid, until] of unknownKids) {
+      if (until <= now()) {
+        unknownKids.delete(unknownKid);
+      }
+    }
+    if (kid && !keys.some((key) => key.kid === kid)) {
+      unknownKids.set(kid, now() + unknownKidMs);
+    }
+
+    return keys;
+  };
+}
+
+/**
+ * Verifies a Clerk session token (RS256 JWT) against the instance's JWKS and
+ * returns the user it was issued for.
+ */
+export async function verifySessionToken(
+  token: string,
+  options: SessionTokenOptions,
+): Promise<{ user: AuthenticatedUser } | { error: string }> {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    return { error: "Malformed token." };
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeJsonSegment(encodedHeader);
+  const payload = decodeJsonSegment(encodedPayload);
+  if (!header || !payload) {
+    return { error: "Malformed token." };
+  }
+
+  if (header.alg !== "RS256") {
+    return { error: "Unsupported token algorithm." };
+  }
+
+  const kid = asString(header.kid);
+  const findKey = (keys: JwksKey[]) =>
+    keys.find((key) => key.kty === "RSA" && (kid ? key.kid === kid : true));
+
+  let jwk = findKey(await options.keys());
+  if (!jwk && kid) {
+    jwk = findKey(await options.keys(true, kid));
+  }
+
+  if (!jwk) {
+    return { error: "Unknown signing key." };
+  }
+
+  let valid = false;
+  try {
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      { kty: jwk.kty, n: jwk.n, e: jwk.e },
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["verify"],
+    );
+    valid = await crypto.subtle.verify(
+      "RSASSA-PKCS1-v1_5",
+      key,
+      decodeBase64Url(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+    );
+  } catch {
+    valid = false;
+  }
+
+  if (!valid) {
+    return { error: "Invalid token signature." };
+  }
+
+  const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+  if (typeof payload.exp !== "number" || payload.exp + clockSkewSeconds < nowSeconds) {
+    return { error: "Token expired." };
+  }
+
+  if (typeof payload.nbf === "number" && payload.nbf - clockSkewSeconds > nowSeconds) {
+    return { error: "Token not active yet." };
+  }
+
+  const issuer = asString(payload.iss);
+  if (!issuer || trimTrailingSlash(issuer) !== trimTrailingSlash(options.issuer)) {
+    return { error: "Token issuer mismatch." };
+  }
+
+  // Native clients may omit `azp`; browsers always send their origin.
+  const authorizedParty = asString(payload.azp);
+  if (authorizedParty && options.authorizedParties.length > 0 && !options.authorizedParties.includes(authorizedParty)) {
+    return { error: "Token authorized party not allowed." };
+  }
+
+  const userId = asString(payload.sub);
+  if (!userId) {
+    return { error: "Token has no subject." };
+  }
+
+  return { user: { userId, sessionId: asString(payload.sid) } };
+}
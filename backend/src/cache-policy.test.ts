@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import { buildCacheHeaders, classifyCacheEntry, combineCacheStatuses, isCacheableStatus } from "./cache-policy";
+
+describe("cache-policy", () => {
+  const policy = { ttlMs: 60_000, staleWhileRevalidateMs: 120_000 };
+  const now = Date.parse("2026-01-01T12:00:00Z");
+
+  it("classifies rows as fresh, stale or expired by age", () => {
+    expect(classifyCacheEntry(new Date(now - 30_000), policy, now)).toBe("fresh");
+    expect(classifyCacheEntry(new Date(now - 60_000), policy, now)).toBe("fresh");
+    expect(classifyCacheEntry(new Date(now - 90_000), policy, now)).toBe("stale");
+    expect(classifyCacheEntry(new Date(now - 180_001), policy, now)).toBe("expired");
+    expect(classifyCacheEntry(new Date(now + 5_000), policy, now)).toBe("fresh");
+  });
+
+  it("only treats successful upstream responses as cacheable", () => {
+    expect(isCacheableStatus(200)).toBe(true);
+    expect(isCacheableStatus(0)).toBe(false);
+    expect(isCacheableStatus(404)).toBe(false);
+    expect(isCacheableStatus(503)).toBe(false);
+  });
+
+  it("combines statuses so any miss wins over stale and stale wins over hit", () => {
+    expect(combineCacheStatuses([])).toBeNull();
+    expect(combineCacheStatuses(["hit", "hit"])).toBe("hit");
+    expect(combineCacheStatuses(["hit", "stale"])).toBe("stale");
+    expect(combineCacheStatuses(["stale", "miss", "hit"])).toBe("miss");
+  });
+
+  it("builds Cache-Control and X-Cache headers", () => {
+    expect(buildCacheHeaders("stale", policy)).toEqual({
+      "X-Cache": "STALE",
+      "Cache-Control": "private, max-age=60, stale-while-revalidate=120",
+    });
+    expect(buildCacheHeaders(null, policy)).toEqual({
+      "Cache-Control": "private, max-age=60, stale-while-revalidate=120",
+    });
+    expect(buildCacheHeaders("miss", null)).toEqual({ "X-Cache": "MISS", "Cache-Control": "no-store" });
+  });
+});
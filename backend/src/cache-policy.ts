@@ -0,0 +1,60 @@
+export type CachePolicy = {
+  ttlMs: number;
+  staleWhileRevalidateMs: number;
+};
+
+export type CacheFreshness = "fresh" | "stale" | "expired";
+
+export type CacheStatus = "hit" | "stale" | "miss";
+
+/**
+ * Rows younger than `ttlMs` are served as-is, rows within the following
+ * `staleWhileRevalidateMs` are served while a refresh runs, older rows are refetched.
+ */
+export function classifyCacheEntry(createdAt: Date, policy: CachePolicy, now = Date.now()): CacheFreshness {
+  const ageMs = Math.max(0, now - createdAt.getTime());
+  if (ageMs <= policy.ttlMs) {
+    return "fresh";
+  }
+
+  if (ageMs <= policy.ttlMs + policy.staleWhileRevalidateMs) {
+    return "stale";
+  }
+
+  return "expired";
+}
+
+export function isCacheableStatus(status: number): boolean {
+  return status === 200;
+}
+
+/** A single miss makes the combined response a miss; otherwise any stale part makes it stale. */
+export function combineCacheStatuses(statuses: CacheStatus[]): CacheStatus | null {
+  if (statuses.length === 0) {
+    return null;
+  }
+
+  if (statuses.includes("miss")) {
+    return "miss";
+  }
+
+  return statuses.includes("stale") ? "stale" : "hit";
+}
+
+export function buildCacheHeaders(status: CacheStatus | null, policy: CachePolicy | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (status) {
+    headers["X-Cache"] = status.toUpperCase();
+  }
+
+  if (!policy) {
+    headers["Cache-Control"] = "no-store";
+    return headers;
+  }
+
+  const maxAge = Math.floor(policy.ttlMs / 1000);
+  const staleWhileRevalidate = Math.floor(policy.staleWhileRevalidateMs / 1000);
+  // Responses depend on an authenticated request, so shared caches must not store them.
+  headers["Cache-Control"] = `private, max-age=${maxAge}, stale-while-revalidate=${staleWhileRevalidate}`;
+  return headers;
+}
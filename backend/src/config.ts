@@ -1,3 +1,6 @@
+import { llmProviderIds, parseLlmProviderId } from "./llm-provider";
+import { perMinutePolicy } from "./rate-limit";
+
 function getRequiredEnv(name: string): string {
   const value = Bun.env[name];
   if (!value) {
@@ -6,6 +9,13 @@ function getRequiredEnv(name: string): string {
   return value;
 }
 
+function getListEnv(name: string): string[] {
+  return (Bun.env[name] ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
 function getNumberEnv(name: string, fallback: number): number {
   const raw = Bun.env[name];
   if (!raw) {
@@ -18,6 +28,13 @@ function getNumberEnv(name: string, fallback: number): number {
   return parsed;
 }
 
+const clerkIssuer = getRequiredEnv("CLERK_ISSUER").replace(/\/+$/, "");
+
+const llmProvider = parseLlmProviderId(Bun.env.LLM_PROVIDER);
+if (!llmProvider) {
+  throw new Error(`LLM_PROVIDER must be one of: ${llmProviderIds.join(", ")}`);
+}
+
 export const config = {
   port: getNumberEnv("PORT", 8787),
   databaseUrl: getRequiredEnv("DATABASE_URL"),
@@ -27,7 +44,64 @@ export const config = {
   mfpCookie: Bun.env.MFP_COOKIE,
   detailConcurrency: Math.max(1, getNumberEnv("MFP_DETAIL_CONCURRENCY", 10)),
   requestTimeoutMs: Math.max(1000, getNumberEnv("MFP_REQUEST_TIMEOUT_MS", 20_000)),
-  openRouterApiKey: getRequiredEnv("OPENROUTER_API_KEY"),
+  mfpRetry: {
+    maxAttempts: Math.max(1, getNumberEnv("MFP_RETRY_MAX_ATTEMPTS", 3)),
+    baseDelayMs: Math.max(0, getNumberEnv("MFP_RETRY_BASE_DELAY_MS", 250)),
+    maxDelayMs: Math.max(0, getNumberEnv("MFP_RETRY_MAX_DELAY_MS", 5000)),
+  },
+  mfpCircuit: {
+    failureThreshold: Math.max(1, getNumberEnv("MFP_CIRCUIT_FAILURE_THRESHOLD", 5)),
+    openMs: Math.max(0, getNumberEnv("MFP_CIRCUIT_OPEN_MS", 30_000)),
+  },
+  searchCache: {
+    ttlMs: Math.max(0, getNumberEnv("SEARCH_CACHE_TTL_MS", 24 * 60 * 60 * 1000)),
+    staleWhileRevalidateMs: Math.max(0, getNumberEnv("SEARCH_CACHE_STALE_MS", 7 * 24 * 60 * 60 * 1000)),
+  },
+  detailCache: {
+    ttlMs: Math.max(0, getNumberEnv("DETAIL_CACHE_TTL_MS", 7 * 24 * 60 * 60 * 1000)),
+    staleWhileRevalidateMs: Math.max(0, getNumberEnv("DETAIL_CACHE_STALE_MS", 30 * 24 * 60 * 60 * 1000)),
+  },
+  barcodeNotFoundCache: {
+    ttlMs: Math.max(0, getNumberEnv("BARCODE_NOT_FOUND_TTL_MS", 60 * 60 * 1000)),
+    staleWhileRevalidateMs: Math.max(0, getNumberEnv("BARCODE_NOT_FOUND_STALE_MS", 60 * 60 * 1000)),
+  },
+  rateLimits: {
+    search: perMinutePolicy(
+      getNumberEnv("RATE_LIMIT_SEARCH_CAPACITY", 120),
+      getNumberEnv("RATE_LIMIT_SEARCH_PER_MINUTE", 60),
+    ),
+    aiTurn: perMinutePolicy(
+      getNumberEnv("RATE_LIMIT_AI_TURN_CAPACITY", 20),
+      getNumberEnv("RATE_LIMIT_AI_TURN_PER_MINUTE", 4),
+    ),
+    transcriptionSeconds: perMinutePolicy(
+      getNumberEnv("RATE_LIMIT_TRANSCRIPTION_SECONDS_CAPACITY", 300),
+      getNumberEnv("RATE_LIMIT_TRANSCRIPTION_SECONDS_PER_MINUTE", 5),
+    ),
+    anonymous: perMinutePolicy(
+      getNumberEnv("RATE_LIMIT_ANONYMOUS_CAPACITY", 30),
+      getNumberEnv("RATE_LIMIT_ANONYMOUS_PER_MINUTE", 30),
+    ),
+  },
+  trustedProxyHops: Math.max(0, Math.floor(getNumberEnv("TRUSTED_PROXY_HOPS", 0))),
+  searchProviders: Bun.env.SEARCH_PROVIDERS ?? "mfp",
+  localFoodsPath: Bun.env.LOCAL_FOODS_PATH || new URL("../data/local-foods.json", import.meta.url).pathname,
+  clerkIssuer,
+  clerkJwksUrl: Bun.env.CLERK_JWKS_URL || `${clerkIssuer}/.well-known/jwks.json`,
+  clerkAuthorizedParties: getListEnv("CLERK_AUTHORIZED_PARTIES"),
+  corsAllowedOrigins: getListEnv("CORS_ALLOWED_ORIGINS"),
+  metricsToken: Bun.env.METRICS_TOKEN,
+  healthMfpProbeTtlMs: Math.max(0, getNumberEnv("HEALTH_MFP_PROBE_TTL_MS", 5 * 60 * 1000)),
+  corsMaxAgeSeconds: Math.max(0, getNumberEnv("CORS_MAX_AGE_SECONDS", 600)),
+  llmProvider,
+  openRouterApiKey: llmProvider === "openrouter" ? getRequiredEnv("OPENROUTER_API_KEY") : "",
   openRouterModel: Bun.env.OPENROUTER_MODEL ?? "moonshotai/kimi-k2-0905",
+  openRouterVisionModel: Bun.env.OPENROUTER_VISION_MODEL ?? "meta-llama/llama-4-scout",
   openRouterProviderOnly: Bun.env.OPENROUTER_PROVIDER_ONLY ?? "groq",
+  llmBaseUrl: Bun.env.LLM_BASE_URL || "http://localhost:11434/v1",
+  llmApiKey: Bun.env.LLM_API_KEY,
+  llmModel: llmProvider === "openai-compatible" ? getRequiredEnv("LLM_MODEL") : "",
+  llmVisionModel: Bun.env.LLM_VISION_MODEL || undefined,
+  llmFakeScriptPath:
+    Bun.env.LLM_FAKE_SCRIPT_PATH || new URL("../data/fake-llm-script.json", import.meta.url).pathname,
 };
@@ -1,4 +1,23 @@
-import { bigint, index, integer, jsonb, pgTable, text, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+import {
+  bigint,
+  doublePrecision,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { type SQL, sql } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import type { CustomFood } from "../ai-custom-foods";
+import type { DailySummary } from "../ai-daily-summary";
+import type { OpenRouterMessage } from "../ai-session";
+import type { CatalogServingSize } from "../food-catalog";
+import type { PendingApprovalSuggestion, SessionLogEntry } from "../shared/ai-stream";
+import type { SearchResultFood } from "../shared/search-contract";
 
 export const mfpSearchResponses = pgTable(
   "mfp_search_responses",
@@ -45,3 +64,141 @@ export const mfpFoodDetailResponses = pgTable(
     ),
   }),
 );
+
+export const mfpBarcodeResponses = pgTable(
+  "mfp_barcode_responses",
+  {
+    id: bigint("id", { mode: "number" }).primaryKey().generatedAlwaysAsIdentity(),
+    barcode: text("barcode").notNull(),
+    countryCode: text("country_code").notNull(),
+    mfpUrl: text("mfp_url").notNull(),
+    mfpStatus: integer("mfp_status").notNull(),
+    responseJson: jsonb("response_json"),
+    responseText: text("response_text"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    barcodeCreatedAtIdx: index("mfp_barcode_responses_barcode_created_at_idx").on(
+      table.barcode,
+      table.countryCode,
+      table.createdAt,
+    ),
+  }),
+);
+
+/** Lowercased "name brand" text; local search must use this exact expression to hit the indexes. */
+export function foodSearchText(name: AnyPgColumn, brand: AnyPgColumn): SQL {
+  return sql`lower(${name} || ' ' || coalesce(${brand}, ''))`;
+}
+
+export const foods = pgTable(
+  "foods",
+  {
+    id: bigint("id", { mode: "number" }).primaryKey().generatedAlwaysAsIdentity(),
+    foodId: text("food_id").notNull(),
+    version: text("version").notNull(),
+    name: text("name").notNull(),
+    brand: text("brand"),
+    servingSizes: jsonb("serving_sizes").$type<CatalogServingSize[]>().default([]).notNull(),
+    calories: doublePrecision("calories"),
+    protein: doublePrecision("protein"),
+    carbs: doublePrecision("carbs"),
+    fat: doublePrecision("fat"),
+    fiber: doublePrecision("fiber"),
+    sugars: doublePrecision("sugars"),
+    sodiumMg: doublePrecision("sodium_mg"),
+    potassiumMg: doublePrecision("potassium_mg"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    foodVersionUnique: uniqueIndex("foods_food_version_uidx").on(table.foodId, table.version),
+    nameIdx: index("foods_name_idx").on(table.name),
+    searchTextTrgmIdx: index("foods_search_text_trgm_idx").using(
+      "gin",
+      sql`${foodSearchText(table.name, table.brand)} gin_trgm_ops`,
+    ),
+    searchTextTsvIdx: index("foods_search_text_tsv_idx").using(
+      "gin",
+      sql`to_tsvector('simple', ${foodSearchText(table.name, table.brand)})`,
+    ),
+  }),
+);
+
+export const rateLimitBuckets = pgTable(
+  "rate_limit_buckets",
+  {
+    bucket: text("bucket").notNull(),
+    subject: text("subject").notNull(),
+    tokens: doublePrecision("tokens").notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.bucket, table.subject] }),
+  }),
+);
+
+export const aiSessions = pgTable(
+  "ai_sessions",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(),
+    transcriptionPrompt: text("transcription_prompt"),
+    customFoods: jsonb("custom_foods").$type<CustomFood[]>().default([]).notNull(),
+    logEntries: jsonb("log_entries").$type<SessionLogEntry[]>().default([]).notNull(),
+    dailySummary: jsonb("daily_summary").$type<DailySummary>(),
+    searchResultCounter: integer("search_result_counter").default(1).notNull(),
+    revision: integer("revision").default(0).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: index("ai_sessions_user_idx").on(table.userId),
+    updatedAtIdx: index("ai_sessions_updated_at_idx").on(table.updatedAt),
+  }),
+);
+
+export const aiSessionMessages = pgTable(
+  "ai_session_messages",
+  {
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => aiSessions.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    message: jsonb("message").$type<OpenRouterMessage>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.sessionId, table.position] }),
+  }),
+);
+
+export const aiSessionSearchResults = pgTable(
+  "ai_session_search_results",
+  {
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => aiSessions.id, { onDelete: "cascade" }),
+    resultId: text("result_id").notNull(),
+    food: jsonb("food").$type<SearchResultFood>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.sessionId, table.resultId] }),
+  }),
+);
+
+export const aiSessionPendingApprovals = pgTable(
+  "ai_session_pending_approvals",
+  {
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => aiSessions.id, { onDelete: "cascade" }),
+    toolCallId: text("tool_call_id").notNull(),
+    suggestions: jsonb("suggestions").$type<PendingApprovalSuggestion[]>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.sessionId, table.toolCallId] }),
+  }),
+);
@@ -0,0 +1,127 @@
+import type { OpenRouterToolCall } from "./ai-session";
+import type { LlmProvider, LlmTurnRequest } from "./llm-provider";
+
+export type FakeLlmToolCall = {
+  name: string;
+  arguments: Record<string, unknown>;
+};
+
+export type FakeLlmStep = {
+  text?: string;
+  toolCalls?: FakeLlmToolCall[];
+};
+
+/** A step may inspect the request (e.g. to read result IDs from the last tool output). */
+export type FakeLlmScriptEntry = FakeLlmStep | ((request: LlmTurnRequest) => FakeLlmStep);
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Parses a JSON script: an array of `{ text?, toolCalls?: [{ name, arguments }] }`.
+ * Throws on malformed entries so a broken fixture fails at startup.
+ */
+export function parseFakeLlmScript(raw: unknown): FakeLlmStep[] {
+  if (!Array.isArray(raw)) {
+    throw new Error("Fake LLM script must be a JSON array of steps.");
+  }
+
+  return raw.map((candidate, index) => {
+    const record = asRecord(candidate);
+    if (!record) {
+      throw new Error(`Fake LLM step ${index} must be an object.`);
+    }
+
+    const text = typeof record.text === "string" ? record.text : undefined;
+    const rawToolCalls = record.toolCalls ?? [];
+    if (!Array.isArray(rawToolCalls)) {
+      throw new Error(`Fake LLM step ${index} toolCalls must be an array.`);
+    }
+
+    const toolCalls = rawToolCalls.map((rawToolCall, toolIndex) => {
+      const toolCall = asRecord(rawToolCall);
+      if (!toolCall || typeof toolCall.name !== "string" || !toolCall.name.trim()) {
+        throw new Error(`Fake LLM step ${index} tool call ${toolIndex} needs a name.`);
+      }
+
+      return { name: toolCall.name.trim(), arguments: asRecord(toolCall.arguments) ?? {} };
+    });
+
+    return { ...(text !== undefined ? { text } : {}), ...(toolCalls.length > 0 ? { toolCalls } : {}) };
+  });
+}
+
+export type FakeLlmProviderOptions = {
+  /** Keeps a copy of each request in `calls` for assertions; off for the server. */
+  recordCalls?: boolean;
+};
+
+const maxRecordedCalls = 100;
+const maxTrackedSessions = 1000;
+
+/**
+ * Replays scripted turns in order, one per `complete` call, and then answers
+ * with plain text so a runaway loop still ends. Each session replays the script
+ * from the start. Tool call IDs are sequential (`fake_call_1`, …) to keep
+ * transcripts deterministic.
+ */
+export function createFakeLlmProvider(
+  script: FakeLlmScriptEntry[],
+  options: FakeLlmProviderOptions = {},
+): LlmProvider & { calls: LlmTurnRequest[] } {
+  const calls: LlmTurnRequest[] = [];
+  const positions = new Map<string, number>();
+  let toolCallCounter = 0;
+
+  return {
+    id: "fake",
+    model: "fake",
+    visionModel: "fake-vision",
+    calls,
+    async complete(request) {
+      const position = positions.get(request.sessionId) ?? 0;
+      // Re-inserting keeps the map in least-recently-used order for eviction.
+      positions.delete(request.sessionId);
+      positions.set(request.sessionId, position + 1);
+      if (positions.size > maxTrackedSessions) {
+        positions.delete(positions.keys().next().value as string);
+      }
+
+      if (options.recordCalls) {
+        calls.push({ ...request, messages: [...request.messages] });
+        if (calls.length > maxRecordedCalls) {
+          calls.shift();
+        }
+      }
+
+      const entry = script[position];
+      const step = typeof entry === "function" ? entry(request) : (entry ?? { text: "Fake script finished." });
+      const text = step.text ?? "";
+
+      if (request.onTextDelta) {
+        for (const piece of text.match(/\S+\s*|\s+/g) ?? []) {
+          request.onTextDelta(piece);
+        }
+      }
+
+      const toolCalls: OpenRouterToolCall[] = (step.toolCalls ?? []).map((toolCall) => {
+        toolCallCounter += 1;
+        return {
+          id: `fake_call_${toolCallCounter}`,
+          type: "function",
+          function: {
+            name: toolCall.name,
+            arguments: JSON.stringify(toolCall.arguments),
+          },
+        };
+      });
+
+      return { assistantText: text, toolCalls };
+    },
+  };
+}
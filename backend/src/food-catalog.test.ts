@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import { type CatalogFood, catalogFoodToMfpItem, catalogFoodToNutritionFood, parseMfpCatalogFood } from "./food-catalog";
+
+describe("food-catalog", () => {
+  it("normalizes a MyFitnessPal detail into a catalog row", () => {
+    const food = parseMfpCatalogFood({
+      id: 123,
+      version: "456",
+      description: " Greek Yogurt ",
+      brand_name: "",
+      serving_sizes: [
+        { value: 170, unit: "g", nutrition_multiplier: 1 },
+        { value: "1", unit: "cup", nutrition_multiplier: "1.44" },
+        { value: 0, unit: "container" },
+        { value: 1, unit: " " },
+      ],
+      nutritional_contents: {
+        energy: { value: "100" },
+        protein: 17,
+        carbohydrates: 6,
+        fat: "",
+        sodium: 65,
+      },
+    });
+
+    expect(food).toEqual({
+      foodId: "123",
+      version: "456",
+      name: "Greek Yogurt",
+      brand: null,
+      servingSizes: [
+        { value: 170, unit: "g", nutritionMultiplier: 1 },
+        { value: 1, unit: "cup", nutritionMultiplier: 1.44 },
+      ],
+      nutrition: { calories: 100, protein: 17, carbs: 6, sodiumMg: 65 },
+    });
+  });
+
+  it("rejects foods without an id, version or description", () => {
+    expect(parseMfpCatalogFood({ id: 1, description: "Apple" })).toBeNull();
+    expect(parseMfpCatalogFood({ id: 1, version: 2 })).toBeNull();
+    expect(parseMfpCatalogFood(["not", "a", "food"])).toBeNull();
+  });
+
+  it("maps catalog rows to provider foods", () => {
+    expect(
+      catalogFoodToNutritionFood({
+        foodId: "1",
+        version: "2",
+        name: "Oats",
+        brand: "Quaker",
+        servingSizes: [{ value: 40, unit: "g", nutritionMultiplier: 1 }],
+        nutrition: {},
+      }),
+    ).toEqual({
+      provider: "mfp",
+      id: "1:2",
+      name: "Oats",
+      brand: "Quaker",
+      serving: "40 g",
+      servingSizes: [{ value: 40, unit: "g", nutritionMultiplier: 1 }],
+      nutrition: undefined,
+    });
+  });
+
+  it("rebuilds a MyFitnessPal item that parses back to the same catalog row", () => {
+    const food: CatalogFood = {
+      foodId: "9",
+      version: "3",
+      name: "Chicken Breast",
+      brand: null,
+      servingSizes: [{ value: 100, unit: "g", nutritionMultiplier: 1 }],
+      nutrition: { calories: 165, protein: 31, fat: 3.6, sodiumMg: 74 },
+    };
+
+    expect(parseMfpCatalogFood(catalogFoodToMfpItem(food))).toEqual(food);
+  });
+});
@@ -0,0 +1,173 @@
+import type { FoodNutrition, NutritionFood } from "./nutrition-provider";
+import type { SearchServingSize } from "./shared/search-contract";
+
+export type CatalogServingSize = SearchServingSize;
+
+/** One row of the normalized `foods` table, keyed by MyFitnessPal (`foodId`, `version`). */
+export type CatalogFood = {
+  foodId: string;
+  version: string;
+  name: string;
+  brand: string | null;
+  servingSizes: CatalogServingSize[];
+  nutrition: FoodNutrition;
+};
+
+const mfpNutrientKeys: Record<Exclude<keyof FoodNutrition, "calories">, string> = {
+  protein: "protein",
+  carbs: "carbohydrates",
+  fat: "fat",
+  fiber: "fiber",
+  sugars: "sugar",
+  sodiumMg: "sodium",
+  potassiumMg: "potassium",
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    const normalized = value.trim();
+    return normalized.length > 0 ? normalized : undefined;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    const normalized = value.trim();
+    if (!normalized) {
+      return undefined;
+    }
+
+    const parsed = Number(normalized);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+
+  return undefined;
+}
+
+function parseServingSizes(raw: unknown): CatalogServingSize[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const sizes: CatalogServingSize[] = [];
+  for (const candidate of raw) {
+    const record = asRecord(candidate);
+    const value = asNumber(record?.value);
+    const unit = asString(record?.unit);
+    const nutritionMultiplier = asNumber(record?.nutrition_multiplier) ?? 1;
+    if (value === undefined || value <= 0 || !unit || nutritionMultiplier <= 0) {
+      continue;
+    }
+
+    sizes.push({ value, unit, nutritionMultiplier });
+  }
+
+  return sizes;
+}
+
+function parseNutrition(raw: unknown): FoodNutrition {
+  const contents = asRecord(raw);
+  if (!contents) {
+    return {};
+  }
+
+  const nutrition: FoodNutrition = {};
+  const calories = asNumber(asRecord(contents.energy)?.value);
+  if (calories !== undefined) {
+    nutrition.calories = calories;
+  }
+
+  for (const [key, mfpKey] of Object.entries(mfpNutrientKeys)) {
+    const value = asNumber(contents[mfpKey]);
+    if (value !== undefined) {
+      nutrition[key as keyof FoodNutrition] = value;
+    }
+  }
+
+  return nutrition;
+}
+
+/**
+ * Normalizes a MyFitnessPal food (a detail response or a search `item`).
+ * Returns null when the id, version or description is missing.
+ */
+export function parseMfpCatalogFood(raw: unknown): CatalogFood | null {
+  const food = asRecord(raw);
+  const foodId = asString(food?.id);
+  const version = asString(food?.version);
+  const name = asString(food?.description);
+  if (!food || !foodId || !version || !name) {
+    return null;
+  }
+
+  return {
+    foodId,
+    version,
+    name,
+    brand: asString(food.brand_name) ?? null,
+    servingSizes: parseServingSizes(food.serving_sizes),
+    nutrition: parseNutrition(food.nutritional_contents),
+  };
+}
+
+function formatServingSize(serving: CatalogServingSize | undefined): string | undefined {
+  return serving ? `${serving.value} ${serving.unit}` : undefined;
+}
+
+export function catalogFoodToNutritionFood(food: CatalogFood): NutritionFood {
+  return {
+    provider: "mfp",
+    id: `${food.foodId}:${food.version}`,
+    name: food.name,
+    brand: food.brand ?? undefined,
+    serving: formatServingSize(food.servingSizes[0]),
+    servingSizes: food.servingSizes.length > 0 ? food.servingSizes : undefined,
+    nutrition: Object.keys(food.nutrition).length > 0 ? food.nutrition : undefined,
+  };
+}
+
+/**
+ * Rebuilds the MyFitnessPal search `item` shape from a catalog row so answers
+ * served from the catalog keep the raw `/search` payload contract.
+ */
+export function catalogFoodToMfpItem(food: CatalogFood): Record<string, unknown> {
+  const { calories, ...nutrients } = food.nutrition;
+  const nutritionalContents: Record<string, unknown> =
+    calories !== undefined ? { energy: { unit: "calories", value: calories } } : {};
+  for (const [key, value] of Object.entries(nutrients)) {
+    nutritionalContents[mfpNutrientKeys[key as Exclude<keyof FoodNutrition, "calories">]] = value;
+  }
+
+  return {
+    id: food.foodId,
+    version: food.version,
+    description: food.name,
+    brand_name: food.brand ?? undefined,
+    serving_sizes: food.servingSizes.map((serving) => ({
+      value: serving.value,
+      unit: serving.unit,
+      nutrition_multiplier: serving.nutritionMultiplier,
+    })),
+    nutritional_contents: nutritionalContents,
+  };
+}
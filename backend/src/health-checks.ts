@@ -0,0 +1,66 @@
+import { sql } from "drizzle-orm";
+import { config } from "./config";
+import { db } from "./db";
+import {
+  type HealthCheck,
+  cachedHealthCheck,
+  configuredCheck,
+  mfpProbeResult,
+  pendingMigrations,
+} from "./health";
+import { searchNutrition } from "./mfp-client";
+
+const journalPath = new URL("../drizzle/meta/_journal.json", import.meta.url).pathname;
+
+async function checkDatabase() {
+  await db.execute(sql`select 1`);
+  return { status: "ok" as const };
+}
+
+async function checkMigrations() {
+  const journal = await Bun.file(journalPath)
+    .json()
+    .catch(() => null);
+  const rows = await db.execute<{ last: string | number | null }>(
+    sql`select max(created_at) as last from drizzle.__drizzle_migrations`,
+  );
+  const last = rows[0]?.last;
+  const pending = pendingMigrations(journal, last === null || last === undefined ? null : Number(last));
+
+  if (!pending) {
+    return { status: "fail" as const, message: `Could not read the migration journal at ${journalPath}.` };
+  }
+
+  return pending.length === 0
+    ? { status: "ok" as const }
+    : { status: "fail" as const, pending, message: `${pending.length} migration(s) not applied.` };
+}
+
+/** One cheap search; `searchNutrition` bypasses the Postgres cache so this always reaches upstream. */
+async function probeMfp() {
+  const response = await searchNutrition({
+    query: "apple",
+    offset: 0,
+    maxItems: 1,
+    countryCode: "US",
+    resourceType: "foods",
+  });
+  return mfpProbeResult(response.status);
+}
+
+/**
+ * Dependencies `/health/ready` reports on. MyFitnessPal is only probed when it
+ * is one of the default search providers, and at most once per
+ * `HEALTH_MFP_PROBE_TTL_MS`. The OpenRouter key only matters for that provider.
+ */
+export function createDependencyChecks(options: { probeMfp: boolean }): Record<string, HealthCheck> {
+  return {
+    database: checkDatabase,
+    migrations: checkMigrations,
+    ...(options.probeMfp ? { mfp: cachedHealthCheck(probeMfp, config.healthMfpProbeTtlMs) } : {}),
+    ...(config.llmProvider === "openrouter"
+      ? { openRouterApiKey: configuredCheck("OPENROUTER_API_KEY", config.openRouterApiKey) }
+      : {}),
+    groqApiKey: configuredCheck("GROQ_API_KEY", config.groqApiKey),
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "bun:test";
+import {
+  type HealthCheckResult,
+  cachedHealthCheck,
+  configuredCheck,
+  mfpProbeResult,
+  pendingMigrations,
+  runHealthChecks,
+} from "./health";
+
+describe("health", () => {
+  it("fails the report when any check fails, throws or times out", async () => {
+    const report = await runHealthChecks(
+      {
+        database: async () => ({ status: "ok" }),
+        groqApiKey: configuredCheck("GROQ_API_KEY", undefined),
+        mfp: async () => {
+          throw new Error("ECONNREFUSED");
+        },
+        slow: () => new Promise<HealthCheckResult>(() => {}),
+      },
+      20,
+    );
+
+    expect(report.status).toBe("fail");
+    expect(report.checks).toMatchObject({
+      database: { status: "ok" },
+      groqApiKey: { status: "fail", message: "GROQ_API_KEY is not set." },
+      mfp: { status: "fail", message: "ECONNREFUSED" },
+      slow: { status: "fail", message: "Timed out after 20ms." },
+    });
+    expect(
+      (await runHealthChecks({ groqApiKey: configuredCheck("GROQ_API_KEY", "gsk_123") }, 20)).status,
+    ).toBe("ok");
+  });
+
+  it("caches probe results for the TTL and shares in-flight probes", async () => {
+    let now = 1_000_000;
+    let probes = 0;
+    const check = cachedHealthCheck(
+      async () => {
+        probes += 1;
+        return mfpProbeResult(probes === 1 ? 401 : 200);
+      },
+      60_000,
+      () => now,
+    );
+
+    const [first, concurrent] = await Promise.all([check(), check()]);
+    expect(first).toMatchObject({ status: "fail", upstreamStatus: 401, cached: false });
+    expect(concurrent).toMatchObject({ status: "fail", cached: false });
+
+    now += 30_000;
+    expect(await check()).toMatchObject({
+      status: "fail",
+      cached: true,
+      checkedAt: new Date(1_000_000).toISOString(),
+    });
+
+    now += 30_000;
+    expect(await check()).toMatchObject({ status: "ok", upstreamStatus: 200, cached: false });
+    expect(probes).toBe(2);
+  });
+
+  it("lists journal entries newer than the last applied migration", () => {
+    const journal = {
+      entries: [
+        { when: 100, tag: "0000_first" },
+        { when: 200, tag: "0001_second" },
+        { when: 300, tag: "0002_third" },
+      ],
+    };
+
+    expect(pendingMigrations(journal, 300)).toEqual([]);
+    expect(pendingMigrations(journal, 200)).toEqual(["0002_third"]);
+    expect(pendingMigrations(journal, null)).toEqual(["0000_first", "0001_second", "0002_third"]);
+    expect(pendingMigrations({ entries: [{ tag: "broken" }] }, 100)).toBeNull();
+    expect(pendingMigrations(null, 100)).toBeNull();
+  });
+
+  it("explains rejected MyFitnessPal credentials", () => {
+    expect(mfpProbeResult(200)).toEqual({ status: "ok", upstreamStatus: 200 });
+    expect(mfpProbeResult(403).message).toContain("MFP_COOKIE");
+    expect(mfpProbeResult(502)).toMatchObject({ status: "fail", message: "MyFitnessPal returned 502." });
+  });
+});
@@ -0,0 +1,126 @@
+export type HealthStatus = "ok" | "fail";
+
+/** Outcome of one dependency check; extra fields are reported as-is. */
+export type HealthCheckResult = {
+  status: HealthStatus;
+  message?: string;
+  [detail: string]: unknown;
+};
+
+export type HealthCheck = () => Promise<HealthCheckResult>;
+
+export type HealthReport = {
+  status: HealthStatus;
+  checks: Record<string, HealthCheckResult & { durationMs: number }>;
+};
+
+/** Runs checks in parallel; a check that throws or exceeds `timeoutMs` fails instead of hanging the probe. */
+export async function runHealthChecks(checks: Record<string, HealthCheck>, timeoutMs: number): Promise<HealthReport> {
+  const entries = await Promise.all(
+    Object.entries(checks).map(async ([name, check]) => {
+      const startedAt = performance.now();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<HealthCheckResult>((resolve) => {
+        timer = setTimeout(() => resolve({ status: "fail", message: `Timed out after ${timeoutMs}ms.` }), timeoutMs);
+      });
+
+      let result: HealthCheckResult;
+      try {
+        result = await Promise.race([check(), timeout]);
+      } catch (error) {
+        result = { status: "fail", message: error instanceof Error ? error.message : String(error) };
+      } finally {
+        clearTimeout(timer);
+      }
+
+      return [name, { ...result, durationMs: Math.round(performance.now() - startedAt) }] as const;
+    }),
+  );
+
+  return {
+    status: entries.every(([, result]) => result.status === "ok") ? "ok" : "fail",
+    checks: Object.fromEntries(entries),
+  };
+}
+
+/**
+ * Reuses a check's last result for `ttlMs`, for probes that cost an upstream
+ * request. Concurrent callers share one in-flight probe. Results carry
+ * `checkedAt` so a cached failure is recognisable as such.
+ */
+export function cachedHealthCheck(check: HealthCheck, ttlMs: number, now: () => number = Date.now): HealthCheck {
+  let cached: { result: HealthCheckResult; checkedAt: number } | null = null;
+  let inFlight: Promise<HealthCheckResult> | null = null;
+
+  return async () => {
+    if (cached && now() - cached.checkedAt < ttlMs) {
+      return { ...cached.result, checkedAt: new Date(cached.checkedAt).toISOString(), cached: true };
+    }
+
+    inFlight ??= (async () => {
+      let result: HealthCheckResult;
+      try {
+        result = await check();
+      } catch (error) {
+        result = { status: "fail", message: error instanceof Error ? error.message : String(error) };
+      }
+
+      cached = { result, checkedAt: now() };
+      return result;
+    })().finally(() => {
+      inFlight = null;
+    });
+
+    const result = await inFlight;
+    return { ...result, checkedAt: new Date(cached?.checkedAt ?? now()).toISOString(), cached: false };
+  };
+}
+
+/** Passes when `value` is set; never reports the value itself. */
+export function configuredCheck(name: string, value: string | undefined): HealthCheck {
+  return async () => (value ? { status: "ok" } : { status: "fail", message: `${name} is not set.` });
+}
+
+/**
+ * Tags from the Drizzle journal (`drizzle/meta/_journal.json`) newer than the
+ * last applied migration. Drizzle records each migration's journal `when` as
+ * `created_at`, and applies every entry newer than the latest one. Returns
+ * null when the journal cannot be read.
+ */
+export function pendingMigrations(journal: unknown, lastAppliedAt: number | null): string[] | null {
+  const entries = (journal as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(entries)) {
+    return null;
+  }
+
+  const pending: string[] = [];
+  for (const entry of entries) {
+    const { when, tag } = (entry ?? {}) as { when?: unknown; tag?: unknown };
+    if (typeof when !== "number" || typeof tag !== "string") {
+      return null;
+    }
+
+    if (lastAppliedAt === null || when > lastAppliedAt) {
+      pending.push(tag);
+    }
+  }
+
+  return pending;
+}
+
+/** Interprets the status of a MyFitnessPal probe request. */
+export function mfpProbeResult(status: number): HealthCheckResult {
+  if (status >= 200 && status < 300) {
+    return { status: "ok", upstreamStatus: status };
+  }
+
+  if (status === 401 || status === 403) {
+    return {
+      status: "fail",
+      upstreamStatus: status,
+      message: "MyFitnessPal rejected the credentials; refresh MFP_AUTHORIZATION and MFP_COOKIE.",
+    };
+  }
+
+  return { status: "fail", upstreamStatus: status, message: `MyFitnessPal returned ${status}.` };
+}
@@ -0,0 +1,56 @@
+import type { RateLimitBucket, RateLimitDecision, RateLimiter } from "./rate-limit";
+
+export type JsonValue = Record<string, unknown> | unknown[] | string | number | boolean | null;
+
+/** An error response described as data, so it can be sent as JSON or as a streamed `error` event. */
+export type HttpFailure = {
+  status: number;
+  body: Record<string, unknown>;
+  headers?: Record<string, string>;
+};
+
+export function json(data: JsonValue, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+  });
+}
+
+export function failureResponse(failure: HttpFailure): Response {
+  return json(failure.body, failure.status, failure.headers);
+}
+
+export function rateLimitFailure(decision: RateLimitDecision, bucket: RateLimitBucket): HttpFailure {
+  return {
+    status: 429,
+    body: {
+      error: "rate_limited",
+      message: `Too many ${bucket} requests. Retry in ${decision.retryAfterSeconds}s.`,
+      retryAfterSeconds: decision.retryAfterSeconds,
+    },
+    headers: { "Retry-After": String(decision.retryAfterSeconds) },
+  };
+}
+
+/** Takes `cost` tokens from the bucket; returns the `429` response when the budget is exhausted. */
+export async function enforceRateLimit(
+  rateLimiter: RateLimiter,
+  bucket: RateLimitBucket,
+  subject: string,
+  cost = 1,
+): Promise<Response | null> {
+  const decision = await rateLimiter.consume(bucket, subject, cost);
+  return decision.allowed ? null : failureResponse(rateLimitFailure(decision, bucket));
+}
+
+export async function parseJsonBody(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const parsed = await request.json();
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
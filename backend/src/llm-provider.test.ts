@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { createFakeLlmProvider, parseFakeLlmScript } from "./fake-llm-provider";
+import { parseLlmProviderId } from "./llm-provider";
+import { createOpenAiCompatibleProvider } from "./openai-llm-provider";
+
+const baseRequest = {
+  messages: [{ role: "user" as const, content: "I ate a banana" }],
+  tools: [],
+  userId: "user_123",
+  sessionId: "session-1",
+};
+
+describe("llm-provider", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  const requestBodies: Record<string, unknown>[] = [];
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const body = (await request.json()) as Record<string, unknown>;
+        requestBodies.push(body);
+
+        if (body.stream) {
+          const chunks = [
+            { choices: [{ delta: { content: "Searching" } }] },
+            {
+              choices: [
+                {
+                  delta: {
+                    tool_calls: [
+                      { index: 0, id: "call_1", type: "function", function: { name: "searchFoods", arguments: "{}" } },
+                    ],
+                  },
+                },
+              ],
+            },
+            { choices: [], usage: { prompt_tokens: 40, completion_tokens: 6 } },
+          ];
+          const events = chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("");
+          return new Response(`${events}data: [DONE]\n\n`, { headers: { "Content-Type": "text/event-stream" } });
+        }
+
+        return Response.json({
+          choices: [
+            {
+              message: {
+                content: "Hello",
+                tool_calls: [{ id: "call_2", type: "function", function: { name: "searchFoods", arguments: { query: "egg" } } }],
+              },
+            },
+          ],
+          usage: { prompt_tokens: 12, completion_tokens: 3 },
+        });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it("parses provider ids with openrouter as the default", () => {
+    expect(parseLlmProviderId(undefined)).toBe("openrouter");
+    expect(parseLlmProviderId(" Fake ")).toBe("fake");
+    expect(parseLlmProviderId("openai-compatible")).toBe("openai-compatible");
+    expect(parseLlmProviderId("anthropic")).toBeNull();
+  });
+
+  it("calls OpenAI-compatible servers with and without streaming", async () => {
+    const provider = createOpenAiCompatibleProvider({
+      baseUrl: `http://localhost:${server.port}/v1/`,
+      model: "local-model",
+    });
+
+    expect(await provider.complete(baseRequest)).toEqual({
+      assistantText: "Hello",
+      toolCalls: [{ id: "call_2", type: "function", function: { name: "searchFoods", arguments: '{"query":"egg"}' } }],
+      usage: { promptTokens: 12, completionTokens: 3 },
+    });
+    expect(requestBodies.at(-1)).toMatchObject({ model: "local-model", stream: false, tool_choice: "auto" });
+
+    const deltas: string[] = [];
+    const streamed = await provider.complete({ ...baseRequest, onTextDelta: (text) => deltas.push(text) });
+    expect(deltas).toEqual(["Searching"]);
+    expect(requestBodies.at(-1)).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(streamed).toEqual({
+      assistantText: "Searching",
+      toolCalls: [{ id: "call_1", type: "function", function: { name: "searchFoods", arguments: "{}" } }],
+      usage: { promptTokens: 40, completionTokens: 6 },
+    });
+  });
+
+  it("sends photos to the vision model as image parts of the latest user message", async () => {
+    const images = [{ url: "data:image/jpeg;base64,AAAA" }];
+    const textOnly = createOpenAiCompatibleProvider({ baseUrl: `http://localhost:${server.port}/v1`, model: "local-model" });
+    await expect(textOnly.complete({ ...baseRequest, images })).rejects.toThrow("no vision model");
+
+    const provider = createOpenAiCompatibleProvider({
+      baseUrl: `http://localhost:${server.port}/v1`,
+      model: "local-model",
+      visionModel: "local-vision",
+    });
+    expect(provider.visionModel).toBe("local-vision");
+
+    await provider.complete({
+      ...baseRequest,
+      messages: [...baseRequest.messages, { role: "assistant", content: "Which one?" }, { role: "user", content: "This" }],
+      images,
+    });
+    expect(requestBodies.at(-1)).toMatchObject({
+      model: "local-vision",
+      messages: [
+        { role: "user", content: "I ate a banana" },
+        { role: "assistant", content: "Which one?" },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "This" },
+            { type: "image_url", image_url: { url: "data:image/jpeg;base64,AAAA" } },
+          ],
+        },
+      ],
+    });
+
+    await provider.complete(baseRequest);
+    expect(requestBodies.at(-1)).toMatchObject({ model: "local-model", messages: baseRequest.messages });
+  });
+
+  it("replays scripted turns with sequential tool call ids", async () => {
+    const provider = createFakeLlmProvider([
+      { text: "Looking it up.", toolCalls: [{ name: "searchFoods", arguments: { query: "banana" } }] },
+      (request) => ({ text: `Seen ${request.messages.length} messages.` }),
+    ], { recordCalls: true });
+
+    const deltas: string[] = [];
+    expect(await provider.complete({ ...baseRequest, onTextDelta: (text) => deltas.push(text) })).toEqual({
+      assistantText: "Looking it up.",
+      toolCalls: [
+        { id: "fake_call_1", type: "function", function: { name: "searchFoods", arguments: '{"query":"banana"}' } },
+      ],
+    });
+    expect(deltas.join("")).toBe("Looking it up.");
+    expect((await provider.complete(baseRequest)).assistantText).toBe("Seen 1 messages.");
+    expect(await provider.complete(baseRequest)).toEqual({ assistantText: "Fake script finished.", toolCalls: [] });
+    expect(provider.calls).toHaveLength(3);
+
+    // Every session replays the script from its first step.
+    expect((await provider.complete({ ...baseRequest, sessionId: "other_session" })).assistantText).toBe("Looking it up.");
+    expect(createFakeLlmProvider([]).calls).toHaveLength(0);
+  });
+
+  it("validates JSON scripts", () => {
+    expect(parseFakeLlmScript([{ text: "Hi" }, { toolCalls: [{ name: "searchFoods", arguments: { query: "egg" } }] }])).toEqual([
+      { text: "Hi" },
+      { toolCalls: [{ name: "searchFoods", arguments: { query: "egg" } }] },
+    ]);
+    expect(() => parseFakeLlmScript({})).toThrow("must be a JSON array");
+    expect(() => parseFakeLlmScript([{ toolCalls: [{ arguments: {} }] }])).toThrow("needs a name");
+  });
+});
@@ -0,0 +1,86 @@
+import type { OpenRouterMessage, OpenRouterToolCall } from "./ai-session";
+
+export const llmProviderIds = ["openrouter", "openai-compatible", "fake"] as const;
+
+export type LlmProviderId = (typeof llmProviderIds)[number];
+
+/** An image for the model, as a `data:` URL (e.g. `data:image/jpeg;base64,...`). */
+export type LlmImage = {
+  url: string;
+};
+
+export type LlmTurnRequest = {
+  messages: OpenRouterMessage[];
+  /**
+   * Photos attached to the latest user message. Only sent for the turn they
+   * arrive in; the stored conversation keeps text only.
+   */
+  images?: LlmImage[];
+  /** OpenAI-style function tool definitions. */
+  tools: readonly unknown[];
+  userId: string;
+  sessionId: string;
+  /** When set, the provider streams and reports assistant text as it arrives. */
+  onTextDelta?: (text: string) => void;
+};
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type LlmTurn = {
+  assistantText: string;
+  toolCalls: OpenRouterToolCall[];
+  /** Token counts, when the provider reports them. */
+  usage?: LlmUsage;
+};
+
+/**
+ * One chat completion round-trip for the agent loop. Providers speak the
+ * OpenAI chat format, so conversations stored in `ai_session_messages` work
+ * with any of them.
+ */
+export type LlmProvider = {
+  id: LlmProviderId;
+  model: string;
+  /** Model used for requests with `images`; photos are rejected when unset. */
+  visionModel?: string;
+  complete(request: LlmTurnRequest): Promise<LlmTurn>;
+};
+
+export function parseLlmProviderId(raw: string | undefined): LlmProviderId | null {
+  const value = (raw ?? "").trim().toLowerCase();
+  if (!value) {
+    return "openrouter";
+  }
+
+  return (llmProviderIds as readonly string[]).includes(value) ? (value as LlmProviderId) : null;
+}
+
+type LlmContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } };
+
+/** A chat message as sent upstream: stored messages plus image parts on the photo turn. */
+export type LlmRequestMessage = Omit<OpenRouterMessage, "content"> & {
+  content?: string | null | LlmContentPart[];
+};
+
+/** Turns the latest user message into text and image parts (OpenAI vision format). */
+export function attachImages(messages: OpenRouterMessage[], images: readonly LlmImage[]): LlmRequestMessage[] {
+  const userIndex = messages.map((message) => message.role).lastIndexOf("user");
+  if (userIndex === -1 || images.length === 0) {
+    return messages;
+  }
+
+  return messages.map((message, index) =>
+    index === userIndex
+      ? {
+          ...message,
+          content: [
+            ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+            ...images.map((image) => ({ type: "image_url" as const, image_url: { url: image.url } })),
+          ],
+        }
+      : message,
+  );
+}
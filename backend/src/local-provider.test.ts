@@ -0,0 +1,67 @@
+import { describe, expect, it } from "bun:test";
+import { parseLocalFoodDataset, searchLocalFoods } from "./local-provider";
+
+describe("local-provider", () => {
+  it("parses FoodData Central rows and plain rows", () => {
+    const foods = parseLocalFoodDataset({
+      SRLegacyFoods: [
+        {
+          fdcId: 173944,
+          description: "Bananas, raw",
+          foodNutrients: [
+            { nutrient: { number: "208", unitName: "kcal" }, amount: 89 },
+            { nutrient: { number: "203", unitName: "g" }, amount: 1.09 },
+            { nutrient: { number: "268", unitName: "kJ" }, amount: 371 },
+          ],
+        },
+        { fdcId: 173944, description: "Duplicate id" },
+      ],
+      foods: [
+        {
+          id: "granola-1",
+          name: "Granola",
+          brand: "Corner Bakery",
+          serving: "1/2 cup",
+          barcode: "0012345678905",
+          nutrition: { calories: "210", fat: -1 },
+        },
+        { id: "missing-name" },
+      ],
+    });
+
+    expect(foods).toEqual([
+      {
+        provider: "local",
+        id: "granola-1",
+        name: "Granola",
+        brand: "Corner Bakery",
+        serving: "1/2 cup",
+        nutrition: { calories: 210 },
+        barcode: "0012345678905",
+      },
+      {
+        provider: "local",
+        id: "173944",
+        name: "Bananas, raw",
+        brand: undefined,
+        serving: "100 g",
+        nutrition: { calories: 89, protein: 1.09 },
+        barcode: undefined,
+      },
+    ]);
+  });
+
+  it("matches every token, ranks name prefixes first and pages results", () => {
+    const foods = parseLocalFoodDataset([
+      { id: "1", name: "Chicken breast, roasted" },
+      { id: "2", name: "Soup, chicken noodle" },
+      { id: "3", name: "Chicken thigh, roasted" },
+      { id: "4", name: "Lentils, boiled" },
+    ]);
+
+    const results = searchLocalFoods(foods, { query: "chicken", offset: 0, maxItems: 10 });
+    expect(results.map((food) => food.id)).toEqual(["3", "1", "2"]);
+    expect(searchLocalFoods(foods, { query: "roasted chicken", offset: 1, maxItems: 1 })).toHaveLength(1);
+    expect(searchLocalFoods(foods, { query: "chicken lentils", offset: 0, maxItems: 10 })).toEqual([]);
+  });
+});
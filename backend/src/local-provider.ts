@@ -0,0 +1,263 @@
+import type {
+  FoodNutrition,
+  NutritionFood,
+  NutritionProvider,
+  ProviderSearchParams,
+} from "./nutrition-provider";
+
+export type LocalFood = NutritionFood & {
+  barcode?: string;
+};
+
+type IndexedLocalFood = {
+  food: LocalFood;
+  nameText: string;
+  searchText: string;
+};
+
+const fdcCollectionKeys = ["foods", "FoundationFoods", "SRLegacyFoods", "SurveyFoods", "BrandedFoods"] as const;
+
+// FoodData Central nutrient numbers; amounts are reported per 100 g.
+const fdcNutrientNumbers: Record<string, keyof FoodNutrition> = {
+  "208": "calories",
+  "203": "protein",
+  "205": "carbs",
+  "204": "fat",
+  "291": "fiber",
+  "269": "sugars",
+  "307": "sodiumMg",
+  "306": "potassiumMg",
+};
+
+const nutritionKeys = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+  "sugars",
+  "sodiumMg",
+  "potassiumMg",
+] as const;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    const normalized = value.trim();
+    return normalized.length > 0 ? normalized : undefined;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function normalizeSearchText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function parseFdcNutrients(raw: unknown): FoodNutrition | undefined {
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+
+  const nutrition: FoodNutrition = {};
+  for (const entry of raw) {
+    const record = asRecord(entry);
+    const nutrient = asRecord(record?.nutrient);
+    const number = asString(nutrient?.number) ?? asString(record?.nutrientNumber) ?? asString(record?.number);
+    const key = number ? fdcNutrientNumbers[number] : undefined;
+    const amount = asNumber(record?.amount) ?? asNumber(record?.value);
+    if (key && amount !== undefined && amount >= 0) {
+      nutrition[key] = amount;
+    }
+  }
+
+  return Object.keys(nutrition).length > 0 ? nutrition : undefined;
+}
+
+function parseSimpleNutrition(raw: unknown): FoodNutrition | undefined {
+  const record = asRecord(raw);
+  if (!record) {
+    return undefined;
+  }
+
+  const nutrition: FoodNutrition = {};
+  for (const key of nutritionKeys) {
+    const value = asNumber(record[key]);
+    if (value !== undefined && value >= 0) {
+      nutrition[key] = value;
+    }
+  }
+
+  return Object.keys(nutrition).length > 0 ? nutrition : undefined;
+}
+
+function parseLocalFood(raw: unknown): LocalFood | null {
+  const record = asRecord(raw);
+  if (!record) {
+    return null;
+  }
+
+  const id = asString(record.fdcId) ?? asString(record.id);
+  const name = asString(record.description) ?? asString(record.name);
+  if (!id || !name) {
+    return null;
+  }
+
+  const fdcNutrition = parseFdcNutrients(record.foodNutrients);
+
+  return {
+    provider: "local",
+    id,
+    name,
+    brand: asString(record.brandOwner) ?? asString(record.brandName) ?? asString(record.brand),
+    serving: fdcNutrition ? "100 g" : asString(record.serving),
+    nutrition: fdcNutrition ?? parseSimpleNutrition(record.nutrition),
+    barcode: asString(record.gtinUpc) ?? asString(record.barcode),
+  };
+}
+
+/**
+ * Accepts a FoodData Central JSON download (`SRLegacyFoods`, `BrandedFoods`, …)
+ * or a plain array of `{ id, name, brand, serving, barcode, nutrition }` rows.
+ */
+export function parseLocalFoodDataset(raw: unknown): LocalFood[] {
+  const rows: unknown[] = [];
+  if (Array.isArray(raw)) {
+    rows.push(...raw);
+  } else {
+    const record = asRecord(raw);
+    for (const key of fdcCollectionKeys) {
+      const collection = record?.[key];
+      if (Array.isArray(collection)) {
+        rows.push(...collection);
+      }
+    }
+  }
+
+  const foods: LocalFood[] = [];
+  const seenIds = new Set<string>();
+
+  for (const row of rows) {
+    const food = parseLocalFood(row);
+    if (!food || seenIds.has(food.id)) {
+      continue;
+    }
+
+    seenIds.add(food.id);
+    foods.push(food);
+  }
+
+  return foods;
+}
+
+function indexLocalFoods(foods: LocalFood[]): IndexedLocalFood[] {
+  return foods.map((food) => ({
+    food,
+    nameText: normalizeSearchText(food.name),
+    searchText: normalizeSearchText([food.name, food.brand].filter(Boolean).join(" ")),
+  }));
+}
+
+function toNutritionFood(food: LocalFood): NutritionFood {
+  return {
+    provider: food.provider,
+    id: food.id,
+    name: food.name,
+    brand: food.brand,
+    serving: food.serving,
+    nutrition: food.nutrition,
+  };
+}
+
+export function searchLocalFoods(
+  foods: LocalFood[],
+  params: Pick<ProviderSearchParams, "query" | "offset" | "maxItems">,
+): NutritionFood[] {
+  return searchIndexedFoods(indexLocalFoods(foods), params);
+}
+
+function searchIndexedFoods(
+  indexed: IndexedLocalFood[],
+  params: Pick<ProviderSearchParams, "query" | "offset" | "maxItems">,
+): NutritionFood[] {
+  const tokens = normalizeSearchText(params.query).split(" ").filter(Boolean);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const scored: { food: LocalFood; score: number }[] = [];
+  for (const entry of indexed) {
+    if (!tokens.every((token) => entry.searchText.includes(token))) {
+      continue;
+    }
+
+    const nameHits = tokens.filter((token) => entry.nameText.startsWith(token)).length;
+    scored.push({ food: entry.food, score: nameHits * 1000 - entry.nameText.length });
+  }
+
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(params.offset, params.offset + params.maxItems).map((entry) => toNutritionFood(entry.food));
+}
+
+export function createLocalProvider(datasetPath: string): NutritionProvider {
+  let indexPromise: Promise<{ indexed: IndexedLocalFood[]; byId: Map<string, LocalFood> }> | null = null;
+
+  const loadIndex = () => {
+    indexPromise ??= (async () => {
+      const file = Bun.file(datasetPath);
+      if (!(await file.exists())) {
+        throw new Error(`Local food dataset not found at ${datasetPath}`);
+      }
+
+      const foods = parseLocalFoodDataset(await file.json());
+      return {
+        indexed: indexLocalFoods(foods),
+        byId: new Map(foods.map((food) => [food.id, food])),
+      };
+    })().catch((error: unknown) => {
+      indexPromise = null;
+      throw error;
+    });
+
+    return indexPromise;
+  };
+
+  return {
+    id: "local",
+    async search(params) {
+      const { indexed } = await loadIndex();
+      return { foods: searchIndexedFoods(indexed, params) };
+    },
+    async detail(foodId) {
+      const { byId } = await loadIndex();
+      const food = byId.get(foodId);
+      return food ? toNutritionFood(food) : null;
+    },
+    async barcode(barcode) {
+      const { indexed } = await loadIndex();
+      const match = indexed.find((entry) => entry.food.barcode?.replace(/^0+/, "") === barcode.replace(/^0+/, ""));
+      return match ? toNutritionFood(match.food) : null;
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type LogLevel = "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+type RequestLog = {
+  requestId: string;
+  fields: LogFields;
+};
+
+const requestLogs = new AsyncLocalStorage<RequestLog>();
+
+/** Writes one JSON line; lines emitted while handling a request carry its `requestId`. */
+export function log(level: LogLevel, message: string, fields: LogFields = {}): void {
+  const requestId = requestLogs.getStore()?.requestId;
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(requestId ? { requestId } : {}),
+    ...fields,
+  });
+
+  if (level === "error") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export function errorFields(error: unknown): LogFields {
+  return error instanceof Error ? { error: error.message, stack: error.stack } : { error: String(error) };
+}
+
+/**
+ * Runs `fn` with a request log that `annotateRequest` and friends write into,
+ * including from background work started during the request. Returns the
+ * fields collected so far; they keep filling until the caller logs them.
+ */
+export function runWithRequestLog<T>(requestId: string, fn: () => T): { result: T; fields: LogFields } {
+  const store: RequestLog = { requestId, fields: {} };
+  return { result: requestLogs.run(store, fn), fields: store.fields };
+}
+
+/** Adds fields to the current request's log line; a no-op outside a request. */
+export function annotateRequest(fields: LogFields): void {
+  const store = requestLogs.getStore();
+  if (store) {
+    Object.assign(store.fields, fields);
+  }
+}
+
+/** Sums repeated measurements such as token counts across several upstream calls. */
+export function incrementRequestField(key: string, amount = 1): void {
+  const store = requestLogs.getStore();
+  if (store) {
+    const current = store.fields[key];
+    store.fields[key] = (typeof current === "number" ? current : 0) + amount;
+  }
+}
+
+export function appendRequestField(key: string, value: unknown): void {
+  const store = requestLogs.getStore();
+  if (store) {
+    const current = store.fields[key];
+    store.fields[key] = Array.isArray(current) ? [...current, value] : [value];
+  }
+}
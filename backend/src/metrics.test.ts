@@ -0,0 +1,34 @@
+import { describe, expect, it } from "bun:test";
+import { createMetricsRegistry } from "./metrics";
+
+describe("metrics", () => {
+  it("renders counters and histograms in Prometheus text format", () => {
+    const registry = createMetricsRegistry();
+    const requests = registry.counter("test_requests_total", "Requests.");
+    const latency = registry.histogram("test_latency_seconds", "Latency.", [1, 0.1]);
+
+    requests.inc({ status: 200, route: "/search" });
+    requests.inc({ route: "/search", status: 200 }, 2);
+    requests.inc({ route: 'say "hi"\n', status: 500 });
+    requests.inc({ route: "/ignored", status: 200 }, 0);
+    latency.observe(0.05);
+    latency.observe(0.5);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP test_requests_total Requests.",
+        "# TYPE test_requests_total counter",
+        'test_requests_total{route="/search",status="200"} 3',
+        'test_requests_total{route="say \\"hi\\"\\n",status="500"} 1',
+        "# HELP test_latency_seconds Latency.",
+        "# TYPE test_latency_seconds histogram",
+        'test_latency_seconds_bucket{le="0.1"} 1',
+        'test_latency_seconds_bucket{le="1"} 2',
+        'test_latency_seconds_bucket{le="+Inf"} 2',
+        "test_latency_seconds_sum 0.55",
+        "test_latency_seconds_count 2",
+        "",
+      ].join("\n"),
+    );
+  });
+});
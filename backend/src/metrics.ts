@@ -0,0 +1,149 @@
+export type MetricLabels = Record<string, string | number>;
+
+export type Counter = {
+  inc(labels?: MetricLabels, amount?: number): void;
+};
+
+export type Histogram = {
+  observe(value: number, labels?: MetricLabels): void;
+};
+
+export type MetricsRegistry = {
+  counter(name: string, help: string): Counter;
+  histogram(name: string, help: string, buckets: number[]): Histogram;
+  /** Prometheus text exposition format (version 0.0.4). */
+  render(): string;
+};
+
+type Series = {
+  labels: MetricLabels;
+  value: number;
+  /** Cumulative counts per bucket, histograms only. */
+  bucketCounts?: number[];
+  count?: number;
+};
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "histogram";
+  buckets: number[];
+  series: Map<string, Series>;
+};
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(String(value))}"`).join(",")}}`;
+}
+
+function seriesFor(metric: Metric, labels: MetricLabels): Series {
+  const sorted = Object.fromEntries(Object.entries(labels).sort(([left], [right]) => left.localeCompare(right)));
+  const key = formatLabels(sorted);
+  let series = metric.series.get(key);
+  if (!series) {
+    series =
+      metric.type === "histogram"
+        ? { labels: sorted, value: 0, count: 0, bucketCounts: metric.buckets.map(() => 0) }
+        : { labels: sorted, value: 0 };
+    metric.series.set(key, series);
+  }
+
+  return series;
+}
+
+function renderMetric(metric: Metric): string[] {
+  const lines = [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`];
+
+  for (const series of metric.series.values()) {
+    if (metric.type === "counter") {
+      lines.push(`${metric.name}${formatLabels(series.labels)} ${series.value}`);
+      continue;
+    }
+
+    metric.buckets.forEach((bucket, index) => {
+      const labels = formatLabels({ ...series.labels, le: bucket });
+      lines.push(`${metric.name}_bucket${labels} ${series.bucketCounts?.[index] ?? 0}`);
+    });
+    lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count ?? 0}`);
+    lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${series.value}`);
+    lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.count ?? 0}`);
+  }
+
+  return lines;
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics: Metric[] = [];
+
+  const register = (name: string, help: string, type: Metric["type"], buckets: number[] = []): Metric => {
+    const metric: Metric = { name, help, type, buckets: [...buckets].sort((left, right) => left - right), series: new Map() };
+    metrics.push(metric);
+    return metric;
+  };
+
+  return {
+    counter(name, help) {
+      const metric = register(name, help, "counter");
+      return {
+        inc(labels = {}, amount = 1) {
+          if (Number.isFinite(amount) && amount > 0) {
+            seriesFor(metric, labels).value += amount;
+          }
+        },
+      };
+    },
+    histogram(name, help, buckets) {
+      const metric = register(name, help, "histogram", buckets);
+      return {
+        observe(value, labels = {}) {
+          const series = seriesFor(metric, labels);
+          series.value += value;
+          series.count = (series.count ?? 0) + 1;
+          metric.buckets.forEach((bucket, index) => {
+            if (value <= bucket && series.bucketCounts) {
+              series.bucketCounts[index] += 1;
+            }
+          });
+        },
+      };
+    },
+    render() {
+      return `${metrics.flatMap(renderMetric).join("\n")}\n`;
+    },
+  };
+}
+
+export const metrics = createMetricsRegistry();
+
+export const httpRequestsTotal = metrics.counter("caloric_http_requests_total", "HTTP requests by route and status.");
+
+export const httpRequestDurationSeconds = metrics.histogram(
+  "caloric_http_request_duration_seconds",
+  "HTTP request latency by route, including the full body for streamed responses.",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+);
+
+export const searchCacheTotal = metrics.counter(
+  "caloric_search_cache_total",
+  "Search responses by combined cache status (hit, stale, miss, none).",
+);
+
+export const mfpUpstreamRequestsTotal = metrics.counter(
+  "caloric_mfp_upstream_requests_total",
+  "MyFitnessPal requests by endpoint and status (error for network failures).",
+);
+
+export const llmTokensTotal = metrics.counter("caloric_llm_tokens_total", "LLM tokens by provider, model and type.");
+
+export const transcriptionAudioSecondsTotal = metrics.counter(
+  "caloric_transcription_audio_seconds_total",
+  "Seconds of audio transcribed by Groq.",
+);
@@ -1,10 +1,22 @@
 import { config } from "./config";
+import { appendRequestField, log } from "./logger";
+import { mfpUpstreamRequestsTotal } from "./metrics";
+import {
+  CircuitOpenError,
+  createCircuitBreaker,
+  isRetryableStatus,
+  parseRetryAfter,
+  retryWithCircuitBreaker,
+} from "./resilience";
+
+export { CircuitOpenError };
 
 type MfpResponse = {
   status: number;
   url: string;
   json: unknown | null;
   text: string | null;
+  retryAfter: string | null;
 };
 
 function getMfpHeaders(): HeadersInit {
@@ -24,13 +36,38 @@ function getMfpHeaders(): HeadersInit {
   return headers;
 }
 
-async function request(pathWithQuery: string): Promise<MfpResponse> {
-  const url = new URL(pathWithQuery, config.mfpBaseUrl);
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getMfpHeaders(),
-    signal: AbortSignal.timeout(config.requestTimeoutMs),
-  });
+type MfpEndpoint = "search" | "detail" | "barcode";
+
+/** Shared by every MyFitnessPal call in this process, so one failing endpoint stops the others too. */
+const circuitBreaker = createCircuitBreaker(config.mfpCircuit, {
+  onStateChange: (state) =>
+    log(state === "closed" ? "info" : "warn", "mfp circuit breaker", {
+      state,
+      ...(state === "open" ? { retryInMs: circuitBreaker.retryInMs() } : {}),
+    }),
+});
+
+/** False while the circuit is open, so callers can answer from the cache without trying upstream. */
+export function isMfpAvailable(): boolean {
+  return circuitBreaker.state() !== "open";
+}
+
+async function send(endpoint: MfpEndpoint, url: URL): Promise<MfpResponse> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "GET",
+      headers: getMfpHeaders(),
+      signal: AbortSignal.timeout(config.requestTimeoutMs),
+    });
+  } catch (error) {
+    mfpUpstreamRequestsTotal.inc({ endpoint, status: "error" });
+    appendRequestField("mfpUpstream", `${endpoint}:error`);
+    throw error;
+  }
+
+  mfpUpstreamRequestsTotal.inc({ endpoint, status: response.status });
+  appendRequestField("mfpUpstream", `${endpoint}:${response.status}`);
 
   const text = await response.text();
   let json: unknown | null = null;
@@ -46,9 +83,36 @@ async function request(pathWithQuery: string): Promise<MfpResponse> {
     url: response.url,
     json,
     text: json ? null : text,
+    retryAfter: response.headers.get("retry-after"),
   };
 }
 
+/**
+ * Retries network errors, timeouts, `429` and `5xx` per `config.mfpRetry`,
+ * and throws `CircuitOpenError` without calling upstream while the circuit
+ * is open. Other statuses, including `401`/`403`, are returned as-is.
+ */
+async function request(endpoint: MfpEndpoint, pathWithQuery: string): Promise<MfpResponse> {
+  const url = new URL(pathWithQuery, config.mfpBaseUrl);
+  try {
+    return await retryWithCircuitBreaker(() => send(endpoint, url), {
+      policy: config.mfpRetry,
+      breaker: circuitBreaker,
+      classify: (response) =>
+        isRetryableStatus(response.status)
+          ? { retryable: true, retryAfterMs: parseRetryAfter(response.retryAfter) }
+          : { retryable: false, retryAfterMs: null },
+    });
+  } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      mfpUpstreamRequestsTotal.inc({ endpoint, status: "circuit_open" });
+      appendRequestField("mfpUpstream", `${endpoint}:circuit_open`);
+    }
+
+    throw error;
+  }
+}
+
 export type SearchParams = {
   query: string;
   offset: number;
@@ -66,10 +130,15 @@ export async function searchNutrition(params: SearchParams): Promise<MfpResponse
     resource_type: params.resourceType,
   });
 
-  return request(`/api/nutrition?${query.toString()}`);
+  return request("search", `/api/nutrition?${query.toString()}`);
 }
 
 export async function fetchFoodDetail(foodId: string, version: string): Promise<MfpResponse> {
   const query = new URLSearchParams({ version });
-  return request(`/api/services/foods/${encodeURIComponent(foodId)}?${query.toString()}`);
+  return request("detail", `/api/services/foods/${encodeURIComponent(foodId)}?${query.toString()}`);
+}
+
+export async function lookupBarcode(barcode: string, countryCode: string): Promise<MfpResponse> {
+  const query = new URLSearchParams({ barcode, country_code: countryCode });
+  return request("barcode", `/api/services/foods/barcode?${query.toString()}`);
 }
@@ -0,0 +1,802 @@
+import { and, asc, desc, eq, inArray, or, sql } from "drizzle-orm";
+import {
+  type CacheFreshness,
+  type CachePolicy,
+  type CacheStatus,
+  classifyCacheEntry,
+  combineCacheStatuses,
+  isCacheableStatus,
+} from "./cache-policy";
+import { config } from "./config";
+import { db } from "./db";
+import { foodSearchText, foods, mfpBarcodeResponses, mfpFoodDetailResponses, mfpSearchResponses } from "./db/schema";
+import {
+  type CatalogFood,
+  catalogFoodToMfpItem,
+  catalogFoodToNutritionFood,
+  parseMfpCatalogFood,
+} from "./food-catalog";
+import { errorFields, log } from "./logger";
+import { CircuitOpenError, fetchFoodDetail, isMfpAvailable, lookupBarcode, searchNutrition } from "./mfp-client";
+import type { NutritionFood, NutritionProvider, ProviderSearchParams } from "./nutrition-provider";
+
+type SearchItem = {
+  item?: {
+    id?: string | number;
+    version?: string | number;
+  };
+};
+
+type StoredSearchResponse = {
+  id: number;
+  mfpStatus: number;
+  mfpUrl: string;
+  responseJson: unknown | null;
+  responseText: string | null;
+  createdAt: Date;
+};
+
+type StoredDetailResponse = {
+  mfpStatus: number;
+  mfpUrl: string;
+  responseJson: unknown | null;
+  responseText: string | null;
+};
+
+type SearchLookup = {
+  query: string;
+  offset: number;
+  maxItems: number;
+  countryCode: string;
+  resourceType: string;
+};
+
+type SearchResponsePayload = {
+  searchResponseId: number;
+  search: {
+    status: number;
+    url: string;
+    data: unknown | null;
+    text: string | null;
+  };
+  detailCount: number;
+  details: {
+    foodId: string;
+    version: string;
+    status: number;
+    data: unknown | null;
+    text: string | null;
+  }[];
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function toCatalogColumns(food: CatalogFood) {
+  return {
+    name: food.name,
+    brand: food.brand,
+    servingSizes: food.servingSizes,
+    calories: food.nutrition.calories ?? null,
+    protein: food.nutrition.protein ?? null,
+    carbs: food.nutrition.carbs ?? null,
+    fat: food.nutrition.fat ?? null,
+    fiber: food.nutrition.fiber ?? null,
+    sugars: food.nutrition.sugars ?? null,
+    sodiumMg: food.nutrition.sodiumMg ?? null,
+    potassiumMg: food.nutrition.potassiumMg ?? null,
+  };
+}
+
+/** Keeps the normalized `foods` table in sync with every successful upstream detail. */
+async function upsertCatalogFood(food: CatalogFood | null): Promise<void> {
+  if (!food) {
+    return;
+  }
+
+  const columns = toCatalogColumns(food);
+  await db
+    .insert(foods)
+    .values({ foodId: food.foodId, version: food.version, ...columns })
+    .onConflictDoUpdate({
+      target: [foods.foodId, foods.version],
+      set: { ...columns, updatedAt: sql`now()` },
+    });
+}
+
+function rowToCatalogFood(row: typeof foods.$inferSelect): CatalogFood {
+  const nutrition = {
+    calories: row.calories ?? undefined,
+    protein: row.protein ?? undefined,
+    carbs: row.carbs ?? undefined,
+    fat: row.fat ?? undefined,
+    fiber: row.fiber ?? undefined,
+    sugars: row.sugars ?? undefined,
+    sodiumMg: row.sodiumMg ?? undefined,
+    potassiumMg: row.potassiumMg ?? undefined,
+  };
+
+  return {
+    foodId: row.foodId,
+    version: row.version,
+    name: row.name,
+    brand: row.brand,
+    servingSizes: row.servingSizes,
+    nutrition: Object.fromEntries(Object.entries(nutrition).filter(([, value]) => value !== undefined)),
+  };
+}
+
+/**
+ * Full-text and trigram search over the `foods` catalog. Word similarity lets
+ * typos such as "chiken brest" still match "Chicken Breast".
+ */
+async function searchCatalogFoods(params: Pick<ProviderSearchParams, "query" | "offset" | "maxItems">) {
+  const query = params.query.toLowerCase();
+  const document = foodSearchText(foods.name, foods.brand);
+  const similarity = sql`word_similarity(${query}, ${document})`;
+
+  return db.transaction(async (tx) => {
+    // `<%` uses the trigram index with this threshold; set_config(..., true) only lasts for the transaction.
+    await tx.execute(
+      sql`select set_config('pg_trgm.word_similarity_threshold', ${String(catalogMinWordSimilarity)}, true)`,
+    );
+
+    const rows = await tx
+      .select()
+      .from(foods)
+      .where(
+        or(
+          sql`to_tsvector('simple', ${document}) @@ plainto_tsquery('simple', ${query})`,
+          sql`${query} <% ${document}`,
+        ),
+      )
+      .orderBy(desc(similarity), asc(sql`length(${foods.name})`), asc(foods.id))
+      .offset(params.offset)
+      .limit(params.maxItems);
+
+    return rows.map(rowToCatalogFood);
+  });
+}
+
+function toCatalogSearchPayload(catalogFoods: CatalogFood[]): Record<string, unknown> {
+  return {
+    searchResponseId: null,
+    search: {
+      status: 200,
+      url: null,
+      data: { items: catalogFoods.map((food) => ({ item: catalogFoodToMfpItem(food) })) },
+      text: null,
+    },
+    detailCount: 0,
+    details: [],
+  };
+}
+
+async function loadCatalogFoods(keys: { foodId: string; version: string }[]): Promise<Map<string, CatalogFood>> {
+  const catalog = new Map<string, CatalogFood>();
+  if (keys.length === 0) {
+    return catalog;
+  }
+
+  const wanted = new Set(keys.map((key) => `${key.foodId}:${key.version}`));
+  const rows = await db
+    .select()
+    .from(foods)
+    .where(inArray(foods.foodId, [...new Set(keys.map((key) => key.foodId))]));
+
+  for (const row of rows) {
+    const compositeId = `${row.foodId}:${row.version}`;
+    if (wanted.has(compositeId)) {
+      catalog.set(compositeId, rowToCatalogFood(row));
+    }
+  }
+
+  return catalog;
+}
+
+const revalidatingKeys = new Set<string>();
+
+const catalogMinWordSimilarity = 0.5;
+
+// With `source=auto`, fewer catalog matches than this fall through to upstream.
+const catalogAutoMinResults = 5;
+
+/**
+ * Refreshes a stale cache row after the cached copy has been served.
+ * Concurrent requests for the same key share one upstream call.
+ */
+function revalidateInBackground(key: string, task: () => Promise<unknown>): void {
+  if (revalidatingKeys.has(key) || !isMfpAvailable()) {
+    return;
+  }
+
+  revalidatingKeys.add(key);
+  void task()
+    .catch((error: unknown) => {
+      log("error", "cache revalidation failed", { key, ...errorFields(error) });
+    })
+    .finally(() => {
+      revalidatingKeys.delete(key);
+    });
+}
+
+/**
+ * While the MyFitnessPal circuit is open, expired rows are served as stale
+ * instead of being refetched, since the refetch would be rejected anyway.
+ */
+function classifyCachedRow(createdAt: Date, policy: CachePolicy): CacheFreshness {
+  const freshness = classifyCacheEntry(createdAt, policy);
+  return freshness === "expired" && !isMfpAvailable() ? "stale" : freshness;
+}
+
+function toSearchPayload(record: Omit<StoredSearchResponse, "createdAt">): {
+  status: number;
+  url: string;
+  data: unknown | null;
+  text: string | null;
+} {
+  return {
+    status: record.mfpStatus,
+    url: record.mfpUrl,
+    data: record.responseJson,
+    text: record.responseText,
+  };
+}
+
+function toDetailPayload(
+  key: { foodId: string; version: string },
+  record: StoredDetailResponse,
+): {
+  foodId: string;
+  version: string;
+  status: number;
+  data: unknown | null;
+  text: string | null;
+} {
+  return {
+    foodId: key.foodId,
+    version: key.version,
+    status: record.mfpStatus,
+    data: record.responseJson,
+    text: record.responseText,
+  };
+}
+
+// Failed upstream responses stay in the tables for debugging but are never served from cache.
+async function findCachedSearch(params: SearchLookup): Promise<StoredSearchResponse | null> {
+  const [cachedSearch] = await db
+    .select({
+      id: mfpSearchResponses.id,
+      mfpStatus: mfpSearchResponses.mfpStatus,
+      mfpUrl: mfpSearchResponses.mfpUrl,
+      responseJson: mfpSearchResponses.responseJson,
+      responseText: mfpSearchResponses.responseText,
+      createdAt: mfpSearchResponses.createdAt,
+    })
+    .from(mfpSearchResponses)
+    .where(
+      and(
+        eq(mfpSearchResponses.query, params.query),
+        eq(mfpSearchResponses.offset, params.offset),
+        eq(mfpSearchResponses.maxItems, params.maxItems),
+        eq(mfpSearchResponses.countryCode, params.countryCode),
+        eq(mfpSearchResponses.resourceType, params.resourceType),
+        eq(mfpSearchResponses.mfpStatus, 200),
+      ),
+    )
+    .orderBy(desc(mfpSearchResponses.createdAt), desc(mfpSearchResponses.id))
+    .limit(1);
+
+  return cachedSearch ?? null;
+}
+
+async function findCachedDetail(
+  foodId: string,
+  version: string,
+): Promise<(StoredDetailResponse & { createdAt: Date }) | null> {
+  const [cachedDetail] = await db
+    .select({
+      mfpStatus: mfpFoodDetailResponses.mfpStatus,
+      mfpUrl: mfpFoodDetailResponses.mfpUrl,
+      responseJson: mfpFoodDetailResponses.responseJson,
+      responseText: mfpFoodDetailResponses.responseText,
+      createdAt: mfpFoodDetailResponses.createdAt,
+    })
+    .from(mfpFoodDetailResponses)
+    .where(
+      and(
+        eq(mfpFoodDetailResponses.foodId, foodId),
+        eq(mfpFoodDetailResponses.version, version),
+        eq(mfpFoodDetailResponses.mfpStatus, 200),
+      ),
+    )
+    .orderBy(desc(mfpFoodDetailResponses.createdAt), desc(mfpFoodDetailResponses.id))
+    .limit(1);
+
+  return cachedDetail ?? null;
+}
+
+async function saveDetailForSearch(params: {
+  searchResponseId: number;
+  foodId: string;
+  version: string;
+  mfpUrl: string;
+  mfpStatus: number;
+  responseJson: unknown | null;
+  responseText: string | null;
+}): Promise<void> {
+  await db
+    .insert(mfpFoodDetailResponses)
+    .values({
+      searchResponseId: params.searchResponseId,
+      foodId: params.foodId,
+      version: params.version,
+      mfpUrl: params.mfpUrl,
+      mfpStatus: params.mfpStatus,
+      responseJson: params.responseJson,
+      responseText: params.responseText,
+    })
+    .onConflictDoUpdate({
+      target: [
+        mfpFoodDetailResponses.searchResponseId,
+        mfpFoodDetailResponses.foodId,
+        mfpFoodDetailResponses.version,
+      ],
+      set: {
+        mfpUrl: params.mfpUrl,
+        mfpStatus: params.mfpStatus,
+        responseJson: params.responseJson,
+        responseText: params.responseText,
+        createdAt: sql`now()`,
+      },
+      // A failed refetch must not overwrite a good response already linked to this search.
+      setWhere: sql`excluded.mfp_status = 200 or ${mfpFoodDetailResponses.mfpStatus} <> 200`,
+    });
+}
+
+async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], concurrency: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let cursor = 0;
+
+  const workers = Array.from({ length: Math.min(concurrency, tasks.length) }, async () => {
+    while (cursor < tasks.length) {
+      const current = cursor;
+      cursor += 1;
+      results[current] = await tasks[current]();
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+function extractDetailKeys(searchJson: unknown): { foodId: string; version: string }[] {
+  if (!searchJson || typeof searchJson !== "object") {
+    return [];
+  }
+
+  const items = (searchJson as { items?: SearchItem[] }).items;
+  if (!items || !Array.isArray(items)) {
+    return [];
+  }
+
+  const dedupe = new Set<string>();
+  const keys: { foodId: string; version: string }[] = [];
+
+  for (const row of items) {
+    const id = row?.item?.id;
+    const version = row?.item?.version;
+    if (id === undefined || version === undefined) {
+      continue;
+    }
+
+    const foodId = String(id);
+    const foodVersion = String(version);
+    const unique = `${foodId}:${foodVersion}`;
+    if (dedupe.has(unique)) {
+      continue;
+    }
+    dedupe.add(unique);
+    keys.push({ foodId, version: foodVersion });
+  }
+
+  return keys;
+}
+
+async function fetchAndStoreSearch(lookup: SearchLookup): Promise<Omit<StoredSearchResponse, "createdAt">> {
+  const searchResponse = await searchNutrition(lookup);
+  const [savedSearch] = await db
+    .insert(mfpSearchResponses)
+    .values({
+      ...lookup,
+      mfpUrl: searchResponse.url,
+      mfpStatus: searchResponse.status,
+      responseJson: searchResponse.json,
+      responseText: searchResponse.text,
+    })
+    .returning({ id: mfpSearchResponses.id });
+
+  return {
+    id: savedSearch.id,
+    mfpStatus: searchResponse.status,
+    mfpUrl: searchResponse.url,
+    responseJson: searchResponse.json,
+    responseText: searchResponse.text,
+  };
+}
+
+async function fetchAndStoreDetail(
+  searchResponseId: number,
+  key: { foodId: string; version: string },
+): Promise<StoredDetailResponse> {
+  let detail: StoredDetailResponse;
+  try {
+    const detailResponse = await fetchFoodDetail(key.foodId, key.version);
+    detail = {
+      mfpStatus: detailResponse.status,
+      mfpUrl: detailResponse.url,
+      responseJson: detailResponse.json,
+      responseText: detailResponse.text,
+    };
+  } catch (error) {
+    detail = {
+      mfpStatus: 0,
+      mfpUrl: `${config.mfpBaseUrl}/api/services/foods/${key.foodId}?version=${key.version}`,
+      responseJson: null,
+      responseText: error instanceof Error ? error.message : String(error),
+    };
+
+    // Upstream was never called, so there is nothing worth keeping for debugging.
+    if (error instanceof CircuitOpenError) {
+      return detail;
+    }
+  }
+
+  await saveDetailForSearch({ searchResponseId, ...key, ...detail });
+  if (isCacheableStatus(detail.mfpStatus)) {
+    await upsertCatalogFood(parseMfpCatalogFood(detail.responseJson));
+  }
+
+  return detail;
+}
+
+function toSearchLookup(params: ProviderSearchParams): SearchLookup {
+  return {
+    query: params.query,
+    offset: params.offset,
+    maxItems: params.maxItems,
+    countryCode: params.countryCode,
+    resourceType: params.resourceType,
+  };
+}
+
+async function executeSearch(
+  params: ProviderSearchParams,
+  cachedSearch: StoredSearchResponse | null,
+): Promise<{ payload: SearchResponsePayload; cache: CacheStatus }> {
+  const searchLookup = toSearchLookup(params);
+  const searchFreshness = cachedSearch ? classifyCachedRow(cachedSearch.createdAt, config.searchCache) : "expired";
+  const cacheStatuses: CacheStatus[] = [];
+
+  let storedSearch: Omit<StoredSearchResponse, "createdAt">;
+  if (cachedSearch && searchFreshness !== "expired") {
+    storedSearch = cachedSearch;
+    if (searchFreshness === "stale") {
+      cacheStatuses.push("stale");
+      revalidateInBackground(`search:${JSON.stringify(searchLookup)}`, () => fetchAndStoreSearch(searchLookup));
+    } else {
+      cacheStatuses.push("hit");
+    }
+  } else {
+    storedSearch = await fetchAndStoreSearch(searchLookup);
+    cacheStatuses.push("miss");
+  }
+
+  const searchResponseId = storedSearch.id;
+  const searchPayload = toSearchPayload(storedSearch);
+
+  if (!params.includeDetails || !searchPayload.data || !isCacheableStatus(searchPayload.status)) {
+    return {
+      payload: {
+        searchResponseId,
+        search: searchPayload,
+        detailCount: 0,
+        details: [],
+      },
+      cache: combineCacheStatuses(cacheStatuses) ?? "miss",
+    };
+  }
+
+  const detailKeys = extractDetailKeys(searchPayload.data);
+
+  const detailTasks = detailKeys.map((key) => async () => {
+    const cachedDetail = await findCachedDetail(key.foodId, key.version);
+    const detailFreshness = cachedDetail ? classifyCachedRow(cachedDetail.createdAt, config.detailCache) : "expired";
+
+    if (cachedDetail && detailFreshness !== "expired") {
+      await saveDetailForSearch({
+        searchResponseId,
+        foodId: key.foodId,
+        version: key.version,
+        mfpUrl: cachedDetail.mfpUrl,
+        mfpStatus: cachedDetail.mfpStatus,
+        responseJson: cachedDetail.responseJson,
+        responseText: cachedDetail.responseText,
+      });
+
+      if (detailFreshness === "stale") {
+        cacheStatuses.push("stale");
+        revalidateInBackground(`detail:${searchResponseId}:${key.foodId}:${key.version}`, () =>
+          fetchAndStoreDetail(searchResponseId, key),
+        );
+      }
+
+      return toDetailPayload(key, cachedDetail);
+    }
+
+    cacheStatuses.push("miss");
+    return toDetailPayload(key, await fetchAndStoreDetail(searchResponseId, key));
+  });
+
+  const details = await runWithConcurrency(detailTasks, config.detailConcurrency);
+
+  return {
+    payload: {
+      searchResponseId,
+      search: searchPayload,
+      detailCount: details.length,
+      details,
+    },
+    cache: combineCacheStatuses(cacheStatuses) ?? "miss",
+  };
+}
+
+function mapSearchResults(payload: SearchResponsePayload, catalog: Map<string, CatalogFood>): NutritionFood[] {
+  const detailById = new Map<string, CatalogFood>();
+
+  for (const detail of payload.details ?? []) {
+    if (detail.status !== 200) {
+      continue;
+    }
+
+    const food = parseMfpCatalogFood(detail.data);
+    if (food) {
+      detailById.set(`${food.foodId}:${food.version}`, food);
+    }
+  }
+
+  const items = payload.search.data && typeof payload.search.data === "object"
+    ? (payload.search.data as { items?: { item?: unknown }[] }).items
+    : undefined;
+
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  const results: NutritionFood[] = [];
+  const seen = new Set<string>();
+
+  for (const row of items) {
+    const item = parseMfpCatalogFood(row?.item);
+    if (!item) {
+      continue;
+    }
+
+    const compositeId = `${item.foodId}:${item.version}`;
+    if (seen.has(compositeId)) {
+      continue;
+    }
+    seen.add(compositeId);
+
+    const food = catalog.get(compositeId) ?? detailById.get(compositeId) ?? item;
+    results.push(catalogFoodToNutritionFood(food));
+  }
+
+  return results;
+}
+
+function extractBarcodeFood(data: unknown): CatalogFood | null {
+  const candidate = Array.isArray(data) ? data[0] : data;
+  const record = asRecord(candidate);
+  if (!record) {
+    return null;
+  }
+
+  if (Array.isArray(record.items)) {
+    const first = asRecord(record.items[0]);
+    return parseMfpCatalogFood(asRecord(first?.item) ?? first);
+  }
+
+  return parseMfpCatalogFood(asRecord(record.item) ?? record);
+}
+
+/**
+ * Returns the newest `200` or `404` row. A `404` is a negative result: the
+ * barcode is unknown upstream, which is worth remembering for a short while.
+ */
+async function findCachedBarcode(barcode: string, countryCode: string): Promise<StoredSearchResponse | null> {
+  const [cachedBarcode] = await db
+    .select({
+      id: mfpBarcodeResponses.id,
+      mfpStatus: mfpBarcodeResponses.mfpStatus,
+      mfpUrl: mfpBarcodeResponses.mfpUrl,
+      responseJson: mfpBarcodeResponses.responseJson,
+      responseText: mfpBarcodeResponses.responseText,
+      createdAt: mfpBarcodeResponses.createdAt,
+    })
+    .from(mfpBarcodeResponses)
+    .where(
+      and(
+        eq(mfpBarcodeResponses.barcode, barcode),
+        eq(mfpBarcodeResponses.countryCode, countryCode),
+        inArray(mfpBarcodeResponses.mfpStatus, [200, 404]),
+      ),
+    )
+    .orderBy(desc(mfpBarcodeResponses.createdAt), desc(mfpBarcodeResponses.id))
+    .limit(1);
+
+  return cachedBarcode ?? null;
+}
+
+/** Negative rows are not stretched while the circuit is open; past their stale window they are refetched. */
+function classifyCachedBarcode(row: StoredSearchResponse): CacheFreshness {
+  return isCacheableStatus(row.mfpStatus)
+    ? classifyCachedRow(row.createdAt, config.detailCache)
+    : classifyCacheEntry(row.createdAt, config.barcodeNotFoundCache);
+}
+
+/**
+ * Barcode payloads can leave out serving sizes. Like search results, such
+ * foods are completed from their detail, falling back to the bare payload.
+ */
+async function toBarcodeFood(food: CatalogFood): Promise<NutritionFood> {
+  const barcodeFood = catalogFoodToNutritionFood(food);
+  if (food.servingSizes.length > 0) {
+    return barcodeFood;
+  }
+
+  try {
+    const detail = await executeDetailLookup(barcodeFood.id);
+    return detail?.servingSizes ? detail : barcodeFood;
+  } catch (error) {
+    log("warn", "barcode detail lookup failed", { foodId: barcodeFood.id, ...errorFields(error) });
+    return barcodeFood;
+  }
+}
+
+async function executeBarcodeLookup(
+  barcode: string,
+  countryCode: string,
+): Promise<{ status: number; food: NutritionFood | null }> {
+  const fetchAndStoreBarcode = async () => {
+    const response = await lookupBarcode(barcode, countryCode);
+    await db.insert(mfpBarcodeResponses).values({
+      barcode,
+      countryCode,
+      mfpUrl: response.url,
+      mfpStatus: response.status,
+      responseJson: response.json,
+      responseText: response.text,
+    });
+    const food = isCacheableStatus(response.status) ? extractBarcodeFood(response.json) : null;
+    // Without serving sizes the catalog row from a detail lookup is more complete; keep it.
+    if (food && food.servingSizes.length > 0) {
+      await upsertCatalogFood(food);
+    }
+
+    return response;
+  };
+
+  const cachedBarcode = await findCachedBarcode(barcode, countryCode);
+  const freshness = cachedBarcode ? classifyCachedBarcode(cachedBarcode) : "expired";
+  if (cachedBarcode && freshness !== "expired") {
+    if (freshness === "stale") {
+      revalidateInBackground(`barcode:${barcode}:${countryCode}`, fetchAndStoreBarcode);
+    }
+
+    const food = isCacheableStatus(cachedBarcode.mfpStatus) ? extractBarcodeFood(cachedBarcode.responseJson) : null;
+    return {
+      status: cachedBarcode.mfpStatus,
+      food: food ? await toBarcodeFood(food) : null,
+    };
+  }
+
+  const response = await fetchAndStoreBarcode();
+  const food = response.status === 200 ? extractBarcodeFood(response.json) : null;
+  return {
+    status: response.status,
+    food: food ? await toBarcodeFood(food) : null,
+  };
+}
+
+async function executeDetailLookup(compositeId: string): Promise<NutritionFood | null> {
+  const separator = compositeId.lastIndexOf(":");
+  const foodId = separator > 0 ? compositeId.slice(0, separator) : "";
+  const version = separator > 0 ? compositeId.slice(separator + 1) : "";
+  if (!foodId || !version) {
+    return null;
+  }
+
+  // Stale rows are served without a refresh here; the next search that includes this food revalidates it.
+  const cachedDetail = await findCachedDetail(foodId, version);
+  if (cachedDetail && classifyCachedRow(cachedDetail.createdAt, config.detailCache) !== "expired") {
+    const food = parseMfpCatalogFood(cachedDetail.responseJson);
+    return food ? catalogFoodToNutritionFood(food) : null;
+  }
+
+  // Detail rows are stored per search response, so a standalone lookup only updates the catalog.
+  let response: Awaited<ReturnType<typeof fetchFoodDetail>>;
+  try {
+    response = await fetchFoodDetail(foodId, version);
+  } catch (error) {
+    const catalogFood =
+      error instanceof CircuitOpenError ? (await loadCatalogFoods([{ foodId, version }])).get(compositeId) : undefined;
+    if (catalogFood) {
+      return catalogFoodToNutritionFood(catalogFood);
+    }
+
+    throw error;
+  }
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (response.status !== 200) {
+    throw new Error(`Food detail lookup failed with ${response.status}`);
+  }
+
+  const food = parseMfpCatalogFood(response.json);
+  await upsertCatalogFood(food);
+  return food ? catalogFoodToNutritionFood(food) : null;
+}
+
+export const mfpProvider: NutritionProvider = {
+  id: "mfp",
+  async search(params) {
+    const cachedSearch = params.source === "local" ? null : await findCachedSearch(toSearchLookup(params));
+    const hasUsableSearch =
+      cachedSearch !== null && classifyCachedRow(cachedSearch.createdAt, config.searchCache) !== "expired";
+
+    // With the circuit open, any catalog match beats failing the search.
+    const mfpAvailable = isMfpAvailable();
+    const catalogFallback = params.source === "auto" || !mfpAvailable;
+    const tryCatalog =
+      params.source === "local" || (catalogFallback && !hasUsableSearch && params.resourceType === "foods");
+    if (tryCatalog) {
+      const catalogFoods = await searchCatalogFoods(params);
+      const minResults = mfpAvailable ? Math.min(params.maxItems, catalogAutoMinResults) : 1;
+      if (params.source === "local" || catalogFoods.length >= minResults) {
+        return {
+          foods: catalogFoods.map(catalogFoodToNutritionFood),
+          raw: toCatalogSearchPayload(catalogFoods),
+          cache: params.source === "local" || mfpAvailable ? "hit" : "stale",
+        };
+      }
+    }
+
+    const { payload, cache } = await executeSearch(params, cachedSearch);
+    if (!isCacheableStatus(payload.search.status)) {
+      throw new Error(`Search failed with ${payload.search.status}`);
+    }
+
+    const catalog = await loadCatalogFoods(extractDetailKeys(payload.search.data));
+    return {
+      foods: mapSearchResults(payload, catalog),
+      raw: payload,
+      cache,
+    };
+  },
+  detail: executeDetailLookup,
+  async barcode(barcode, countryCode) {
+    const lookup = await executeBarcodeLookup(barcode, countryCode);
+    if (lookup.food || lookup.status === 200 || lookup.status === 404) {
+      return lookup.food;
+    }
+
+    throw new Error(`Barcode lookup failed with ${lookup.status}`);
+  },
+};
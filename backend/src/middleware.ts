@@ -0,0 +1,179 @@
+import { type SessionTokenOptions, extractBearerToken, verifySessionToken } from "./auth";
+import { enforceRateLimit, json } from "./http";
+import { type LogFields, annotateRequest, errorFields, log, runWithRequestLog } from "./logger";
+import { httpRequestDurationSeconds, httpRequestsTotal } from "./metrics";
+import type { RateLimiter } from "./rate-limit";
+import type { Middleware } from "./router";
+
+/** Turns uncaught handler errors into a JSON `500` instead of Bun's HTML error page. */
+export function errorMapping(): Middleware {
+  return async (context, next) => {
+    try {
+      return await next();
+    } catch (error) {
+      log("error", "unhandled route error", {
+        method: context.request.method,
+        route: context.route ?? context.url.pathname,
+        ...errorFields(error),
+      });
+      return json({ error: "internal_error", requestId: context.requestId }, 500);
+    }
+  };
+}
+
+export type CorsOptions = {
+  /** Exact origins such as `https://caloric.example`; `*` allows any origin. */
+  allowedOrigins: string[];
+  /** How long browsers may cache a preflight answer. */
+  maxAgeSeconds?: number;
+};
+
+/** Headers the web app needs to read from cross-origin responses. */
+const exposedHeaders = ["Retry-After", "X-Cache", "X-Request-Id"];
+
+/**
+ * Answers preflight requests for allowed origins and adds CORS headers to
+ * every other response, including errors. Requests from other origins get no
+ * CORS headers, so browsers block them while native clients are unaffected.
+ * Register it before `errorMapping` so failures keep their CORS headers.
+ */
+export function cors(options: CorsOptions): Middleware {
+  const allowAny = options.allowedOrigins.includes("*");
+  const allowedOrigins = new Set(options.allowedOrigins.map((origin) => origin.replace(/\/+$/, "")));
+
+  return async (context, next) => {
+    const origin = context.request.headers.get("origin");
+    if (!origin) {
+      return next();
+    }
+
+    const allowed = allowAny || allowedOrigins.has(origin);
+    const requestedMethod = context.request.headers.get("access-control-request-method");
+    const isPreflight = context.request.method === "OPTIONS" && requestedMethod !== null;
+
+    if (isPreflight && context.allowedMethods.length > 0) {
+      if (!allowed) {
+        return json({ error: "cors_forbidden", message: `Origin ${origin} is not allowed.` }, 403, { Vary: "Origin" });
+      }
+
+      return new Response(null, {
+        status: 204,
+        headers: {
+          "Access-Control-Allow-Origin": allowAny ? "*" : origin,
+          "Access-Control-Allow-Methods": [...context.allowedMethods, "OPTIONS"].join(", "),
+          "Access-Control-Allow-Headers":
+            context.request.headers.get("access-control-request-headers") ?? "Authorization, Content-Type",
+          "Access-Control-Max-Age": String(options.maxAgeSeconds ?? 600),
+          Vary: "Origin, Access-Control-Request-Method, Access-Control-Request-Headers",
+        },
+      });
+    }
+
+    const response = await next();
+    response.headers.append("Vary", "Origin");
+    if (allowed) {
+      response.headers.set("Access-Control-Allow-Origin", allowAny ? "*" : origin);
+      response.headers.set("Access-Control-Expose-Headers", exposedHeaders.join(", "));
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Echoes the request id in `X-Request-Id`, then writes one JSON log line and
+ * records metrics per request. Streamed (SSE) responses are logged when the
+ * stream ends so latency and token usage cover the whole turn. Fields added
+ * with `annotateRequest` during the request are included in the line.
+ */
+export function requestLogging(
+  write: (fields: LogFields) => void = (fields) => log("info", "request", fields),
+): Middleware {
+  return async (context, next) => {
+    const startedAt = performance.now();
+    const { result, fields } = runWithRequestLog(context.requestId, next);
+    const response = await result;
+    response.headers.set("X-Request-Id", context.requestId);
+
+    const finish = (extra: LogFields = {}) => {
+      const durationMs = performance.now() - startedAt;
+      // Unmatched paths share one label so scanners cannot blow up metric cardinality.
+      const route = context.route ?? "unmatched";
+      httpRequestsTotal.inc({ method: context.request.method, route, status: response.status });
+      httpRequestDurationSeconds.observe(durationMs / 1000, { method: context.request.method, route });
+      write({
+        requestId: context.requestId,
+        method: context.request.method,
+        route,
+        path: context.url.pathname,
+        status: response.status,
+        durationMs: Math.round(durationMs),
+        ...(context.user ? { userId: context.user.userId } : {}),
+        ...fields,
+        ...extra,
+      });
+    };
+
+    const isStream = response.headers.get("content-type")?.startsWith("text/event-stream");
+    if (!isStream || !response.body) {
+      finish();
+      return response;
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const chunk = await reader.read();
+          if (chunk.done) {
+            finish();
+            controller.close();
+          } else {
+            controller.enqueue(chunk.value);
+          }
+        } catch (error) {
+          finish({ streamError: error instanceof Error ? error.message : String(error) });
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        finish({ clientAborted: true });
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  };
+}
+
+/**
+ * Verifies the Clerk session token and sets `context.user`. Failed attempts
+ * draw from a per-IP `anonymous` budget so token guessing is throttled too.
+ */
+export function requireAuth(options: SessionTokenOptions, rateLimiter: RateLimiter): Middleware {
+  return async (context, next) => {
+    const unauthorized = async (message: string) =>
+      (await enforceRateLimit(rateLimiter, "anonymous", `ip:${context.clientIp}`)) ??
+      json({ error: "unauthorized", message }, 401, { "WWW-Authenticate": 'Bearer realm="caloric"' });
+
+    const token = extractBearerToken(context.request.headers.get("authorization"));
+    if (!token) {
+      return unauthorized("Missing bearer token.");
+    }
+
+    let result: Awaited<ReturnType<typeof verifySessionToken>>;
+    try {
+      result = await verifySessionToken(token, options);
+    } catch (error) {
+      annotateRequest(errorFields(error));
+      return json({ error: "auth_unavailable", message: "Sign-in could not be verified. Try again shortly." }, 503);
+    }
+
+    if ("error" in result) {
+      return unauthorized(result.error);
+    }
+
+    context.user = result.user;
+    return next();
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import { type NutritionFood, mergeProviderFoods, parseProviderIds, parseSearchSource } from "./nutrition-provider";
+
+describe("nutrition-provider", () => {
+  it("parses provider lists, expands all and rejects unknown names", () => {
+    expect(parseProviderIds(null, ["mfp"])).toEqual({ providers: ["mfp"] });
+    expect(parseProviderIds(" Local , mfp,local ", ["mfp"])).toEqual({ providers: ["local", "mfp"] });
+    expect(parseProviderIds("all", ["mfp"])).toEqual({ providers: ["mfp", "local"] });
+    expect(parseProviderIds("usda", ["mfp"])).toEqual({
+      error: 'Unknown provider "usda". Use one of: mfp, local, all.',
+    });
+  });
+
+  it("parses search sources and defaults to auto", () => {
+    expect(parseSearchSource(null)).toBe("auto");
+    expect(parseSearchSource(" Local ")).toBe("local");
+    expect(parseSearchSource("upstream")).toBe("upstream");
+    expect(parseSearchSource("cache")).toBeNull();
+  });
+
+  it("merges results in provider order and drops duplicate name/brand pairs", () => {
+    const local: NutritionFood[] = [
+      { provider: "local", id: "173944", name: "Bananas, raw" },
+      { provider: "local", id: "171688", name: "Apples, raw" },
+    ];
+    const mfp: NutritionFood[] = [
+      { provider: "mfp", id: "1:1", name: "bananas  RAW" },
+      { provider: "mfp", id: "2:1", name: "Banana", brand: "Chiquita" },
+      { provider: "mfp", id: "3:1", name: "Banana bread" },
+    ];
+
+    expect(mergeProviderFoods([local, mfp], 10).map((food) => food.id)).toEqual([
+      "173944",
+      "171688",
+      "2:1",
+      "3:1",
+    ]);
+    expect(mergeProviderFoods([local, mfp], 3).map((food) => food.id)).toEqual(["173944", "171688", "2:1"]);
+  });
+});
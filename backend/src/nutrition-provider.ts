@@ -0,0 +1,199 @@
+import { type CacheStatus, combineCacheStatuses } from "./cache-policy";
+import type { SearchNutrition, SearchResultFood, SearchServingSize } from "./shared/search-contract";
+import { normalizeSearchText } from "./shared/search-text";
+
+export const nutritionProviderIds = ["mfp", "local"] as const;
+
+export type NutritionProviderId = (typeof nutritionProviderIds)[number];
+
+/**
+ * Where the `mfp` provider may answer from: `local` only searches foods already
+ * cataloged, `upstream` skips the catalog, `auto` tries the catalog when the exact
+ * search is not cached and only calls upstream when it finds too few foods.
+ */
+export const searchSources = ["auto", "local", "upstream"] as const;
+
+export type SearchSource = (typeof searchSources)[number];
+
+export type FoodNutrition = SearchNutrition;
+
+export type NutritionFood = {
+  provider: NutritionProviderId;
+  id: string;
+  name: string;
+  brand?: string;
+  serving?: string;
+  servingSizes?: SearchServingSize[];
+  nutrition?: FoodNutrition;
+};
+
+export type ProviderSearchParams = {
+  query: string;
+  offset: number;
+  maxItems: number;
+  countryCode: string;
+  resourceType: string;
+  includeDetails: boolean;
+  source: SearchSource;
+};
+
+export type ProviderSearchResult = {
+  foods: NutritionFood[];
+  raw?: Record<string, unknown>;
+  /** Set by providers backed by the response cache; omitted for in-memory providers. */
+  cache?: CacheStatus;
+};
+
+export type NutritionProvider = {
+  id: NutritionProviderId;
+  search(params: ProviderSearchParams): Promise<ProviderSearchResult>;
+  detail(foodId: string): Promise<NutritionFood | null>;
+  barcode(barcode: string, countryCode: string): Promise<NutritionFood | null>;
+};
+
+export type ProviderStatus = {
+  provider: NutritionProviderId;
+  ok: boolean;
+  count: number;
+  error?: string;
+};
+
+function isNutritionProviderId(value: string): value is NutritionProviderId {
+  return (nutritionProviderIds as readonly string[]).includes(value);
+}
+
+export function parseSearchSource(raw: string | null): SearchSource | null {
+  const value = (raw ?? "").trim().toLowerCase();
+  if (!value) {
+    return "auto";
+  }
+
+  return (searchSources as readonly string[]).includes(value) ? (value as SearchSource) : null;
+}
+
+/**
+ * Parses a `provider` query value such as `mfp`, `local,mfp` or `all`.
+ * Unknown names are rejected so typos do not silently fall back to MFP.
+ */
+export function parseProviderIds(
+  raw: string | null,
+  fallback: readonly NutritionProviderId[],
+): { providers: NutritionProviderId[] } | { error: string } {
+  if (raw === null || raw.trim() === "") {
+    return { providers: [...fallback] };
+  }
+
+  const providers: NutritionProviderId[] = [];
+  for (const part of raw.split(",")) {
+    const name = part.trim().toLowerCase();
+    if (!name) {
+      continue;
+    }
+
+    if (name === "all") {
+      for (const id of nutritionProviderIds) {
+        if (!providers.includes(id)) {
+          providers.push(id);
+        }
+      }
+      continue;
+    }
+
+    if (!isNutritionProviderId(name)) {
+      return { error: `Unknown provider "${name}". Use one of: ${nutritionProviderIds.join(", ")}, all.` };
+    }
+
+    if (!providers.includes(name)) {
+      providers.push(name);
+    }
+  }
+
+  return providers.length > 0 ? { providers } : { providers: [...fallback] };
+}
+
+/**
+ * Concatenates provider results in request order and drops later foods whose
+ * name and brand match one already kept, so the first provider listed wins.
+ */
+export function mergeProviderFoods(lists: NutritionFood[][], maxItems: number): NutritionFood[] {
+  const merged: NutritionFood[] = [];
+  const seen = new Set<string>();
+
+  for (const foods of lists) {
+    for (const food of foods) {
+      if (merged.length >= maxItems) {
+        return merged;
+      }
+
+      const key = `${normalizeSearchText(food.name)}|${normalizeSearchText(food.brand ?? "")}`;
+      if (seen.has(key)) {
+        continue;
+      }
+
+      seen.add(key);
+      merged.push(food);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Queries providers in parallel and merges their foods in provider order.
+ * Fails only when every provider fails; partial failures are reported per provider.
+ */
+export async function searchWithProviders(
+  providers: NutritionProvider[],
+  params: ProviderSearchParams,
+): Promise<{
+  foods: NutritionFood[];
+  providers: ProviderStatus[];
+  raw: Record<string, unknown> | null;
+  cache: CacheStatus | null;
+}> {
+  const settled = await Promise.allSettled(providers.map((provider) => provider.search(params)));
+
+  const lists: NutritionFood[][] = [];
+  const statuses: ProviderStatus[] = [];
+  const cacheStatuses: CacheStatus[] = [];
+  let raw: Record<string, unknown> | null = null;
+
+  settled.forEach((result, index) => {
+    const provider = providers[index].id;
+    if (result.status === "fulfilled") {
+      lists.push(result.value.foods);
+      statuses.push({ provider, ok: true, count: result.value.foods.length });
+      raw ??= result.value.raw ?? null;
+      if (result.value.cache) {
+        cacheStatuses.push(result.value.cache);
+      }
+      return;
+    }
+
+    const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    statuses.push({ provider, ok: false, count: 0, error: message });
+  });
+
+  if (lists.length === 0) {
+    throw new Error(statuses.map((status) => `${status.provider}: ${status.error}`).join("; "));
+  }
+
+  return {
+    foods: mergeProviderFoods(lists, params.maxItems),
+    providers: statuses,
+    raw,
+    cache: combineCacheStatuses(cacheStatuses),
+  };
+}
+
+export function toSearchResultFood(food: NutritionFood): SearchResultFood {
+  return {
+    resultId: food.id,
+    source: food.provider,
+    name: food.name,
+    brand: food.brand,
+    serving: food.serving,
+    servingSizes: food.servingSizes,
+    nutrition: food.nutrition,
+  };
+}
@@ -0,0 +1,258 @@
+import type { OpenRouterToolCall } from "./ai-session";
+import {
+  type LlmProvider,
+  type LlmProviderId,
+  type LlmTurn,
+  type LlmTurnRequest,
+  type LlmUsage,
+  attachImages,
+} from "./llm-provider";
+import {
+  accumulatedToolCalls,
+  applyChatCompletionChunk,
+  createChatCompletionAccumulator,
+  readSseData,
+} from "./shared/ai-stream";
+
+export type OpenAiCompatibleOptions = {
+  id?: LlmProviderId;
+  /** Base URL up to and including the API version, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  /** Vision-capable model for turns with photos; without it photos are not accepted. */
+  visionModel?: string;
+  /** Name used in error messages. */
+  label?: string;
+  /** Provider-specific request fields merged into every chat completion body. */
+  extraBody?: (request: LlmTurnRequest) => Record<string, unknown>;
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    const normalized = value.trim();
+    return normalized.length > 0 ? normalized : undefined;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return undefined;
+}
+
+function parseMessageText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        const record = asRecord(part);
+        if (!record) {
+          return "";
+        }
+
+        const text = record.text;
+        return typeof text === "string" ? text : "";
+      })
+      .join("");
+  }
+
+  return "";
+}
+
+function parseToolCalls(raw: unknown): OpenRouterToolCall[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const output: OpenRouterToolCall[] = [];
+
+  for (const candidate of raw) {
+    const record = asRecord(candidate);
+    if (!record) {
+      continue;
+    }
+
+    const id = asString(record.id);
+    const type = record.type;
+    const fn = asRecord(record.function);
+    const name = asString(fn?.name);
+
+    if (!id || type !== "function" || !name) {
+      continue;
+    }
+
+    const fnArgsRaw = fn?.arguments;
+    let args = "";
+    if (typeof fnArgsRaw === "string") {
+      args = fnArgsRaw;
+    } else if (fnArgsRaw !== undefined) {
+      try {
+        args = JSON.stringify(fnArgsRaw);
+      } catch {
+        args = "";
+      }
+    }
+
+    output.push({
+      id,
+      type: "function",
+      function: {
+        name,
+        arguments: args,
+      },
+    });
+  }
+
+  return output;
+}
+
+function parseUsage(raw: unknown): LlmUsage | undefined {
+  const usage = asRecord(raw);
+  const promptTokens = usage?.prompt_tokens;
+  const completionTokens = usage?.completion_tokens;
+  if (typeof promptTokens !== "number" || typeof completionTokens !== "number") {
+    return undefined;
+  }
+
+  return { promptTokens, completionTokens };
+}
+
+async function readCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  label: string,
+  onTextDelta: (text: string) => void,
+): Promise<LlmTurn> {
+  const accumulator = createChatCompletionAccumulator();
+
+  for await (const data of readSseData(body)) {
+    let chunk: unknown;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      throw new Error(`${label} streamed invalid JSON.`);
+    }
+
+    const streamError = asRecord(asRecord(chunk)?.error);
+    if (streamError) {
+      throw new Error(`${label} stream failed: ${asString(streamError.message) ?? "unknown error"}`);
+    }
+
+    const text = applyChatCompletionChunk(accumulator, chunk);
+    if (text) {
+      onTextDelta(text);
+    }
+  }
+
+  const usage = parseUsage(accumulator.usage);
+  return {
+    assistantText: accumulator.text,
+    toolCalls: parseToolCalls(accumulatedToolCalls(accumulator)),
+    ...(usage ? { usage } : {}),
+  };
+}
+
+/** Any server implementing `POST /chat/completions` with tool calling (llama.cpp, Ollama, vLLM, OpenAI). */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const label = options.label ?? "LLM provider";
+
+  return {
+    id: options.id ?? "openai-compatible",
+    model: options.model,
+    ...(options.visionModel ? { visionModel: options.visionModel } : {}),
+    async complete(request) {
+      const images = request.images ?? [];
+      if (images.length > 0 && !options.visionModel) {
+        throw new Error(`${label} has no vision model configured.`);
+      }
+
+      const requestBody: Record<string, unknown> = {
+        model: images.length > 0 ? options.visionModel : options.model,
+        stream: Boolean(request.onTextDelta),
+        ...(request.onTextDelta ? { stream_options: { include_usage: true } } : {}),
+        tool_choice: "auto",
+        tools: request.tools,
+        messages: attachImages(request.messages, images),
+        ...options.extraBody?.(request),
+      };
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(requestBody),
+      });
+
+      if (request.onTextDelta && response.ok && response.body) {
+        return readCompletionStream(response.body, label, request.onTextDelta);
+      }
+
+      const textBody = await response.text();
+
+      if (!response.ok) {
+        const suffix = textBody ? `: ${textBody.slice(0, 300)}` : "";
+        throw new Error(`${label} request failed (${response.status})${suffix}`);
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = textBody ? JSON.parse(textBody) : {};
+      } catch {
+        throw new Error(`${label} returned invalid JSON.`);
+      }
+
+      const root = asRecord(parsed);
+      const choices = Array.isArray(root?.choices) ? root.choices : [];
+      const firstChoice = asRecord(choices[0]);
+      const message = asRecord(firstChoice?.message);
+
+      const usage = parseUsage(root?.usage);
+      return {
+        assistantText: parseMessageText(message?.content),
+        toolCalls: parseToolCalls(message?.tool_calls),
+        ...(usage ? { usage } : {}),
+      };
+    },
+  };
+}
+
+/**
+ * OpenRouter with its tracking fields (`user`, `session_id`) and optional
+ * pinning to one upstream provider without fallbacks.
+ */
+export function createOpenRouterProvider(options: {
+  apiKey: string;
+  model: string;
+  visionModel?: string;
+  providerOnly?: string;
+}): LlmProvider {
+  const providerOnly = options.providerOnly?.trim();
+
+  return createOpenAiCompatibleProvider({
+    id: "openrouter",
+    baseUrl: "https://openrouter.ai/api/v1",
+    apiKey: options.apiKey,
+    model: options.model,
+    visionModel: options.visionModel,
+    label: "OpenRouter",
+    extraBody: (request) => ({
+      user: request.userId.slice(0, 128),
+      session_id: request.sessionId,
+      ...(providerOnly ? { provider: { only: [providerOnly], allow_fallbacks: false } } : {}),
+    }),
+  });
+}
@@ -0,0 +1,80 @@
+import { and, eq } from "drizzle-orm";
+import { config } from "./config";
+import { db } from "./db";
+import { rateLimitBuckets } from "./db/schema";
+import { errorFields, log } from "./logger";
+import {
+  type BucketState,
+  type RateLimitBucket,
+  type RateLimitDecision,
+  type RateLimiter,
+  debitTokens,
+  takeTokens,
+} from "./rate-limit";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function lockBucket(tx: Transaction, bucket: RateLimitBucket, subject: string): Promise<BucketState | null> {
+  const [row] = await tx
+    .select({ tokens: rateLimitBuckets.tokens, updatedAt: rateLimitBuckets.updatedAt })
+    .from(rateLimitBuckets)
+    .where(and(eq(rateLimitBuckets.bucket, bucket), eq(rateLimitBuckets.subject, subject)))
+    .for("update");
+
+  return row ? { tokens: row.tokens, updatedAt: row.updatedAt.getTime() } : null;
+}
+
+async function saveBucket(tx: Transaction, bucket: RateLimitBucket, subject: string, state: BucketState) {
+  const values = { tokens: state.tokens, updatedAt: new Date(state.updatedAt) };
+  await tx
+    .insert(rateLimitBuckets)
+    .values({ bucket, subject, ...values })
+    .onConflictDoUpdate({ target: [rateLimitBuckets.bucket, rateLimitBuckets.subject], set: values });
+}
+
+/**
+ * Takes `cost` tokens from the subject's bucket inside a row lock so concurrent
+ * requests on other instances see the same balance. Fails open when Postgres is
+ * unavailable; the request itself will surface that error.
+ */
+export async function consumeRateLimit(
+  bucket: RateLimitBucket,
+  subject: string,
+  cost = 1,
+): Promise<RateLimitDecision> {
+  const policy = config.rateLimits[bucket];
+
+  try {
+    return await db.transaction(async (tx) => {
+      const { decision, next } = takeTokens(await lockBucket(tx, bucket, subject), cost, policy, Date.now());
+      await saveBucket(tx, bucket, subject, next);
+      return decision;
+    });
+  } catch (error) {
+    log("error", "rate limit check failed", { bucket, subject, ...errorFields(error) });
+    return { allowed: true, remaining: 0, retryAfterSeconds: 0 };
+  }
+}
+
+/** Records usage that is only known after the work ran, such as transcribed audio seconds. */
+export async function chargeRateLimit(bucket: RateLimitBucket, subject: string, amount: number): Promise<void> {
+  if (amount <= 0) {
+    return;
+  }
+
+  const policy = config.rateLimits[bucket];
+
+  try {
+    await db.transaction(async (tx) => {
+      const next = debitTokens(await lockBucket(tx, bucket, subject), amount, policy, Date.now());
+      await saveBucket(tx, bucket, subject, next);
+    });
+  } catch (error) {
+    log("error", "rate limit charge failed", { bucket, subject, ...errorFields(error) });
+  }
+}
+
+export const postgresRateLimiter: RateLimiter = {
+  consume: consumeRateLimit,
+  charge: chargeRateLimit,
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "bun:test";
+import { debitTokens, perMinutePolicy, resolveClientIp, searchRequestCost, takeTokens } from "./rate-limit";
+
+describe("rate-limit", () => {
+  const policy = perMinutePolicy(10, 60);
+  const now = Date.parse("2026-01-01T12:00:00Z");
+
+  it("starts full, takes tokens and refills over time", () => {
+    const first = takeTokens(null, 4, policy, now);
+    expect(first.decision).toEqual({ allowed: true, remaining: 6, retryAfterSeconds: 0 });
+
+    const denied = takeTokens(first.next, 8, policy, now);
+    expect(denied.decision).toEqual({ allowed: false, remaining: 6, retryAfterSeconds: 2 });
+
+    const later = takeTokens(denied.next, 8, policy, now + 2_000);
+    expect(later.decision).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+
+    const capped = takeTokens(later.next, 1, policy, now + 60_000);
+    expect(capped.decision.remaining).toBe(9);
+  });
+
+  it("clamps costs above the capacity to a full bucket", () => {
+    expect(takeTokens(null, 50, policy, now).decision.allowed).toBe(true);
+    expect(takeTokens({ tokens: 5, updatedAt: now }, 50, policy, now).decision.retryAfterSeconds).toBe(5);
+  });
+
+  it("lets measured usage push the bucket into debt", () => {
+    const next = debitTokens({ tokens: 3, updatedAt: now }, 8, policy, now);
+    expect(next.tokens).toBe(-5);
+    expect(takeTokens(next, 1, policy, now).decision).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 6,
+    });
+  });
+
+  it("charges detail fan-out per 20 items", () => {
+    expect(searchRequestCost(1000, false)).toBe(1);
+    expect(searchRequestCost(20, true)).toBe(2);
+    expect(searchRequestCost(1000, true)).toBe(51);
+  });
+
+  it("only reads X-Forwarded-For behind trusted proxies", () => {
+    expect(resolveClientIp("1.1.1.1", "10.0.0.2", 0)).toBe("10.0.0.2");
+    expect(resolveClientIp(null, undefined, 0)).toBe("unknown");
+    expect(resolveClientIp("1.1.1.1, 203.0.113.7", "10.0.0.2", 1)).toBe("203.0.113.7");
+    expect(resolveClientIp("1.1.1.1, 203.0.113.7, 10.0.0.9", "10.0.0.2", 2)).toBe("203.0.113.7");
+    expect(resolveClientIp("203.0.113.7", "10.0.0.2", 2)).toBe("203.0.113.7");
+    expect(resolveClientIp(null, "10.0.0.2", 1)).toBe("10.0.0.2");
+  });
+});
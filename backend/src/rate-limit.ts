@@ -0,0 +1,118 @@
+export const rateLimitBuckets = ["search", "aiTurn", "transcriptionSeconds", "anonymous"] as const;
+
+export type RateLimitBucket = (typeof rateLimitBuckets)[number];
+
+export type RateLimitPolicy = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type BucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+};
+
+export type RateLimiter = {
+  consume(bucket: RateLimitBucket, subject: string, cost?: number): Promise<RateLimitDecision>;
+  /** Records usage only known after the work ran; never rejects. */
+  charge(bucket: RateLimitBucket, subject: string, amount: number): Promise<void>;
+};
+
+/** Buckets start full and refill continuously up to `capacity`. */
+export function refillTokens(state: BucketState | null, policy: RateLimitPolicy, now: number): number {
+  if (!state) {
+    return policy.capacity;
+  }
+
+  const elapsedSeconds = Math.max(0, now - state.updatedAt) / 1000;
+  return Math.min(policy.capacity, state.tokens + elapsedSeconds * policy.refillPerSecond);
+}
+
+function secondsUntil(available: number, needed: number, policy: RateLimitPolicy): number {
+  if (available >= needed) {
+    return 0;
+  }
+
+  return Math.max(1, Math.ceil((needed - available) / policy.refillPerSecond));
+}
+
+/**
+ * Takes `cost` tokens when available. Costs above the capacity are clamped so a
+ * large request waits for a full bucket instead of being rejected forever.
+ */
+export function takeTokens(
+  state: BucketState | null,
+  cost: number,
+  policy: RateLimitPolicy,
+  now: number,
+): { decision: RateLimitDecision; next: BucketState } {
+  const available = refillTokens(state, policy, now);
+  const needed = Math.min(Math.max(0, cost), policy.capacity);
+
+  if (available >= needed) {
+    const tokens = available - needed;
+    return {
+      decision: { allowed: true, remaining: Math.floor(tokens), retryAfterSeconds: 0 },
+      next: { tokens, updatedAt: now },
+    };
+  }
+
+  return {
+    decision: {
+      allowed: false,
+      remaining: Math.floor(Math.max(0, available)),
+      retryAfterSeconds: secondsUntil(available, needed, policy),
+    },
+    next: { tokens: available, updatedAt: now },
+  };
+}
+
+/** Charges usage measured after the fact (e.g. audio duration); the bucket may go into debt. */
+export function debitTokens(state: BucketState | null, amount: number, policy: RateLimitPolicy, now: number): BucketState {
+  return {
+    tokens: refillTokens(state, policy, now) - Math.max(0, amount),
+    updatedAt: now,
+  };
+}
+
+/** Detail lookups fan out to one upstream request per item, so they cost more than a bare search. */
+export function searchRequestCost(maxItems: number, includeDetails: boolean): number {
+  return includeDetails ? 1 + Math.ceil(maxItems / 20) : 1;
+}
+
+/**
+ * Each trusted proxy appends the address it received the request from, so with
+ * `trustedProxyHops` proxies in front the client is that many entries from the
+ * right of `X-Forwarded-For`. Anything further left is client-controlled.
+ */
+export function resolveClientIp(
+  forwardedFor: string | null,
+  socketAddress: string | undefined,
+  trustedProxyHops: number,
+): string {
+  if (trustedProxyHops > 0 && forwardedFor) {
+    const hops = forwardedFor
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const client = hops[Math.max(0, hops.length - trustedProxyHops)];
+    if (client) {
+      return client;
+    }
+  }
+
+  return socketAddress || "unknown";
+}
+
+export function perMinutePolicy(capacity: number, perMinute: number): RateLimitPolicy {
+  return {
+    capacity: Math.max(1, capacity),
+    refillPerSecond: Math.max(1, perMinute) / 60,
+  };
+}
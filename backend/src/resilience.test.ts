@@ -0,0 +1,166 @@
+import { describe, expect, it } from "bun:test";
+import {
+  CircuitOpenError,
+  type CircuitState,
+  backoffDelayMs,
+  createCircuitBreaker,
+  isRetryableStatus,
+  parseRetryAfter,
+  retryWithCircuitBreaker,
+} from "./resilience";
+
+const policy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+function fakeResponses(statuses: (number | Error)[], retryAfter: string | null = null) {
+  let calls = 0;
+  return {
+    send: async () => {
+      const next = statuses[Math.min(calls, statuses.length - 1)];
+      calls += 1;
+      if (next instanceof Error) {
+        throw next;
+      }
+
+      return { status: next };
+    },
+    classify: ({ status }: { status: number }) => ({
+      retryable: isRetryableStatus(status),
+      retryAfterMs: isRetryableStatus(status) ? parseRetryAfter(retryAfter, 0) : null,
+    }),
+    calls: () => calls,
+  };
+}
+
+describe("resilience", () => {
+  it("retries throttling and server errors only", () => {
+    expect([429, 500, 502, 503, 504].every(isRetryableStatus)).toBe(true);
+    expect([200, 400, 401, 403, 404, 501].some(isRetryableStatus)).toBe(false);
+  });
+
+  it("jitters backoff up to an exponentially growing, capped ceiling", () => {
+    expect(backoffDelayMs(1, policy, () => 1)).toBe(100);
+    expect(backoffDelayMs(3, policy, () => 1)).toBe(400);
+    expect(backoffDelayMs(10, policy, () => 1)).toBe(1000);
+    expect(backoffDelayMs(3, policy, () => 0.5)).toBe(200);
+    expect(backoffDelayMs(3, policy, () => 0)).toBe(0);
+  });
+
+  it("parses Retry-After seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 00:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it("opens after consecutive failures and lets one trial through after the open period", () => {
+    let now = 0;
+    const states: CircuitState[] = [];
+    const breaker = createCircuitBreaker(
+      { failureThreshold: 2, openMs: 1000 },
+      { now: () => now, onStateChange: (state) => states.push(state) },
+    );
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.state()).toBe("open");
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.retryInMs()).toBe(1000);
+
+    now = 1000;
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    breaker.recordFailure();
+    expect(breaker.state()).toBe("open");
+
+    now = 2000;
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(states).toEqual(["open", "half-open", "open", "half-open", "closed"]);
+  });
+
+  it("retries failures with backoff and returns the first non-retryable result", async () => {
+    const delays: number[] = [];
+    const upstream = fakeResponses([new Error("ECONNRESET"), 503, 200]);
+    const result = await retryWithCircuitBreaker(upstream.send, {
+      policy,
+      breaker: createCircuitBreaker({ failureThreshold: 5, openMs: 1000 }),
+      classify: upstream.classify,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+      random: () => 1,
+    });
+
+    expect(result).toEqual({ status: 200 });
+    expect(delays).toEqual([100, 200]);
+
+    const notFound = fakeResponses([404]);
+    expect(
+      await retryWithCircuitBreaker(notFound.send, {
+        policy,
+        breaker: createCircuitBreaker({ failureThreshold: 5, openMs: 1000 }),
+        classify: notFound.classify,
+      }),
+    ).toEqual({ status: 404 });
+    expect(notFound.calls()).toBe(1);
+  });
+
+  it("gives up after maxAttempts and rethrows or returns the last failure", async () => {
+    const options = {
+      policy,
+      classify: fakeResponses([]).classify,
+      sleep: async () => {},
+    };
+
+    const failing = fakeResponses([new Error("timeout")]);
+    await expect(
+      retryWithCircuitBreaker(failing.send, {
+        ...options,
+        breaker: createCircuitBreaker({ failureThreshold: 10, openMs: 1000 }),
+      }),
+    ).rejects.toThrow("timeout");
+    expect(failing.calls()).toBe(3);
+
+    const overloaded = fakeResponses([502]);
+    expect(
+      await retryWithCircuitBreaker(overloaded.send, {
+        ...options,
+        breaker: createCircuitBreaker({ failureThreshold: 10, openMs: 1000 }),
+      }),
+    ).toEqual({ status: 502 });
+  });
+
+  it("waits a short Retry-After and trips the circuit for a long one", async () => {
+    const delays: number[] = [];
+    const sleep = async (ms: number) => {
+      delays.push(ms);
+    };
+
+    const throttled = fakeResponses([429, 200], "1");
+    await retryWithCircuitBreaker(throttled.send, {
+      policy: { ...policy, maxDelayMs: 5000 },
+      breaker: createCircuitBreaker({ failureThreshold: 5, openMs: 1000 }),
+      classify: throttled.classify,
+      sleep,
+    });
+    expect(delays).toEqual([1000]);
+
+    const breaker = createCircuitBreaker({ failureThreshold: 5, openMs: 1000 }, { now: () => 0 });
+    const blocked = fakeResponses([429], "60");
+    expect(
+      await retryWithCircuitBreaker(blocked.send, { policy, breaker, classify: blocked.classify, sleep }),
+    ).toEqual({ status: 429 });
+    expect(blocked.calls()).toBe(1);
+    expect(breaker.retryInMs()).toBe(60_000);
+
+    const rejected = retryWithCircuitBreaker(blocked.send, { policy, breaker, classify: blocked.classify, sleep });
+    await expect(rejected).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(blocked.calls()).toBe(1);
+  });
+});
@@ -0,0 +1,194 @@
+export type RetryPolicy = {
+  /** Total tries including the first request. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  /** Upper bound for one backoff; a longer `Retry-After` ends the retries instead. */
+  maxDelayMs: number;
+};
+
+export type CircuitBreakerPolicy = {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit rejects requests before letting one trial through. */
+  openMs: number;
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreaker = {
+  /** False while open, and while the half-open trial request is in flight. */
+  tryAcquire(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /** Opens the circuit for `durationMs` regardless of the failure count, e.g. for a long upstream `Retry-After`. */
+  trip(durationMs: number): void;
+  state(): CircuitState;
+  /** Milliseconds until an open circuit lets a trial request through. */
+  retryInMs(): number;
+};
+
+/** Statuses worth retrying: throttling and server-side failures. */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status !== 501);
+}
+
+/** Exponential backoff with full jitter: a random delay up to `base * 2^(attempt-1)`, capped. */
+export function backoffDelayMs(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+/** `Retry-After` as delay-seconds or an HTTP date, in milliseconds; null when absent or invalid. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Opens after `failureThreshold` consecutive failures and rejects requests
+ * for `openMs`. Then one trial request is let through: success closes the
+ * circuit, failure reopens it.
+ */
+export function createCircuitBreaker(
+  policy: CircuitBreakerPolicy,
+  options: { now?: () => number; onStateChange?: (state: CircuitState) => void } = {},
+): CircuitBreaker {
+  const now = options.now ?? Date.now;
+  let current: CircuitState = "closed";
+  let failures = 0;
+  let openUntil = 0;
+  let trialInFlight = false;
+
+  const transition = (next: CircuitState) => {
+    if (next !== current) {
+      current = next;
+      options.onStateChange?.(next);
+    }
+  };
+
+  const open = (durationMs: number) => {
+    openUntil = Math.max(openUntil, now() + durationMs);
+    trialInFlight = false;
+    transition("open");
+  };
+
+  return {
+    tryAcquire() {
+      if (current === "open" && now() >= openUntil) {
+        transition("half-open");
+      }
+
+      if (current === "closed") {
+        return true;
+      }
+
+      if (current === "half-open" && !trialInFlight) {
+        trialInFlight = true;
+        return true;
+      }
+
+      return false;
+    },
+    recordSuccess() {
+      failures = 0;
+      trialInFlight = false;
+      transition("closed");
+    },
+    recordFailure() {
+      failures += 1;
+      if (current === "half-open" || failures >= policy.failureThreshold) {
+        open(policy.openMs);
+      }
+    },
+    trip(durationMs) {
+      open(durationMs);
+    },
+    state() {
+      return current === "open" && now() >= openUntil ? "half-open" : current;
+    },
+    retryInMs() {
+      return current === "open" ? Math.max(0, openUntil - now()) : 0;
+    },
+  };
+}
+
+/** Thrown instead of calling upstream while the circuit is open. */
+export class CircuitOpenError extends Error {
+  retryInMs: number;
+
+  constructor(retryInMs: number) {
+    super(`Upstream is unavailable; retrying in ${Math.ceil(retryInMs / 1000)}s.`);
+    this.name = "CircuitOpenError";
+    this.retryInMs = retryInMs;
+  }
+}
+
+/** How one attempt went: `retryable` failures count against the circuit and may be retried. */
+export type AttemptOutcome = { retryable: boolean; retryAfterMs: number | null };
+
+/**
+ * Calls `send` until it succeeds, fails with a non-retryable result, or runs
+ * out of attempts; thrown errors (network failures, timeouts) are retryable.
+ * Waits the upstream `Retry-After` when given, otherwise a jittered backoff.
+ * A `Retry-After` longer than `maxDelayMs` is not waited out: the last result
+ * is returned and the circuit stays open until then. Throws
+ * `CircuitOpenError` without calling `send` while the circuit is open.
+ */
+export async function retryWithCircuitBreaker<T>(
+  send: () => Promise<T>,
+  options: {
+    policy: RetryPolicy;
+    breaker: CircuitBreaker;
+    classify: (result: T) => AttemptOutcome;
+    sleep?: (ms: number) => Promise<void>;
+    random?: () => number;
+  },
+): Promise<T> {
+  const { policy, breaker, classify } = options;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  for (let attempt = 1; ; attempt += 1) {
+    if (!breaker.tryAcquire()) {
+      throw new CircuitOpenError(breaker.retryInMs());
+    }
+
+    let outcome: AttemptOutcome;
+    let result: { value: T } | { error: unknown };
+    try {
+      const value = await send();
+      result = { value };
+      outcome = classify(value);
+    } catch (error) {
+      result = { error };
+      outcome = { retryable: true, retryAfterMs: null };
+    }
+
+    if (!outcome.retryable) {
+      breaker.recordSuccess();
+    } else if (outcome.retryAfterMs !== null && outcome.retryAfterMs > policy.maxDelayMs) {
+      breaker.trip(outcome.retryAfterMs);
+    } else {
+      breaker.recordFailure();
+    }
+
+    const delayMs = outcome.retryAfterMs ?? backoffDelayMs(attempt, policy, options.random);
+    if (!outcome.retryable || attempt >= policy.maxAttempts || delayMs > policy.maxDelayMs) {
+      if ("error" in result) {
+        throw result.error;
+      }
+
+      return result.value;
+    }
+
+    await sleep(delayMs);
+  }
+}
@@ -0,0 +1,225 @@
+import { describe, expect, it } from "bun:test";
+import { z } from "zod";
+import { json } from "./http";
+import { type LogFields, annotateRequest, incrementRequestField } from "./logger";
+import { cors, errorMapping, requestLogging, requireAuth } from "./middleware";
+import type { RateLimitBucket } from "./rate-limit";
+import { type Middleware, createRouter, requireUser } from "./router";
+import { validate } from "./validation";
+
+const connection = { clientIp: "203.0.113.7" };
+
+function get(path: string, init?: RequestInit): Request {
+  return new Request(`http://caloric.test${path}`, init);
+}
+
+describe("router", () => {
+  it("matches methods and path params and reports 404 and 405", async () => {
+    const router = createRouter()
+      .route("GET", "/barcode/:upc", [], (context) => json({ upc: context.params.upc, route: context.route }))
+      .route("POST", "/ai/session", [], () => json({ ok: true }));
+
+    expect(await (await router.handle(get("/barcode/0123%2045"), connection)).json()).toEqual({
+      upc: "0123 45",
+      route: "/barcode/:upc",
+    });
+
+    const wrongMethod = await router.handle(get("/ai/session"), connection);
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get("Allow")).toBe("POST, OPTIONS");
+
+    const options = await router.handle(get("/ai/session", { method: "OPTIONS" }), connection);
+    expect(options.status).toBe(204);
+    expect(options.headers.get("Allow")).toBe("POST, OPTIONS");
+
+    expect((await router.handle(get("/barcode/1/2"), connection)).status).toBe(404);
+  });
+
+  it("runs global middleware around route middleware in order", async () => {
+    const calls: string[] = [];
+    const tag =
+      (name: string): Middleware =>
+      async (context, next) => {
+        calls.push(`${name}:in`);
+        const response = await next();
+        calls.push(`${name}:out`);
+        return response;
+      };
+
+    const router = createRouter()
+      .use(tag("global"))
+      .route("GET", "/health", [tag("route")], () => {
+        calls.push("handler");
+        return json({ ok: true });
+      });
+
+    await router.handle(get("/health"), connection);
+    await router.handle(get("/missing"), connection);
+
+    expect(calls).toEqual(["global:in", "route:in", "handler", "route:out", "global:out", "global:in", "global:out"]);
+  });
+
+  it("maps thrown errors to JSON with the request id", async () => {
+    const router = createRouter()
+      .use(errorMapping())
+      .route("GET", "/boom/:id", [], (context) => {
+        requireUser(context);
+        return json({ ok: true });
+      });
+
+    const originalConsoleError = console.error;
+    console.error = () => {};
+    const response = await router.handle(get("/boom/1", { headers: { "X-Request-Id": "req-1" } }), connection);
+    console.error = originalConsoleError;
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      error: "internal_error",
+      requestId: "req-1",
+    });
+  });
+
+  it("logs one line per request with annotations and echoes the request id", async () => {
+    const lines: LogFields[] = [];
+    const router = createRouter()
+      .use(requestLogging((fields) => lines.push(fields)))
+      .route("GET", "/search", [], async () => {
+        await Promise.resolve();
+        annotateRequest({ cache: "hit" });
+        incrementRequestField("llmPromptTokens", 10);
+        incrementRequestField("llmPromptTokens", 5);
+        return json({ ok: true });
+      })
+      .route("POST", "/ai/turn/stream", [], () => {
+        const body = new ReadableStream<Uint8Array>({
+          async start(controller) {
+            controller.enqueue(new TextEncoder().encode("data: 1\n\n"));
+            await Promise.resolve();
+            annotateRequest({ streamed: true });
+            controller.close();
+          },
+        });
+        return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+      });
+
+    const search = await router.handle(get("/search?query=egg", { headers: { "X-Request-Id": "bad id!" } }), connection);
+    const requestId = search.headers.get("X-Request-Id");
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(lines).toEqual([
+      expect.objectContaining({
+        requestId,
+        method: "GET",
+        route: "/search",
+        path: "/search",
+        status: 200,
+        cache: "hit",
+        llmPromptTokens: 15,
+      }),
+    ]);
+
+    const stream = await router.handle(get("/ai/turn/stream", { method: "POST" }), connection);
+    expect(lines).toHaveLength(1);
+    expect(await stream.text()).toBe("data: 1\n\n");
+    expect(lines[1]).toMatchObject({ route: "/ai/turn/stream", status: 200, streamed: true });
+
+    await router.handle(get("/wp-login.php"), connection);
+    expect(lines[2]).toMatchObject({ route: "unmatched", path: "/wp-login.php", status: 404 });
+  });
+
+  it("rejects missing tokens and charges the client IP", async () => {
+    const charged: [RateLimitBucket, string][] = [];
+    const auth = requireAuth(
+      { issuer: "https://clerk.test", authorizedParties: [], keys: async () => [] },
+      {
+        consume: async (bucket, subject) => {
+          charged.push([bucket, subject]);
+          return { allowed: charged.length < 2, remaining: 0, retryAfterSeconds: 30 };
+        },
+        charge: async () => {},
+      },
+    );
+    const router = createRouter().route("GET", "/search", [auth], () => json({ ok: true }));
+
+    const first = await router.handle(get("/search"), connection);
+    expect(first.status).toBe(401);
+    expect(await first.json()).toEqual({ error: "unauthorized", message: "Missing bearer token." });
+
+    const second = await router.handle(get("/search", { headers: { Authorization: "Bearer nope" } }), connection);
+    expect(second.status).toBe(429);
+    expect(second.headers.get("Retry-After")).toBe("30");
+    expect(charged).toEqual([
+      ["anonymous", "ip:203.0.113.7"],
+      ["anonymous", "ip:203.0.113.7"],
+    ]);
+  });
+});
+
+describe("cors", () => {
+  const webOrigin = "http://localhost:8081";
+  const auth: Middleware = async () => json({ error: "unauthorized" }, 401);
+  const router = createRouter()
+    .use(cors({ allowedOrigins: [`${webOrigin}/`], maxAgeSeconds: 60 }), errorMapping())
+    .route("GET", "/search", [auth], () => json({ ok: true }))
+    .route("POST", "/ai/turn", [auth], () => json({ ok: true }));
+
+  function preflight(path: string, origin: string): Request {
+    return get(path, {
+      method: "OPTIONS",
+      headers: {
+        Origin: origin,
+        "Access-Control-Request-Method": "POST",
+        "Access-Control-Request-Headers": "authorization, content-type",
+      },
+    });
+  }
+
+  it("answers preflight requests for allowed origins without running route middleware", async () => {
+    const response = await router.handle(preflight("/ai/turn", webOrigin), connection);
+
+    expect(response.status).toBe(204);
+    expect(Object.fromEntries(response.headers)).toMatchObject({
+      "access-control-allow-origin": webOrigin,
+      "access-control-allow-methods": "POST, OPTIONS",
+      "access-control-allow-headers": "authorization, content-type",
+      "access-control-max-age": "60",
+    });
+  });
+
+  it("rejects preflight requests from other origins", async () => {
+    const response = await router.handle(preflight("/ai/turn", "https://evil.test"), connection);
+    expect(response.status).toBe(403);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    expect((await router.handle(preflight("/missing", webOrigin), connection)).status).toBe(404);
+  });
+
+  it("adds CORS headers to error responses for allowed origins only", async () => {
+    const allowed = await router.handle(get("/search", { headers: { Origin: webOrigin } }), connection);
+    expect(allowed.status).toBe(401);
+    expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe(webOrigin);
+    expect(allowed.headers.get("Access-Control-Expose-Headers")).toBe("Retry-After, X-Cache, X-Request-Id");
+    expect(allowed.headers.get("Vary")).toBe("Origin");
+
+    const other = await router.handle(get("/search", { headers: { Origin: "https://evil.test" } }), connection);
+    expect(other.headers.get("Access-Control-Allow-Origin")).toBeNull();
+
+    const native = await router.handle(get("/search"), connection);
+    expect(native.headers.get("Vary")).toBeNull();
+  });
+});
+
+describe("validation", () => {
+  it("names each invalid field", () => {
+    const schema = z.object({ sessionId: z.string({ error: "Required" }), limit: z.number().max(10) });
+
+    expect(validate(schema, { sessionId: "s1", limit: 3 })).toEqual({ data: { sessionId: "s1", limit: 3 } });
+    expect(validate(schema, { limit: 11 })).toMatchObject({
+      failure: {
+        status: 400,
+        body: {
+          error: "invalid_request",
+          message: "sessionId: Required; limit: Too big: expected number to be <=10",
+        },
+      },
+    });
+  });
+});
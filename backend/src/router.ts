@@ -0,0 +1,160 @@
+import type { AuthenticatedUser } from "./auth";
+import { json } from "./http";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type RouteContext = {
+  /** The caller's `X-Request-Id` when it looks safe to log, otherwise a new UUID. */
+  requestId: string;
+  request: Request;
+  url: URL;
+  /** Path pattern of the matched route (e.g. `/barcode/:upc`), or null when nothing matched. */
+  route: string | null;
+  /** Values of `:name` segments in the matched route. */
+  params: Record<string, string>;
+  /** Methods registered for this path; empty when the path is unknown. */
+  allowedMethods: HttpMethod[];
+  clientIp: string;
+  /** Set by the auth middleware on protected routes. */
+  user: AuthenticatedUser | null;
+  /** Lifts Bun's idle timeout for long-lived responses such as SSE streams. */
+  disableIdleTimeout: () => void;
+};
+
+export type RouteHandler = (context: RouteContext) => Response | Promise<Response>;
+
+export type Middleware = (context: RouteContext, next: () => Promise<Response>) => Promise<Response>;
+
+export type RequestConnection = {
+  clientIp: string;
+  disableIdleTimeout?: () => void;
+};
+
+export type Router = {
+  /** Adds middleware that runs for every request, including unmatched paths. */
+  use(...middleware: Middleware[]): Router;
+  route(method: HttpMethod, path: string, middleware: Middleware[], handler: RouteHandler): Router;
+  handle(request: Request, connection: RequestConnection): Promise<Response>;
+};
+
+type Route = {
+  method: HttpMethod;
+  path: string;
+  segments: string[];
+  middleware: Middleware[];
+  handler: RouteHandler;
+};
+
+function incomingRequestId(request: Request): string | null {
+  const value = request.headers.get("x-request-id")?.trim();
+  return value && /^[\w.:-]{1,128}$/.test(value) ? value : null;
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | null {
+  if (pattern.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [index, part] of pattern.entries()) {
+    const segment = segments[index];
+    if (part.startsWith(":")) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(segment);
+      } catch {
+        return null;
+      }
+    } else if (part !== segment) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+function runMiddleware(context: RouteContext, middleware: Middleware[], handler: RouteHandler): Promise<Response> {
+  const dispatch = async (index: number): Promise<Response> => {
+    const current = middleware[index];
+    return current ? current(context, () => dispatch(index + 1)) : handler(context);
+  };
+
+  return dispatch(0);
+}
+
+/** The current user on a route behind the auth middleware. */
+export function requireUser(context: RouteContext): AuthenticatedUser {
+  if (!context.user) {
+    throw new Error(`Route ${context.route ?? context.url.pathname} is missing the auth middleware.`);
+  }
+
+  return context.user;
+}
+
+export function createRouter(): Router {
+  const globalMiddleware: Middleware[] = [];
+  const routes: Route[] = [];
+
+  const router: Router = {
+    use(...middleware) {
+      globalMiddleware.push(...middleware);
+      return router;
+    },
+    route(method, path, middleware, handler) {
+      routes.push({ method, path, segments: splitPath(path), middleware, handler });
+      return router;
+    },
+    async handle(request, connection) {
+      const url = new URL(request.url);
+      const segments = splitPath(url.pathname);
+      const context: RouteContext = {
+        requestId: incomingRequestId(request) ?? crypto.randomUUID(),
+        request,
+        url,
+        route: null,
+        params: {},
+        allowedMethods: [],
+        clientIp: connection.clientIp,
+        user: null,
+        disableIdleTimeout: connection.disableIdleTimeout ?? (() => {}),
+      };
+
+      let matched: Route | null = null;
+      for (const route of routes) {
+        const params = matchSegments(route.segments, segments);
+        if (!params) {
+          continue;
+        }
+
+        context.allowedMethods.push(route.method);
+        if (!matched && route.method === request.method) {
+          matched = route;
+          context.route = route.path;
+          context.params = params;
+        }
+      }
+
+      const handler: RouteHandler = (routeContext) => {
+        if (matched) {
+          return runMiddleware(routeContext, matched.middleware, matched.handler);
+        }
+
+        if (routeContext.allowedMethods.length === 0) {
+          return json({ error: "Not found" }, 404);
+        }
+
+        const allow = [...routeContext.allowedMethods, "OPTIONS"].join(", ");
+        return request.method === "OPTIONS"
+          ? new Response(null, { status: 204, headers: { Allow: allow } })
+          : json({ error: "Method not allowed" }, 405, { Allow: allow });
+      };
+
+      return runMiddleware(context, globalMiddleware, handler);
+    },
+  };
+
+  return router;
+}
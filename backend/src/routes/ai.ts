@@ -0,0 +1,15 @@
+import type { AiAgent } from "../ai-agent";
+import { type Middleware, type Router, requireUser } from "../router";
+
+/** `POST /ai/session`, `/ai/turn` and `/ai/turn/stream`, all behind `auth`. */
+export function registerAiRoutes(router: Router, auth: Middleware, agent: AiAgent): void {
+  router.route("POST", "/ai/session", [auth], (context) => agent.handleSession(context.request, requireUser(context)));
+
+  router.route("POST", "/ai/turn", [auth], (context) => agent.handleTurn(context.request, requireUser(context)));
+
+  router.route("POST", "/ai/turn/stream", [auth], (context) => {
+    // Model round-trips can leave the stream quiet for longer than Bun's idle timeout.
+    context.disableIdleTimeout();
+    return agent.handleTurn(context.request, requireUser(context), { stream: true });
+  });
+}
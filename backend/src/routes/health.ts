@@ -0,0 +1,20 @@
+import { type HealthCheck, runHealthChecks } from "../health";
+import { json } from "../http";
+import type { Router } from "../router";
+
+/**
+ * `GET /health/live` answers as long as the process serves requests.
+ * `GET /health/ready` checks every dependency and returns `503` when any
+ * fails, so deploys are not routed traffic they cannot serve. `GET /health`
+ * is kept as the liveness check for existing monitors.
+ */
+export function registerHealthRoutes(router: Router, checks: Record<string, HealthCheck>, timeoutMs = 5000): void {
+  router.route("GET", "/health", [], () => json({ ok: true }));
+
+  router.route("GET", "/health/live", [], () => json({ status: "ok" }));
+
+  router.route("GET", "/health/ready", [], async () => {
+    const report = await runHealthChecks(checks, timeoutMs);
+    return json(report, report.status === "ok" ? 200 : 503, { "Cache-Control": "no-store" });
+  });
+}
@@ -0,0 +1,20 @@
+import { extractBearerToken } from "../auth";
+import { json } from "../http";
+import type { MetricsRegistry } from "../metrics";
+import type { Router } from "../router";
+
+/**
+ * `GET /metrics` in Prometheus text format. Open when `token` is unset (for
+ * scrapers on a private network); otherwise requires `Authorization: Bearer <token>`.
+ */
+export function registerMetricsRoutes(router: Router, registry: MetricsRegistry, token?: string): void {
+  router.route("GET", "/metrics", [], (context) => {
+    if (token && extractBearerToken(context.request.headers.get("authorization")) !== token) {
+      return json({ error: "unauthorized", message: "Invalid metrics token." }, 401);
+    }
+
+    return new Response(registry.render(), {
+      headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+    });
+  });
+}
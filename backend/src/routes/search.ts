@@ -0,0 +1,200 @@
+import { z } from "zod";
+import { type CachePolicy, buildCacheHeaders } from "../cache-policy";
+import { enforceRateLimit, failureResponse, json } from "../http";
+import { annotateRequest } from "../logger";
+import { searchCacheTotal } from "../metrics";
+import {
+  type NutritionProvider,
+  type NutritionProviderId,
+  parseProviderIds,
+  parseSearchSource,
+  searchWithProviders,
+  toSearchResultFood,
+} from "../nutrition-provider";
+import { type RateLimiter, searchRequestCost } from "../rate-limit";
+import { type Middleware, type Router, requireUser } from "../router";
+import {
+  type BarcodeResponse,
+  type NormalizedSearchResponse,
+  SEARCH_CONTRACT_VERSION,
+  parseSearchResponseFormat,
+} from "../shared/search-contract";
+import { validateSearchParams } from "../validation";
+
+export type SearchRouteDeps = {
+  providers: Record<NutritionProviderId, NutritionProvider>;
+  /** Used when a request has no `provider` parameter. */
+  defaultProviderIds: NutritionProviderId[];
+  rateLimiter: RateLimiter;
+  /** Client cache policy for complete search responses. */
+  searchCache: CachePolicy;
+};
+
+/** Malformed numbers fall back to the default rather than failing the request. */
+function integerParam(fallback: number, min: number, max = Number.POSITIVE_INFINITY) {
+  return z
+    .string()
+    .optional()
+    .transform((value) => {
+      const parsed = value === undefined || value.trim() === "" ? fallback : Number.parseInt(value, 10);
+      return Math.max(min, Math.min(max, Number.isNaN(parsed) ? fallback : parsed));
+    });
+}
+
+function booleanParam(fallback: boolean) {
+  return z
+    .string()
+    .optional()
+    .transform((value) => {
+      const normalized = value?.trim().toLowerCase();
+      if (normalized === "1" || normalized === "true") {
+        return true;
+      }
+      if (normalized === "0" || normalized === "false") {
+        return false;
+      }
+      return fallback;
+    });
+}
+
+const countryCodeParam = z
+  .string()
+  .optional()
+  .transform((value) => (value ?? "US").toUpperCase());
+
+const searchParamsSchema = z.object({
+  query: z.string({ error: "Required" }).trim().min(1, "Required"),
+  offset: integerParam(0, 0),
+  maxItems: integerParam(100, 1, 1000),
+  countryCode: countryCodeParam,
+  resourceType: z
+    .string()
+    .optional()
+    .transform((value) => (value ?? "foods").toLowerCase()),
+  includeDetails: booleanParam(true),
+});
+
+const barcodeParamsSchema = z.object({
+  countryCode: countryCodeParam,
+});
+
+function normalizeBarcode(value: string): string | null {
+  const digits = value.replace(/[\s-]/g, "");
+  return /^\d{8,14}$/.test(digits) ? digits : null;
+}
+
+/** `GET /search` and `GET /barcode/:upc`, both behind `auth`. */
+export function registerSearchRoutes(router: Router, auth: Middleware, deps: SearchRouteDeps): void {
+  router.route("GET", "/search", [auth], async (context) => {
+    const { url } = context;
+    const validated = validateSearchParams(searchParamsSchema, url);
+    if ("failure" in validated) {
+      return failureResponse(validated.failure);
+    }
+
+    const { query, offset, maxItems, countryCode, resourceType, includeDetails } = validated.data;
+    const source = parseSearchSource(url.searchParams.get("source"));
+    if (!source) {
+      return json({ error: "invalid_source", message: "source must be one of: local, upstream, auto." }, 400);
+    }
+
+    const providerSelection = parseProviderIds(url.searchParams.get("provider"), deps.defaultProviderIds);
+    if ("error" in providerSelection) {
+      return json({ error: "invalid_provider", message: providerSelection.error }, 400);
+    }
+
+    const format = parseSearchResponseFormat(url.searchParams.get("format"));
+    if (!format) {
+      return json({ error: "invalid_format", message: "format must be raw or normalized." }, 400);
+    }
+
+    const limited = await enforceRateLimit(
+      deps.rateLimiter,
+      "search",
+      `user:${requireUser(context).userId}`,
+      searchRequestCost(maxItems, includeDetails),
+    );
+    if (limited) {
+      return limited;
+    }
+
+    try {
+      const providers = providerSelection.providers.map((id) => deps.providers[id]);
+      const result = await searchWithProviders(providers, {
+        query,
+        offset,
+        maxItems,
+        countryCode,
+        resourceType,
+        includeDetails,
+        source,
+      });
+
+      searchCacheTotal.inc({ status: result.cache ?? "none" });
+      annotateRequest({
+        cache: result.cache ?? "none",
+        providers: result.providers.map((status) => `${status.provider}:${status.ok ? status.count : "error"}`),
+      });
+
+      // Partial results (some provider failed) must not be cached by clients.
+      const complete = result.providers.every((status) => status.ok);
+      const normalized: NormalizedSearchResponse = {
+        version: SEARCH_CONTRACT_VERSION,
+        foods: result.foods.map(toSearchResultFood),
+        providers: result.providers,
+      };
+
+      return json(
+        format === "normalized" ? normalized : { ...result.raw, ...normalized },
+        200,
+        buildCacheHeaders(result.cache, complete ? deps.searchCache : null),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return json({ error: "search_failed", message }, 502, buildCacheHeaders(null, null));
+    }
+  });
+
+  router.route("GET", "/barcode/:upc", [auth], async (context) => {
+    const barcode = normalizeBarcode(context.params.upc);
+    if (!barcode) {
+      return json({ error: "invalid_barcode", message: "Barcode must be 8-14 digits." }, 400);
+    }
+
+    const validated = validateSearchParams(barcodeParamsSchema, context.url);
+    if ("failure" in validated) {
+      return failureResponse(validated.failure);
+    }
+
+    const { countryCode } = validated.data;
+    const providerSelection = parseProviderIds(context.url.searchParams.get("provider"), deps.defaultProviderIds);
+    if ("error" in providerSelection) {
+      return json({ error: "invalid_provider", message: providerSelection.error }, 400);
+    }
+
+    const limited = await enforceRateLimit(deps.rateLimiter, "search", `user:${requireUser(context).userId}`);
+    if (limited) {
+      return limited;
+    }
+
+    const failures: string[] = [];
+    for (const providerId of providerSelection.providers) {
+      try {
+        const food = await deps.providers[providerId].barcode(barcode, countryCode);
+        if (food) {
+          const body: BarcodeResponse = { barcode, food: toSearchResultFood(food) };
+          return json(body);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${providerId}: ${message}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      return json({ error: "barcode_failed", message: failures.join("; ") }, 502);
+    }
+
+    return json({ error: "not_found", message: `No food found for barcode ${barcode}.` }, 404);
+  });
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "bun:test";
+import {
+  accumulatedToolCalls,
+  applyChatCompletionChunk,
+  createChatCompletionAccumulator,
+  formatSseEvent,
+  readSseData,
+} from "./ai-stream";
+
+function streamOf(parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) {
+        controller.enqueue(encoder.encode(part));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<string[]> {
+  const output: string[] = [];
+  for await (const data of readSseData(body)) {
+    output.push(data);
+  }
+  return output;
+}
+
+describe("ai-stream", () => {
+  it("reads data payloads across chunk boundaries and skips comments", async () => {
+    const body = streamOf([": OPENROUTER PROCESSING\n\nda", 'ta: {"a":1}\r\n\r\ndata: {"b"', ':2}\n\ndata: [DONE]\n\ndata: "late"\n\n']);
+    expect(await collect(body)).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it("flushes a final event without a trailing blank line", async () => {
+    expect(await collect(streamOf(['data: "x"\n\ndata: "y"']))).toEqual(['"x"', '"y"']);
+  });
+
+  it("accumulates text deltas and tool call fragments by index", () => {
+    const accumulator = createChatCompletionAccumulator();
+    const deltas = [
+      { choices: [{ delta: { content: "Let me " } }] },
+      { choices: [{ delta: { content: "search." } }] },
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "searchFoods", arguments: '{"qu' } }],
+            },
+          },
+        ],
+      },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ery":"egg"}' } }] } }] },
+      { choices: [] },
+    ].map((chunk) => applyChatCompletionChunk(accumulator, chunk));
+
+    expect(deltas).toEqual(["Let me ", "search.", "", "", ""]);
+    expect(accumulator.text).toBe("Let me search.");
+    expect(accumulatedToolCalls(accumulator)).toEqual([
+      { id: "call_1", type: "function", function: { name: "searchFoods", arguments: '{"query":"egg"}' } },
+    ]);
+  });
+
+  it("formats named server-sent events", () => {
+    expect(formatSseEvent("assistant-delta", { text: "Hi" })).toBe('event: assistant-delta\ndata: {"text":"Hi"}\n\n');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Server-sent event helpers and event types for AI turns, used by the backend to
+ * read OpenRouter and write `/ai/turn/stream`, and by the app to read the stream.
+ */
+
+import type { SearchResultFood } from "./search-contract";
+
+export type RecentLogHint = {
+  foodName: string;
+  meal?: string;
+  brand?: string;
+  serving?: string;
+  createdAt?: number;
+  dateKey?: string;
+  /** The client's id for the entry; only entries with one can be edited or deleted by the agent. */
+  entryId?: string;
+  portion?: number;
+  /** Nutrition for the logged portion. */
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  /** Short id (`l1`, `l2`, …) the agent uses instead of `entryId`; set for entries listed in the prompt. */
+  logId?: string;
+};
+
+/** A listed log entry the agent may reference by `logId`. */
+export type SessionLogEntry = RecentLogHint & { logId: string; entryId: string };
+
+export type Meal = "breakfast" | "lunch" | "dinner" | "snacks";
+
+export type ApprovalOutput = {
+  approved: boolean;
+  reason?: string;
+  /** Fields the user changed on the card before approving; already applied to the suggestion. */
+  adjustments?: LogEntryChanges;
+};
+
+export type ResolvedApprovalSuggestion = {
+  kind: "add";
+  suggestionId: string;
+  resultId: string;
+  meal: Meal;
+  portion: number;
+  /** Day the food was eaten; the client logs it today when unset. */
+  dateKey?: string;
+  reason: string;
+  food: SearchResultFood;
+  output?: ApprovalOutput;
+};
+
+/** Only the fields that change; the client applies them to the log entry `entry.entryId`. */
+export type LogEntryChanges = {
+  portion?: number;
+  meal?: Meal;
+  dateKey?: string;
+};
+
+export type ResolvedLogEditSuggestion = {
+  kind: "edit";
+  suggestionId: string;
+  logId: string;
+  entry: SessionLogEntry;
+  changes: LogEntryChanges;
+  reason: string;
+  output?: ApprovalOutput;
+};
+
+export type ResolvedLogDeletionSuggestion = {
+  kind: "delete";
+  suggestionId: string;
+  logId: string;
+  entry: SessionLogEntry;
+  reason: string;
+  output?: ApprovalOutput;
+};
+
+/** One item of an approval request: a food to add, or a change to an entry the user already logged. */
+export type PendingApprovalSuggestion =
+  | ResolvedApprovalSuggestion
+  | ResolvedLogEditSuggestion
+  | ResolvedLogDeletionSuggestion;
+
+export type AgentEvent =
+  | {
+      kind: "assistant";
+      text: string;
+    }
+  | {
+      kind: "search";
+      foods: SearchResultFood[];
+    }
+  | {
+      kind: "approval";
+      toolCallId: string;
+      suggestions: PendingApprovalSuggestion[];
+    };
+
+export type AgentStatus = "ready" | "awaiting-approval";
+
+/** Streamed turns also emit partial assistant text before the final `assistant` event. */
+export type AgentStreamEvent = AgentEvent | { kind: "assistant-delta"; text: string };
+
+/** Everything `/ai/turn/stream` sends: agent events, then one final `done` or `error`. */
+export type AiTurnStreamEvent =
+  | AgentStreamEvent
+  | { kind: "done"; status: AgentStatus; resolvedUserMessage?: string }
+  | { kind: "error"; status: number; error?: unknown; message?: unknown };
+
+type ToolCallDraft = {
+  id: string;
+  name: string;
+  arguments: string;
+};
+
+export type ChatCompletionAccumulator = {
+  text: string;
+  toolCalls: Map<number, ToolCallDraft>;
+  /** Raw `usage` object, sent in the last chunk when `stream_options.include_usage` is set. */
+  usage: Record<string, unknown> | null;
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Yields the `data` payload of each server-sent event until the stream ends or sends `[DONE]`. */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const takeEvents = function* (flush: boolean) {
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = flush ? "" : (blocks.pop() ?? "");
+
+    for (const block of blocks) {
+      const data = block
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).replace(/^ /, ""))
+        .join("\n");
+
+      if (data) {
+        yield data;
+      }
+    }
+  };
+
+  const reader = body.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    buffer += decoder.decode(chunk.value, { stream: true });
+    for (const data of takeEvents(false)) {
+      if (data === "[DONE]") {
+        return;
+      }
+      yield data;
+    }
+  }
+
+  buffer += decoder.decode();
+  for (const data of takeEvents(true)) {
+    if (data === "[DONE]") {
+      return;
+    }
+    yield data;
+  }
+}
+
+export function createChatCompletionAccumulator(): ChatCompletionAccumulator {
+  return { text: "", toolCalls: new Map(), usage: null };
+}
+
+/**
+ * Folds one streamed chat completion chunk into the accumulator and returns
+ * the assistant text it added. Tool call fragments are merged by `index`.
+ */
+export function applyChatCompletionChunk(accumulator: ChatCompletionAccumulator, chunk: unknown): string {
+  const usage = asRecord(asRecord(chunk)?.usage);
+  if (usage) {
+    accumulator.usage = usage;
+  }
+
+  const choices = asRecord(chunk)?.choices;
+  const delta = asRecord(asRecord(Array.isArray(choices) ? choices[0] : null)?.delta);
+  if (!delta) {
+    return "";
+  }
+
+  const rawToolCalls = Array.isArray(delta.tool_calls) ? delta.tool_calls : [];
+  for (const [position, candidate] of rawToolCalls.entries()) {
+    const record = asRecord(candidate);
+    if (!record) {
+      continue;
+    }
+
+    const index = typeof record.index === "number" ? record.index : position;
+    const fn = asRecord(record.function);
+    const draft = accumulator.toolCalls.get(index) ?? { id: "", name: "", arguments: "" };
+    draft.id = asString(record.id) || draft.id;
+    draft.name += asString(fn?.name) ?? "";
+    draft.arguments += asString(fn?.arguments) ?? "";
+    accumulator.toolCalls.set(index, draft);
+  }
+
+  const text = asString(delta.content) ?? "";
+  accumulator.text += text;
+  return text;
+}
+
+/** Tool calls in the non-streaming `message.tool_calls` shape, ordered by index. */
+export function accumulatedToolCalls(accumulator: ChatCompletionAccumulator): unknown[] {
+  return [...accumulator.toolCalls]
+    .sort(([left], [right]) => left - right)
+    .map(([, draft]) => ({
+      id: draft.id,
+      type: "function",
+      function: { name: draft.name, arguments: draft.arguments },
+    }));
+}
+
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
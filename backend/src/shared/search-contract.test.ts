@@ -0,0 +1,66 @@
+import { describe, expect, it } from "bun:test";
+import {
+  SEARCH_CONTRACT_VERSION,
+  parseSearchResponseFoods,
+  parseSearchResponseFormat,
+  parseSearchResultFood,
+} from "./search-contract";
+
+describe("search-contract", () => {
+  it("parses the response format and defaults to raw", () => {
+    expect(parseSearchResponseFormat(null)).toBe("raw");
+    expect(parseSearchResponseFormat(" Normalized ")).toBe("normalized");
+    expect(parseSearchResponseFormat("mfp")).toBeNull();
+  });
+
+  it("keeps valid foods, drops unusable ones and dedupes result ids", () => {
+    const foods = parseSearchResponseFoods({
+      version: SEARCH_CONTRACT_VERSION,
+      foods: [
+        {
+          resultId: "1:2",
+          source: "mfp",
+          name: " Greek Yogurt ",
+          serving: "170 g",
+          servingSizes: [
+            { value: 170, unit: "g", nutritionMultiplier: 1 },
+            { value: 0, unit: "cup", nutritionMultiplier: 1 },
+          ],
+          nutrition: { calories: 100, protein: "17", fat: Number.NaN },
+        },
+        { resultId: "1:2", name: "Duplicate" },
+        { resultId: "", name: "Missing id" },
+        { resultId: "3:1", source: "usda", name: "Oats" },
+      ],
+      providers: [],
+    });
+
+    expect(foods).toEqual([
+      {
+        resultId: "1:2",
+        source: "mfp",
+        name: "Greek Yogurt",
+        brand: undefined,
+        serving: "170 g",
+        servingSizes: [{ value: 170, unit: "g", nutritionMultiplier: 1 }],
+        nutrition: { calories: 100 },
+      },
+      {
+        resultId: "3:1",
+        source: undefined,
+        name: "Oats",
+        brand: undefined,
+        serving: undefined,
+        servingSizes: undefined,
+        nutrition: undefined,
+      },
+    ]);
+  });
+
+  it("rejects unknown contract versions", () => {
+    expect(() => parseSearchResponseFoods({ version: 99, foods: [] })).toThrow(
+      "Unsupported search response version 99.",
+    );
+    expect(parseSearchResultFood(null)).toBeNull();
+  });
+});
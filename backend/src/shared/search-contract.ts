@@ -0,0 +1,189 @@
+/** `/search` and `/barcode` response contract shared by the backend and the app. */
+
+export const SEARCH_CONTRACT_VERSION = 1;
+
+export const searchResponseFormats = ["raw", "normalized"] as const;
+
+export type SearchResponseFormat = (typeof searchResponseFormats)[number];
+
+export type SearchResultSource = "custom" | "mfp" | "local";
+
+export type SearchNutrition = {
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+  sugars?: number;
+  sodiumMg?: number;
+  potassiumMg?: number;
+};
+
+export type SearchServingSize = {
+  value: number;
+  unit: string;
+  nutritionMultiplier: number;
+};
+
+export type SearchResultFood = {
+  resultId: string;
+  source?: SearchResultSource;
+  name: string;
+  brand?: string;
+  serving?: string;
+  servingSizes?: SearchServingSize[];
+  nutrition?: SearchNutrition;
+};
+
+export type SearchProviderStatus = {
+  provider: Exclude<SearchResultSource, "custom">;
+  ok: boolean;
+  count: number;
+  error?: string;
+};
+
+/** Body of `GET /search?format=normalized`. */
+export type NormalizedSearchResponse = {
+  version: typeof SEARCH_CONTRACT_VERSION;
+  foods: SearchResultFood[];
+  providers: SearchProviderStatus[];
+};
+
+/** Body of `GET /barcode/:upc`. */
+export type BarcodeResponse = {
+  barcode: string;
+  food: SearchResultFood;
+};
+
+const nutritionKeys = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+  "sugars",
+  "sodiumMg",
+  "potassiumMg",
+] as const;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const normalized = value.trim();
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+function asFiniteNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+export function parseSearchResponseFormat(raw: string | null): SearchResponseFormat | null {
+  const value = (raw ?? "").trim().toLowerCase();
+  if (!value) {
+    return "raw";
+  }
+
+  return (searchResponseFormats as readonly string[]).includes(value) ? (value as SearchResponseFormat) : null;
+}
+
+function parseNutrition(raw: unknown): SearchNutrition | undefined {
+  const record = asRecord(raw);
+  if (!record) {
+    return undefined;
+  }
+
+  const nutrition: SearchNutrition = {};
+  for (const key of nutritionKeys) {
+    const value = asFiniteNumber(record[key]);
+    if (value !== undefined) {
+      nutrition[key] = value;
+    }
+  }
+
+  return Object.keys(nutrition).length > 0 ? nutrition : undefined;
+}
+
+function parseServingSizes(raw: unknown): SearchServingSize[] | undefined {
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+
+  const sizes: SearchServingSize[] = [];
+  for (const candidate of raw) {
+    const record = asRecord(candidate);
+    const value = asFiniteNumber(record?.value);
+    const unit = asString(record?.unit);
+    const nutritionMultiplier = asFiniteNumber(record?.nutritionMultiplier) ?? 1;
+    if (value === undefined || value <= 0 || !unit || nutritionMultiplier <= 0) {
+      continue;
+    }
+
+    sizes.push({ value, unit, nutritionMultiplier });
+  }
+
+  return sizes.length > 0 ? sizes : undefined;
+}
+
+/** Validates one food from a `/search` or `/barcode` response; returns null when it is unusable. */
+export function parseSearchResultFood(raw: unknown): SearchResultFood | null {
+  const record = asRecord(raw);
+  const resultId = asString(record?.resultId);
+  const name = asString(record?.name);
+  if (!record || !resultId || !name) {
+    return null;
+  }
+
+  const source = record.source;
+  return {
+    resultId,
+    source: source === "custom" || source === "mfp" || source === "local" ? source : undefined,
+    name,
+    brand: asString(record.brand),
+    serving: asString(record.serving),
+    servingSizes: parseServingSizes(record.servingSizes),
+    nutrition: parseNutrition(record.nutrition),
+  };
+}
+
+/**
+ * Reads the `foods` array of a `/search` response. Unknown contract versions
+ * are rejected so an older app fails loudly instead of showing wrong data.
+ */
+export function parseSearchResponseFoods(raw: unknown): SearchResultFood[] {
+  const record = asRecord(raw);
+  if (!record) {
+    return [];
+  }
+
+  if (record.version !== undefined && record.version !== SEARCH_CONTRACT_VERSION) {
+    throw new Error(`Unsupported search response version ${String(record.version)}.`);
+  }
+
+  if (!Array.isArray(record.foods)) {
+    return [];
+  }
+
+  const foods: SearchResultFood[] = [];
+  const seen = new Set<string>();
+  for (const candidate of record.foods) {
+    const food = parseSearchResultFood(candidate);
+    if (!food || seen.has(food.resultId)) {
+      continue;
+    }
+
+    seen.add(food.resultId);
+    foods.push(food);
+  }
+
+  return foods;
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "bun:test";
+import { matchesSearchTokens, normalizeSearchText, searchTokens } from "./search-text";
+
+describe("search-text", () => {
+  it("normalizes case, accents and punctuation", () => {
+    expect(normalizeSearchText("  Jalapeño-Dip (Homemade)! ")).toBe("jalapeno dip homemade");
+    expect(searchTokens("Crème  brûlée")).toEqual(["creme", "brulee"]);
+    expect(searchTokens(" -- ")).toEqual([]);
+  });
+
+  it("requires every token across the given fields", () => {
+    const fields = ["Protein Shake", "Acme", undefined];
+    expect(matchesSearchTokens(fields, searchTokens("acme shake"))).toBe(true);
+    expect(matchesSearchTokens(fields, searchTokens("acme bar"))).toBe(false);
+    expect(matchesSearchTokens(fields, [])).toBe(true);
+  });
+});
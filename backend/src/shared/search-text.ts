@@ -0,0 +1,21 @@
+/** Query matching shared by the AI agent's custom-food search and the app's food lists. */
+
+/** Lowercases, strips accents and turns punctuation into spaces, so "Jalapeño-Dip" reads "jalapeno dip". */
+export function normalizeSearchText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function searchTokens(query: string): string[] {
+  return normalizeSearchText(query).split(" ").filter(Boolean);
+}
+
+/** True when every token appears somewhere in the given fields. */
+export function matchesSearchTokens(fields: (string | undefined)[], tokens: string[]): boolean {
+  const haystack = normalizeSearchText(fields.filter(Boolean).join(" "));
+  return tokens.every((token) => haystack.includes(token));
+}
@@ -0,0 +1,97 @@
+import { config } from "./config";
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    const normalized = value.trim();
+    if (!normalized) {
+      return undefined;
+    }
+
+    const parsed = Number(normalized);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+
+  return undefined;
+}
+
+/** Transcribes a voice snippet with Groq Whisper; `durationSeconds` is what the transcription budget is charged. */
+export async function transcribeAudioSnippet(
+  audioFile: File,
+  prompt?: string | null,
+): Promise<{ text: string; durationSeconds: number }> {
+  if (!config.groqApiKey) {
+    throw new Error("GROQ_API_KEY is not configured on the backend.");
+  }
+
+  if (audioFile.size <= 0) {
+    throw new Error("Audio snippet was empty.");
+  }
+
+  if (audioFile.size > 12 * 1024 * 1024) {
+    throw new Error("Audio snippet is too large (max 12 MB).");
+  }
+
+  const guessedExtension = (audioFile.type || "audio/m4a").split("/").at(1) ?? "m4a";
+  const fileName = audioFile.name?.trim() || `voice.${guessedExtension}`;
+  const formData = new FormData();
+  formData.set("model", "whisper-large-v3-turbo");
+  formData.set("response_format", "verbose_json");
+  formData.set("temperature", "0");
+  if (prompt && prompt.trim()) {
+    formData.set("prompt", prompt.trim());
+  }
+  formData.set("file", audioFile, fileName);
+
+  try {
+    const response = await fetch("https://api.groq.com/openai/v1/audio/transcriptions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${config.groqApiKey}`,
+      },
+      body: formData,
+    });
+
+    const rawBody = await response.text();
+
+    if (!response.ok) {
+      let errorMessage = rawBody;
+      try {
+        const parsedError = JSON.parse(rawBody) as { error?: { message?: unknown } };
+        if (typeof parsedError.error?.message === "string" && parsedError.error.message.trim()) {
+          errorMessage = parsedError.error.message;
+        }
+      } catch {
+        // Keep raw text fallback if Groq returns non-JSON.
+      }
+
+      throw new Error(`Groq returned ${response.status}: ${errorMessage}`);
+    }
+
+    let transcript = rawBody.trim();
+    let durationSeconds = 0;
+    try {
+      const parsed = JSON.parse(rawBody) as { text?: unknown; duration?: unknown };
+      if (typeof parsed.text === "string") {
+        transcript = parsed.text.trim();
+      }
+      durationSeconds = asNumber(parsed.duration) ?? 0;
+    } catch {
+      // Keep plain text response fallback.
+    }
+
+    if (!transcript) {
+      throw new Error("Groq returned an empty transcription.");
+    }
+
+    return { text: transcript, durationSeconds };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Groq transcription request failed: ${message}`);
+  }
+}
@@ -0,0 +1,33 @@
+import type { z } from "zod";
+import type { HttpFailure } from "./http";
+
+export type Validated<T> = { data: T } | { failure: HttpFailure };
+
+/** Parses `input` with `schema`; failures become a `400 invalid_request` naming each bad field. */
+export function validate<T>(schema: z.ZodType<T>, input: unknown): Validated<T> {
+  const result = schema.safeParse(input);
+  if (result.success) {
+    return { data: result.data };
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    path: issue.path.map(String).join("."),
+    message: issue.message,
+  }));
+
+  return {
+    failure: {
+      status: 400,
+      body: {
+        error: "invalid_request",
+        message: issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("; "),
+        issues,
+      },
+    },
+  };
+}
+
+/** Validates the query string; when a key repeats, the last value wins. */
+export function validateSearchParams<T>(schema: z.ZodType<T>, url: URL): Validated<T> {
+  return validate(schema, Object.fromEntries(url.searchParams));
+}
@@ -0,0 +1,119 @@
+import { matchesSearchTokens, searchTokens } from "../backend/src/shared/search-text";
+
+export const CUSTOM_FOOD_ID_PREFIX = "custom:";
+
+export const NUTRITION_FIELDS = [
+  { key: "calories", label: "Calories", suffix: "kcal" },
+  { key: "protein", label: "Protein", suffix: "g" },
+  { key: "carbs", label: "Carbs", suffix: "g" },
+  { key: "fat", label: "Fat", suffix: "g" },
+  { key: "fiber", label: "Fiber", suffix: "g" },
+  { key: "sugars", label: "Sugars", suffix: "g" },
+  { key: "sodiumMg", label: "Sodium", suffix: "mg" },
+  { key: "potassiumMg", label: "Potassium", suffix: "mg" },
+] as const;
+
+export type NutritionKey = (typeof NUTRITION_FIELDS)[number]["key"];
+
+export type NutritionValues = Partial<Record<NutritionKey, number>>;
+
+export type CustomFoodLike = {
+  name: string;
+  brand?: string;
+  serving?: string;
+};
+
+export type CustomFoodHintPayload = {
+  name: string;
+  brand?: string;
+  serving?: string;
+  nutrition?: NutritionValues;
+};
+
+type MaybeLoadedFoodItem = {
+  $isLoaded?: boolean;
+  name?: string;
+  brand?: string;
+  serving?: string;
+  nutrition?: (NutritionValues & { $isLoaded?: boolean }) | null;
+};
+
+const maxCustomFoodHints = 200;
+
+export function customFoodResultId(jazzId: string): string {
+  return `${CUSTOM_FOOD_ID_PREFIX}${jazzId}`;
+}
+
+export function isCustomFoodResultId(resultId: string): boolean {
+  return resultId.startsWith(CUSTOM_FOOD_ID_PREFIX);
+}
+
+export function matchesCustomFoodQuery(food: CustomFoodLike, query: string): boolean {
+  return matchesSearchTokens([food.name, food.brand, food.serving], searchTokens(query));
+}
+
+export function parseNutritionInput(value: string): number | undefined {
+  const normalized = value.replace(",", ".").trim();
+  if (!normalized) {
+    return undefined;
+  }
+
+  const parsed = Number(normalized);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return undefined;
+  }
+
+  return Math.round(parsed * 10) / 10;
+}
+
+export function formatNutritionInput(value: number | undefined): string {
+  if (value === undefined || !Number.isFinite(value)) {
+    return "";
+  }
+
+  return String(value);
+}
+
+export function buildCustomFoodHints(foods: unknown): CustomFoodHintPayload[] {
+  if (!foods || typeof (foods as { forEach?: unknown }).forEach !== "function") {
+    return [];
+  }
+
+  const output: CustomFoodHintPayload[] = [];
+  const rows = foods as { forEach: (callback: (food: MaybeLoadedFoodItem) => void) => void };
+
+  rows.forEach((food) => {
+    if (output.length >= maxCustomFoodHints) {
+      return;
+    }
+
+    if (!food || food.$isLoaded === false) {
+      return;
+    }
+
+    const name = typeof food.name === "string" ? food.name.trim() : "";
+    if (!name) {
+      return;
+    }
+
+    const nutrition =
+      food.nutrition && food.nutrition.$isLoaded !== false
+        ? NUTRITION_FIELDS.reduce<NutritionValues>((values, field) => {
+            const value = food.nutrition?.[field.key];
+            if (typeof value === "number" && Number.isFinite(value)) {
+              values[field.key] = value;
+            }
+            return values;
+          }, {})
+        : undefined;
+
+    output.push({
+      name,
+      brand: typeof food.brand === "string" ? food.brand.trim() || undefined : undefined,
+      serving: typeof food.serving === "string" ? food.serving.trim() || undefined : undefined,
+      nutrition: nutrition && Object.keys(nutrition).length > 0 ? nutrition : undefined,
+    });
+  });
+
+  return output;
+}
@@ -0,0 +1,55 @@
+import { entryNutritionMultiplier } from "./serving";
+
+const DEFAULT_CALORIE_GOAL = 2500;
+const DEFAULT_PROTEIN_PCT = 30;
+const DEFAULT_CARBS_PCT = 50;
+const DEFAULT_FAT_PCT = 20;
+
+export type MacroTotals = {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+};
+
+type GoalSettings = {
+  calorieGoal?: number;
+  macroProteinPct?: number;
+  macroCarbsPct?: number;
+  macroFatPct?: number;
+};
+
+type NutritionEntryLike = Parameters<typeof entryNutritionMultiplier>[0] & {
+  nutrition?: Partial<MacroTotals> | null;
+};
+
+/** Daily targets in kcal and grams; protein and carbs have 4 kcal per gram, fat 9. */
+export function dailyGoalsFor(settings: GoalSettings): MacroTotals {
+  const calories = settings.calorieGoal || DEFAULT_CALORIE_GOAL;
+  const proteinPct = settings.macroProteinPct ?? DEFAULT_PROTEIN_PCT;
+  const carbsPct = settings.macroCarbsPct ?? DEFAULT_CARBS_PCT;
+  const fatPct = settings.macroFatPct ?? DEFAULT_FAT_PCT;
+
+  return {
+    calories,
+    protein: Math.round((calories * (proteinPct / 100)) / 4),
+    carbs: Math.round((calories * (carbsPct / 100)) / 4),
+    fat: Math.round((calories * (fatPct / 100)) / 9),
+  };
+}
+
+/** Nutrition eaten across `entries`, scaled by each entry's serving. */
+export function sumEntryNutrition(entries: readonly NutritionEntryLike[]): MacroTotals {
+  return entries.reduce<MacroTotals>(
+    (totals, entry) => {
+      const multiplier = entryNutritionMultiplier(entry);
+      return {
+        calories: totals.calories + (entry.nutrition?.calories ?? 0) * multiplier,
+        protein: totals.protein + (entry.nutrition?.protein ?? 0) * multiplier,
+        carbs: totals.carbs + (entry.nutrition?.carbs ?? 0) * multiplier,
+        fat: totals.fat + (entry.nutrition?.fat ?? 0) * multiplier,
+      };
+    },
+    { calories: 0, protein: 0, carbs: 0, fat: 0 },
+  );
+}
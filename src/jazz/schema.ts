@@ -12,6 +12,12 @@ const NutritionInfo = co.map({
   potassiumMg: z.optional(z.number()),
 });
 
+const ServingSize = z.object({
+  value: z.number(),
+  unit: z.string(),
+  nutritionMultiplier: z.number(),
+});
+
 const FoodItem = co.map({
   name: z.string(),
   brand: z.optional(z.string()),
@@ -19,11 +25,31 @@ const FoodItem = co.map({
   nutrition: co.optional(NutritionInfo),
 });
 
+const RecipeIngredient = co.map({
+  food: co.optional(FoodItem),
+  sourceId: z.optional(z.string()),
+  name: z.string(),
+  brand: z.optional(z.string()),
+  serving: z.optional(z.string()),
+  quantity: z.number(),
+  nutrition: co.optional(NutritionInfo),
+});
+
+const Recipe = co.map({
+  name: z.string(),
+  servings: z.number(),
+  ingredients: co.list(RecipeIngredient),
+  createdAt: z.number(),
+});
+
 const FoodLogEntry = co.map({
   meal: z.string(),
   foodName: z.string(),
   brand: z.optional(z.string()),
   serving: z.optional(z.string()),
+  servingSizes: z.optional(z.array(ServingSize)),
+  servingSize: z.optional(ServingSize),
+  servingAmount: z.optional(z.number()),
   portion: z.number(),
   nutrition: co.optional(NutritionInfo),
   createdAt: z.number(),
@@ -32,6 +58,7 @@ const FoodLogEntry = co.map({
 
 const CaloricRoot = co.map({
   foods: co.optional(co.list(FoodItem)),
+  recipes: co.optional(co.list(Recipe)),
   logs: co.optional(co.list(FoodLogEntry)),
   calorieGoal: z.optional(z.number()),
   macroProteinPct: z.optional(z.number()),
@@ -99,6 +126,7 @@ export const CaloricAccount = co
     if (!account.$jazz.has("root")) {
       account.$jazz.set("root", {
         foods: DEFAULT_FOODS,
+        recipes: [],
         logs: [],
         calorieGoal: DEFAULT_CALORIE_GOAL,
         macroProteinPct: DEFAULT_MACROS.proteinPct,
@@ -140,6 +168,10 @@ export const CaloricAccount = co
       root.$jazz.set("foods", DEFAULT_FOODS);
     }
 
+    if (!root.$jazz.has("recipes")) {
+      root.$jazz.set("recipes", []);
+    }
+
     if (!root.$jazz.has("logs")) {
       root.$jazz.set("logs", []);
     }
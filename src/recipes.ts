@@ -0,0 +1,107 @@
+import { NUTRITION_FIELDS, type NutritionValues } from "./custom-foods";
+
+export const RECIPE_ID_PREFIX = "recipe:";
+export const MIN_RECIPE_SERVINGS = 1;
+export const MAX_RECIPE_SERVINGS = 100;
+
+type MaybeNutrition = (NutritionValues & { $isLoaded?: boolean }) | null | undefined;
+
+export type RecipeIngredientLike = {
+  quantity: number;
+  nutrition?: MaybeNutrition;
+  food?: { $isLoaded?: boolean; nutrition?: MaybeNutrition } | null;
+};
+
+export function recipeResultId(recipeId: string) {
+  return `${RECIPE_ID_PREFIX}${recipeId}`;
+}
+
+export function isRecipeResultId(id: string) {
+  return id.startsWith(RECIPE_ID_PREFIX);
+}
+
+function isUsableNutrition(nutrition: MaybeNutrition): nutrition is NutritionValues {
+  return Boolean(nutrition) && nutrition?.$isLoaded !== false;
+}
+
+export function sanitizeRecipeServings(value: number) {
+  if (!Number.isFinite(value)) {
+    return MIN_RECIPE_SERVINGS;
+  }
+
+  return Math.min(MAX_RECIPE_SERVINGS, Math.max(MIN_RECIPE_SERVINGS, Math.round(value)));
+}
+
+/**
+ * Custom-food ingredients follow the live food so edits to "My Foods" flow into
+ * recipes; search-result ingredients use the snapshot taken when they were added.
+ */
+export function resolveIngredientNutrition(ingredient: RecipeIngredientLike): NutritionValues | undefined {
+  const food = ingredient.food;
+  if (food && food.$isLoaded !== false && isUsableNutrition(food.nutrition)) {
+    return food.nutrition;
+  }
+
+  return isUsableNutrition(ingredient.nutrition) ? ingredient.nutrition : undefined;
+}
+
+export function snapshotNutrition(nutrition: MaybeNutrition): NutritionValues | undefined {
+  if (!isUsableNutrition(nutrition)) {
+    return undefined;
+  }
+
+  const snapshot: NutritionValues = {};
+  for (const field of NUTRITION_FIELDS) {
+    const value = nutrition[field.key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      snapshot[field.key] = value;
+    }
+  }
+
+  return snapshot;
+}
+
+export function computeRecipeNutritionPerServing(
+  ingredients: readonly (RecipeIngredientLike | null | undefined)[],
+  servings: number,
+): NutritionValues | undefined {
+  const yieldServings = sanitizeRecipeServings(servings);
+  const totals: NutritionValues = {};
+
+  for (const ingredient of ingredients) {
+    if (!ingredient) {
+      continue;
+    }
+
+    const nutrition = resolveIngredientNutrition(ingredient);
+    if (!nutrition) {
+      continue;
+    }
+
+    for (const field of NUTRITION_FIELDS) {
+      const value = nutrition[field.key];
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        continue;
+      }
+
+      totals[field.key] = (totals[field.key] ?? 0) + value * ingredient.quantity;
+    }
+  }
+
+  const keys = Object.keys(totals) as (keyof NutritionValues)[];
+  if (keys.length === 0) {
+    return undefined;
+  }
+
+  const perServing: NutritionValues = {};
+  for (const key of keys) {
+    perServing[key] = Math.round(((totals[key] ?? 0) / yieldServings) * 10) / 10;
+  }
+
+  return perServing;
+}
+
+export function formatRecipeServing(servings: number) {
+  const yieldServings = sanitizeRecipeServings(servings);
+  return yieldServings === 1 ? "Whole recipe" : `1 of ${yieldServings} servings`;
+}
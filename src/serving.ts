@@ -0,0 +1,239 @@
+import { formatPortionLabel, sanitizePortion } from "./portion";
+
+export type ServingSize = {
+  value: number;
+  unit: string;
+  nutritionMultiplier: number;
+};
+
+export type ServingUnitKind = "mass" | "volume" | "count";
+
+export type ServingUnitOption = {
+  unit: string;
+  kind: ServingUnitKind;
+  multiplierPerUnit: number;
+};
+
+type ServingEntryLike = {
+  portion: number;
+  servingSize?: ServingSize | null;
+  servingAmount?: number | null;
+};
+
+const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1,
+  gram: 1,
+  grams: 1,
+  kg: 1000,
+  mg: 0.001,
+  oz: 28.3495,
+  ounce: 28.3495,
+  ounces: 28.3495,
+  lb: 453.592,
+  lbs: 453.592,
+};
+
+const MILLILITERS_PER_UNIT: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  cup: 240,
+  cups: 240,
+  tbsp: 14.787,
+  tablespoon: 14.787,
+  tablespoons: 14.787,
+  tsp: 4.929,
+  teaspoon: 4.929,
+  teaspoons: 4.929,
+  "fl oz": 29.574,
+};
+
+const MASS_UNITS = ["g", "oz"] as const;
+const VOLUME_UNITS = ["cup", "tbsp"] as const;
+
+export const MIN_SERVING_AMOUNT = 0.1;
+export const MAX_SERVING_AMOUNT = 10000;
+
+function asFiniteNumber(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? Number(value.trim()) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function normalizeUnit(unit: string) {
+  return unit
+    .toLowerCase()
+    .replace(/\(.*?\)/g, " ")
+    .replace(/\./g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function unitKind(unit: string): ServingUnitKind {
+  const normalized = normalizeUnit(unit);
+  if (GRAMS_PER_UNIT[normalized] !== undefined) {
+    return "mass";
+  }
+
+  if (MILLILITERS_PER_UNIT[normalized] !== undefined) {
+    return "volume";
+  }
+
+  return "count";
+}
+
+function roundAmount(value: number) {
+  const rounded = value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+  return Math.min(MAX_SERVING_AMOUNT, Math.max(MIN_SERVING_AMOUNT, rounded));
+}
+
+/**
+ * Reads MyFitnessPal `serving_sizes`. A missing `nutrition_multiplier` means the
+ * size is the one `nutritional_contents` was reported for.
+ */
+export function parseServingSizes(raw: unknown): ServingSize[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const sizes: ServingSize[] = [];
+
+  for (const candidate of raw) {
+    if (!candidate || typeof candidate !== "object") {
+      continue;
+    }
+
+    const record = candidate as Record<string, unknown>;
+    const value = asFiniteNumber(record.value);
+    const unit = typeof record.unit === "string" ? record.unit.trim() : "";
+    const nutritionMultiplier = asFiniteNumber(record.nutrition_multiplier) ?? 1;
+
+    if (value === undefined || value <= 0 || !unit || nutritionMultiplier <= 0) {
+      continue;
+    }
+
+    sizes.push({ value, unit, nutritionMultiplier });
+  }
+
+  return sizes;
+}
+
+/** Turns free-form servings such as "170g" or "1 egg" into a base serving size. */
+export function parseServingText(serving: string | undefined): ServingSize | undefined {
+  const match = serving?.trim().match(/^(\d+(?:[.,]\d+)?)\s*([^\d\s].*)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = Number(match[1].replace(",", "."));
+  const unit = match[2].trim();
+  if (!Number.isFinite(value) || value <= 0 || !unit) {
+    return undefined;
+  }
+
+  return { value, unit, nutritionMultiplier: 1 };
+}
+
+export function formatServingAmount(value: number) {
+  const rounded = Math.round(value * 10) / 10;
+  return Number.isInteger(rounded) ? rounded.toFixed(0) : rounded.toFixed(1);
+}
+
+export function sanitizeServingAmount(value: number) {
+  if (!Number.isFinite(value) || value <= 0) {
+    return undefined;
+  }
+
+  return Math.min(MAX_SERVING_AMOUNT, Math.max(MIN_SERVING_AMOUNT, value));
+}
+
+/**
+ * Builds the units an entry can be switched between. Grams and ounces are offered
+ * when any size has a known weight, cups and tablespoons when any has a known
+ * volume, and count-style sizes ("1 large", "1 piece") are kept as-is.
+ */
+export function buildServingUnitOptions(sizes: readonly ServingSize[]): ServingUnitOption[] {
+  const options: ServingUnitOption[] = [];
+  const seen = new Set<string>();
+  const push = (option: ServingUnitOption) => {
+    const key = normalizeUnit(option.unit);
+    if (seen.has(key) || !Number.isFinite(option.multiplierPerUnit) || option.multiplierPerUnit <= 0) {
+      return;
+    }
+
+    seen.add(key);
+    options.push(option);
+  };
+
+  const massSize = sizes.find((size) => unitKind(size.unit) === "mass");
+  if (massSize) {
+    const perGram =
+      massSize.nutritionMultiplier / (massSize.value * GRAMS_PER_UNIT[normalizeUnit(massSize.unit)]);
+
+    for (const unit of MASS_UNITS) {
+      push({ unit, kind: "mass", multiplierPerUnit: perGram * GRAMS_PER_UNIT[unit] });
+    }
+  }
+
+  const volumeSize = sizes.find((size) => unitKind(size.unit) === "volume");
+  if (volumeSize) {
+    const perMilliliter =
+      volumeSize.nutritionMultiplier /
+      (volumeSize.value * MILLILITERS_PER_UNIT[normalizeUnit(volumeSize.unit)]);
+
+    for (const unit of VOLUME_UNITS) {
+      push({ unit, kind: "volume", multiplierPerUnit: perMilliliter * MILLILITERS_PER_UNIT[unit] });
+    }
+  }
+
+  for (const size of sizes) {
+    if (unitKind(size.unit) !== "count") {
+      continue;
+    }
+
+    push({
+      unit: size.unit,
+      kind: "count",
+      multiplierPerUnit: size.nutritionMultiplier / size.value,
+    });
+  }
+
+  return options;
+}
+
+export function servingSizeForOption(option: ServingUnitOption): ServingSize {
+  return {
+    value: 1,
+    unit: option.unit,
+    nutritionMultiplier: option.multiplierPerUnit,
+  };
+}
+
+/** Converts the entry's current nutrition multiplier into an amount of `option`. */
+export function convertToServingAmount(multiplier: number, option: ServingUnitOption) {
+  return roundAmount(multiplier / option.multiplierPerUnit);
+}
+
+export function servingMultiplier(size: ServingSize, amount: number) {
+  return (amount / size.value) * size.nutritionMultiplier;
+}
+
+/**
+ * Entries logged with an explicit serving amount scale nutrition exactly; older
+ * entries fall back to the quarter-rounded portion.
+ */
+export function entryNutritionMultiplier(entry: ServingEntryLike) {
+  const amount = entry.servingAmount;
+  if (entry.servingSize && typeof amount === "number" && Number.isFinite(amount) && amount > 0) {
+    return servingMultiplier(entry.servingSize, amount);
+  }
+
+  return sanitizePortion(entry.portion);
+}
+
+export function formatEntryAmount(entry: ServingEntryLike) {
+  const amount = entry.servingAmount;
+  if (entry.servingSize && typeof amount === "number" && Number.isFinite(amount) && amount > 0) {
+    return `${formatServingAmount(amount)} ${entry.servingSize.unit}`;
+  }
+
+  return formatPortionLabel(entry.portion);
+}